@@ -0,0 +1,196 @@
+import { Data, Effect } from 'effect'
+import type { AppRight, FieldAccessibility, FieldRight, RecordAclEntity, RecordRight } from './schemas/app/acl.js'
+import type { GetFormFieldsResponse } from './schemas/form/fields.js'
+import { matchesAppEntity, type AppEntityUser } from './app-entities.js'
+import { evaluateQuery, type QueryEvaluationOptions, type QueryRecord } from './query/evaluator.js'
+import { QueryEvaluationError, QuerySyntaxError } from './query/errors.js'
+import { QueryValidationError } from './query/validator.js'
+import { formatMessage } from './messages.js'
+
+// アクセス権の判定
+// アプリ・レコード・フィールドのアクセス権の設定から、ユーザーのレコードとフィールドごとの権限を求める
+
+/**
+ * アクセス権の設定（それぞれの取得APIのレスポンスの rights）
+ * record・field を省略した場合は、レコード・フィールドのアクセス権を設定していないものとして扱う
+ */
+export interface AclSettings {
+  readonly app: ReadonlyArray<AppRight>
+  readonly record?: ReadonlyArray<RecordRight>
+  readonly field?: ReadonlyArray<FieldRight>
+}
+
+/**
+ * アクセス権の判定のオプション
+ * レコードのアクセス権の filterCond の評価には now・utcOffsetMinutes・primaryOrganization を使う（evaluateQuery と同じ）
+ */
+export type AclEvaluationOptions = Omit<QueryEvaluationOptions, 'loginUser' | 'formProperties'>
+
+/**
+ * レコードに対する権限
+ * addable・importable・exportable・appEditable はアプリのアクセス権のみで決まる
+ */
+export interface EffectiveRecordRights {
+  viewable: boolean
+  addable: boolean
+  editable: boolean
+  deletable: boolean
+  importable: boolean
+  exportable: boolean
+  appEditable: boolean
+}
+
+/**
+ * ユーザーのレコードとフィールドごとの権限（fields のキーはフォームのフィールドコード）
+ */
+export interface EffectiveAclRights {
+  record: EffectiveRecordRights
+  fields: Record<string, FieldAccessibility>
+}
+
+/**
+ * フォームに存在しないフィールドコードを参照するアクセス権の設定
+ * （フィールドのアクセス権の code と、レコード・フィールドのアクセス権の FIELD_ENTITY）
+ * message は現在のメッセージのロケールの文言を返す
+ */
+export class UnknownAclFieldCode extends Data.TaggedError('UnknownAclFieldCode')<{
+  readonly fieldCodes: ReadonlyArray<string>
+}> {
+  override get message(): string {
+    return formatMessage('aclUnknownFieldCodes', { fieldCodes: this.fieldCodes })
+  }
+}
+
+/**
+ * アクセス権の判定のエラー
+ * レコードのアクセス権の filterCond を評価できない場合（構文エラー、PRIMARY_ORGANIZATION() に必要なオプションがない等）はクエリのエラー
+ */
+export type AclError = UnknownAclFieldCode | QuerySyntaxError | QueryValidationError | QueryEvaluationError
+
+const NO_APP_RIGHTS: Omit<AppRight, 'entity' | 'includeSubs'> = {
+  appEditable: false,
+  recordViewable: false,
+  recordAddable: false,
+  recordEditable: false,
+  recordDeletable: false,
+  recordImportable: false,
+  recordExportable: false,
+}
+
+// アクセス権の設定が参照する、フォームに存在しないフィールドコード
+const collectUnknownFieldCodes = (
+  settings: AclSettings,
+  formProperties: GetFormFieldsResponse['properties']
+): string[] => {
+  const referenced = (entity: RecordAclEntity): string[] => (entity.type === 'FIELD_ENTITY' ? [entity.code] : [])
+  const codes = [
+    ...(settings.record ?? []).flatMap((right) => right.entities.flatMap(({ entity }) => referenced(entity))),
+    ...(settings.field ?? []).flatMap((right) => [
+      right.code,
+      ...right.entities.flatMap(({ entity }) => referenced(entity)),
+    ]),
+  ]
+  return [...new Set(codes)].filter((code) => !Object.hasOwn(formProperties, code))
+}
+
+/**
+ * アクセス権の設定から、ユーザーのレコードとフィールドごとの権限を求める
+ * 設定は上にあるものほど優先され、ユーザーに該当する最初のエンティティの権限を使う
+ *
+ * - レコードのアクセス権は filterCond に一致する最初の設定を使い、アプリのアクセス権より強い権限にはならない
+ * - フィールドのアクセス権を設定していないフィールドは WRITE、設定したフィールドでユーザーに該当するエンティティがない場合は NONE
+ * - フィールドの権限は、レコードを閲覧できない場合は NONE、編集できない場合は READ を上限とする
+ *
+ * フォームに存在しないフィールドコードを参照している場合は UnknownAclFieldCode、
+ * レコードのアクセス権の filterCond を評価できない場合は QuerySyntaxError, QueryValidationError, QueryEvaluationError をスローする
+ *
+ * @example
+ * ```typescript
+ * evaluateAcl(
+ *   { app: appAcl.rights, record: recordAcl.rights, field: fieldAcl.rights },
+ *   fieldsResponse.properties,
+ *   { code: 'sato', organizations: ['営業1課'], parentOrganizations: ['営業部'] },
+ *   record
+ * )
+ * // { record: { viewable: true, editable: false, ... }, fields: { 顧客名: 'READ', 原価: 'NONE', ... } }
+ * ```
+ */
+export const evaluateAcl = (
+  settings: AclSettings,
+  formProperties: GetFormFieldsResponse['properties'],
+  user: AppEntityUser,
+  record: QueryRecord,
+  options: AclEvaluationOptions = {}
+): EffectiveAclRights => {
+  const fieldCodes = collectUnknownFieldCodes(settings, formProperties)
+  if (fieldCodes.length > 0) {
+    throw new UnknownAclFieldCode({ fieldCodes })
+  }
+
+  const matches = ({ entity, includeSubs }: { entity: AppRight['entity'] | RecordAclEntity; includeSubs: boolean }) =>
+    matchesAppEntity(entity, user, record, includeSubs)
+
+  const app = settings.app.find(matches) ?? NO_APP_RIGHTS
+  let viewable = app.recordViewable
+  let editable = app.recordEditable
+  let deletable = app.recordDeletable
+
+  const recordRight = (settings.record ?? []).find(
+    ({ filterCond }) =>
+      filterCond.trim() === '' ||
+      evaluateQuery(filterCond, [record], { ...options, formProperties, loginUser: user.code }).length > 0
+  )
+  if (recordRight) {
+    const entity = recordRight.entities.find(matches)
+    viewable = viewable && (entity?.viewable ?? false)
+    editable = editable && (entity?.editable ?? false)
+    deletable = deletable && (entity?.deletable ?? false)
+  }
+
+  const fieldRights = new Map((settings.field ?? []).map((right) => [right.code, right]))
+  const fields: Record<string, FieldAccessibility> = {}
+  for (const code of Object.keys(formProperties)) {
+    const right = fieldRights.get(code)
+    const accessibility = right ? (right.entities.find(matches)?.accessibility ?? 'NONE') : 'WRITE'
+    fields[code] = !viewable ? 'NONE' : !editable && accessibility === 'WRITE' ? 'READ' : accessibility
+  }
+
+  return {
+    record: {
+      viewable,
+      addable: app.recordAddable,
+      editable,
+      deletable,
+      importable: app.recordImportable,
+      exportable: app.recordExportable,
+      appEditable: app.appEditable,
+    },
+    fields,
+  }
+}
+
+/**
+ * アクセス権の設定から、ユーザーのレコードとフィールドごとの権限を求める（Effect版）
+ */
+export const evaluateAclEffect = (
+  settings: AclSettings,
+  formProperties: GetFormFieldsResponse['properties'],
+  user: AppEntityUser,
+  record: QueryRecord,
+  options: AclEvaluationOptions = {}
+): Effect.Effect<EffectiveAclRights, AclError> => {
+  return Effect.try({
+    try: () => evaluateAcl(settings, formProperties, user, record, options),
+    catch: (error) => {
+      if (
+        error instanceof UnknownAclFieldCode ||
+        error instanceof QuerySyntaxError ||
+        error instanceof QueryValidationError ||
+        error instanceof QueryEvaluationError
+      ) {
+        return error
+      }
+      throw error
+    },
+  })
+}
@@ -0,0 +1,85 @@
+import type { AppEntity } from './schemas/app/entity.js'
+
+// アプリの設定のエンティティ（ユーザー・組織・グループ・フィールド・作成者）がユーザーに該当するかを判定する
+// プロセス管理の作業者・実行できるユーザー、アクセス権の判定で使う
+
+/**
+ * エンティティを判定するユーザー
+ */
+export interface AppEntityUser {
+  /** ログイン名（ユーザーコード） */
+  readonly code: string
+  /** 所属する組織のコード */
+  readonly organizations?: ReadonlyArray<string>
+  /** 所属する組織の上位組織のコード（includeSubs: true のエンティティの判定に使う） */
+  readonly parentOrganizations?: ReadonlyArray<string>
+  /** 所属するグループ（ロール）のコード */
+  readonly groups?: ReadonlyArray<string>
+}
+
+/**
+ * エンティティを判定するレコード（FIELD_ENTITY・CREATOR の判定に使う）
+ */
+export type AppEntityRecord = Readonly<Record<string, { readonly type: string; readonly value: unknown }>>
+
+// ユーザー・組織・グループの値（{ code, name } または その配列）のコード
+const getEntityCodes = (value: unknown): string[] => {
+  const items: unknown[] = Array.isArray(value) ? value : [value]
+  return items.flatMap((item) => {
+    const code = item && typeof item === 'object' ? (item as { code?: unknown }).code : undefined
+    return typeof code === 'string' ? [code] : []
+  })
+}
+
+const matchesOrganization = (code: string, user: AppEntityUser, includeSubs: boolean): boolean => {
+  return (user.organizations ?? []).includes(code) || (includeSubs && (user.parentOrganizations ?? []).includes(code))
+}
+
+/**
+ * エンティティがユーザーに該当するかを判定
+ * FIELD_ENTITY・CREATOR はレコードのフィールドの値で判定し、レコードを指定しない場合は該当しない
+ * CUSTOM_FIELD（カスタマイズで指定する項目）は判定できないため該当しない
+ *
+ * @example
+ * ```typescript
+ * matchesAppEntity({ type: 'ORGANIZATION', code: '営業部' }, { code: 'sato', parentOrganizations: ['営業部'] }, undefined, true) // true
+ * matchesAppEntity({ type: 'FIELD_ENTITY', code: '担当者' }, { code: 'sato' }, record) // 担当者に sato が含まれる場合 true
+ * ```
+ */
+export const matchesAppEntity = (
+  entity: AppEntity,
+  user: AppEntityUser,
+  record?: AppEntityRecord,
+  includeSubs = false
+): boolean => {
+  const { code } = entity
+  switch (entity.type) {
+    case 'USER':
+      return code === user.code
+    case 'GROUP':
+      return code !== null && (user.groups ?? []).includes(code)
+    case 'ORGANIZATION':
+      return code !== null && matchesOrganization(code, user, includeSubs)
+    case 'CREATOR': {
+      const creator = record && Object.values(record).find((field) => field.type === 'CREATOR')
+      return creator !== undefined && getEntityCodes(creator.value).includes(user.code)
+    }
+    case 'FIELD_ENTITY': {
+      const field = code === null ? undefined : record?.[code]
+      if (!field) {
+        return false
+      }
+      const codes = getEntityCodes(field.value)
+      switch (field.type) {
+        case 'ORGANIZATION_SELECT':
+          return codes.some((organization) => matchesOrganization(organization, user, includeSubs))
+        case 'GROUP_SELECT':
+          return codes.some((group) => (user.groups ?? []).includes(group))
+        default:
+          return codes.includes(user.code)
+      }
+    }
+    case 'CUSTOM_FIELD':
+      return false
+  }
+}
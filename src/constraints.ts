@@ -0,0 +1,214 @@
+import type {
+  KintoneFieldProperties,
+  SubtableField as SubtableColumnProperties,
+} from './schemas/form/fields.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+/**
+ * フィールド設定から導かれる制約の種類
+ */
+export type FieldConstraint =
+  | 'required'
+  | 'minLength'
+  | 'maxLength'
+  | 'number'
+  | 'minValue'
+  | 'maxValue'
+  | 'protocol'
+  | 'option'
+
+/**
+ * 制約違反の情報
+ */
+export interface FieldConstraintViolation {
+  fieldCode: string
+  constraint: FieldConstraint
+  /** 制約で期待される値（文字数・値の範囲・形式・選択肢のラベル等） */
+  expected: unknown
+  /** 実際の値（文字数の制約では文字数） */
+  actual: unknown
+  message: string
+}
+
+/**
+ * 制約チェックの対象となるフィールド設定（通常フィールドとサブテーブル内フィールド）
+ */
+export type ConstrainedFieldProperties = KintoneFieldProperties | SubtableColumnProperties
+
+// LINKフィールドのプロトコルごとの形式
+const LINK_PROTOCOL_PATTERNS = {
+  WEB: /^https?:\/\/\S+$/,
+  CALL: /^[0-9+\-*#() ]+$/,
+  MAIL: /^[^\s@]+@[^\s@]+$/,
+} as const
+
+/**
+ * 空値（""、null、undefined、[]）かどうかを判定
+ */
+export const isEmptyFieldValue = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+// kintone APIは未設定の数値プロパティを空文字列で返すため、設定されている場合のみ数値を返す
+const parseLimit = (limit: string | undefined): number | undefined => {
+  if (limit === undefined || limit === '') {
+    return undefined
+  }
+  const parsed = Number(limit)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * 制約違反の内容を表す文言（フィールドコードを含まない）
+ * locale を省略した場合は現在のメッセージのロケールを使う
+ */
+export const formatConstraintDetail = (
+  constraint: FieldConstraint,
+  expected: unknown,
+  actual: unknown,
+  locale?: MessageLocale
+): string => {
+  return formatMessage(constraint, { expected, actual }, locale)
+}
+
+const violation = (
+  fieldCode: string,
+  constraint: FieldConstraint,
+  expected: unknown,
+  actual: unknown
+): FieldConstraintViolation => ({
+  fieldCode,
+  constraint,
+  expected,
+  actual,
+  message: `${formatMessage('field', { fieldCode })}: ${formatConstraintDetail(constraint, expected, actual)} (${constraint})`,
+})
+
+/**
+ * 文字数の制約（minLength / maxLength）をチェック
+ * サロゲートペアを1文字として数える
+ */
+const checkLength = (
+  fieldCode: string,
+  value: string,
+  minLength: string | undefined,
+  maxLength: string | undefined
+): FieldConstraintViolation[] => {
+  const violations: FieldConstraintViolation[] = []
+  const length = Array.from(value).length
+  const min = parseLimit(minLength)
+  const max = parseLimit(maxLength)
+
+  if (min !== undefined && length < min) {
+    violations.push(violation(fieldCode, 'minLength', min, length))
+  }
+  if (max !== undefined && length > max) {
+    violations.push(violation(fieldCode, 'maxLength', max, length))
+  }
+
+  return violations
+}
+
+/**
+ * 数値の制約（minValue / maxValue）をチェック
+ */
+const checkNumber = (
+  fieldCode: string,
+  value: string,
+  minValue: string | undefined,
+  maxValue: string | undefined
+): FieldConstraintViolation[] => {
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value)) {
+    return [violation(fieldCode, 'number', undefined, value)]
+  }
+
+  const violations: FieldConstraintViolation[] = []
+  const numericValue = Number(value)
+  const min = parseLimit(minValue)
+  const max = parseLimit(maxValue)
+
+  if (min !== undefined && numericValue < min) {
+    violations.push(violation(fieldCode, 'minValue', min, value))
+  }
+  if (max !== undefined && numericValue > max) {
+    violations.push(violation(fieldCode, 'maxValue', max, value))
+  }
+
+  return violations
+}
+
+/**
+ * 選択肢の制約（option）をチェック
+ * 単一選択は値、複数選択は配列の各要素が選択肢のラベルに含まれることを確認する
+ */
+const checkOptions = (
+  fieldCode: string,
+  options: Record<string, { label: string }>,
+  value: unknown
+): FieldConstraintViolation[] => {
+  const labels = new Set(Object.values(options).map((option) => option.label))
+  const selected: unknown[] = Array.isArray(value) ? value : [value]
+  return selected
+    .filter((item) => typeof item !== 'string' || !labels.has(item))
+    .map((item) => violation(fieldCode, 'option', Array.from(labels), item))
+}
+
+/**
+ * フィールド設定の制約に対して値をチェックし、違反の一覧を返す
+ *
+ * - required: 空値を許可しない
+ * - minLength / maxLength: SINGLE_LINE_TEXT, LINK の文字数
+ * - minValue / maxValue: NUMBER の値の範囲（displayScale は表示時の丸めのため対象外）
+ * - protocol: LINK の形式（WEB / CALL / MAIL）
+ * - option: RADIO_BUTTON, DROP_DOWN, CHECK_BOX, MULTI_SELECT の値が選択肢に含まれること
+ *
+ * 空値は required 以外の制約の対象外
+ */
+export const checkFieldConstraints = (
+  properties: ConstrainedFieldProperties,
+  value: unknown
+): FieldConstraintViolation[] => {
+  if (!('code' in properties)) {
+    return []
+  }
+
+  const fieldCode = properties.code
+
+  if (isEmptyFieldValue(value)) {
+    return 'required' in properties && properties.required === true
+      ? [violation(fieldCode, 'required', undefined, value)]
+      : []
+  }
+
+  switch (properties.type) {
+    case 'SINGLE_LINE_TEXT':
+      return typeof value === 'string'
+        ? checkLength(fieldCode, value, properties.minLength, properties.maxLength)
+        : []
+
+    case 'LINK': {
+      if (typeof value !== 'string') {
+        return []
+      }
+      const violations = checkLength(fieldCode, value, properties.minLength, properties.maxLength)
+      if (!LINK_PROTOCOL_PATTERNS[properties.protocol].test(value)) {
+        violations.push(violation(fieldCode, 'protocol', properties.protocol, value))
+      }
+      return violations
+    }
+
+    case 'NUMBER':
+      return typeof value === 'string'
+        ? checkNumber(fieldCode, value, properties.minValue, properties.maxValue)
+        : []
+
+    case 'RADIO_BUTTON':
+    case 'DROP_DOWN':
+    case 'CHECK_BOX':
+    case 'MULTI_SELECT':
+      return checkOptions(fieldCode, properties.options, value)
+
+    default:
+      return []
+  }
+}
@@ -1,5 +1,7 @@
-import { Schema } from 'effect'
+import { Effect, Either, ParseResult, Schema } from 'effect'
 import { KintoneFieldSchema } from './schemas/fields.js'
+import { GetRecordsResponseSchema, KintoneRecordSchema } from './schemas/record.js'
+import { KintoneFieldTypeRegistry, getFieldEmptyValue, getFieldTypeDefinition } from './schemas/field-registry.js'
 import type { KintoneFieldType } from './types/kintone.js'
 
 /**
@@ -13,87 +15,255 @@ export const normalizeFieldValue = (field: unknown): unknown => {
   }
   
   const fieldObj = field as Record<string, unknown>
-  const type = fieldObj['type'] as KintoneFieldType
+  const type = fieldObj['type']
   const value = fieldObj['value']
+  const definition = typeof type === 'string' ? getFieldTypeDefinition(type) : undefined
   
-  switch (type) {
-    // 文字列系: undefined → ""
-    case 'SINGLE_LINE_TEXT':
-    case 'MULTI_LINE_TEXT':
-    case 'LINK':
-    case 'LOOKUP':
-      return { ...fieldObj, value: value === undefined ? '' : value }
-    
-    // リッチテキスト: 変換不要
-    case 'RICH_TEXT':
-      return fieldObj
-    
-    // 数値・日時系: undefined/"" → null
-    case 'NUMBER':
-    case 'DATETIME':
-      return { 
-        ...fieldObj, 
-        value: (value === undefined || value === '') ? null : value 
-      }
-    
-    // 日付・時刻: undefined → null
-    case 'DATE':
-    case 'TIME':
-      return { ...fieldObj, value: value === undefined ? null : value }
-    
-    // ドロップダウン: undefined/"" → null
-    case 'DROP_DOWN':
-      return { 
-        ...fieldObj, 
-        value: (value === undefined || value === '') ? null : value 
-      }
-    
-    // ラジオボタン: undefined/"" → null
-    case 'RADIO_BUTTON':
-      return { 
-        ...fieldObj, 
-        value: (value === undefined || value === '') ? null : value 
-      }
-    
-    // 配列系: undefined/null → []
-    case 'CHECK_BOX':
-    case 'MULTI_SELECT':
-    case 'USER_SELECT':
-    case 'ORGANIZATION_SELECT':
-    case 'GROUP_SELECT':
-    case 'FILE':
-    case 'CATEGORY':
-    case 'STATUS_ASSIGNEE':
-      return { 
-        ...fieldObj, 
-        value: value === undefined || value === null ? [] : value 
-      }
-    
-    // その他のフィールド（CALC, STATUS, CREATOR等）: 変換不要
-    default:
-      return fieldObj
+  // 空値の正規化ルールはフィールドタイプのレジストリで定義する
+  // （例: SINGLE_LINE_TEXT は undefined → ""、NUMBER は undefined/"" → null、CHECK_BOX は undefined/null → []）
+  if (!definition || definition.emptyInputs.length === 0) {
+    return fieldObj
+  }
+  if (definition.emptyInputs.includes(value)) {
+    return { ...fieldObj, value: getFieldEmptyValue(type as KintoneFieldType) }
   }
+  
+  // サブテーブル: 各行の各セルを再帰的に正規化
+  return type === 'SUBTABLE'
+    ? { ...fieldObj, value: normalizeSubtableRows(value) }
+    : fieldObj
 }
 
 /**
- * kintoneフィールドをデコードし、空値を正規化する
+ * サブテーブルの行配列を正規化する
+ * 行の構造（id, value）は維持し、value内の各セルにnormalizeFieldValueを適用する
  */
-export const decodeKintoneField = (data: unknown): unknown => {
-  const normalized = normalizeFieldValue(data)
-  return Schema.decodeUnknownSync(KintoneFieldSchema)(normalized)
+const normalizeSubtableRows = (rows: unknown): unknown => {
+  if (!Array.isArray(rows)) {
+    return rows
+  }
+  
+  return rows.map((row: unknown) => {
+    if (!row || typeof row !== 'object') {
+      return row
+    }
+    
+    const rowObj = row as Record<string, unknown>
+    const cells = rowObj['value']
+    if (!cells || typeof cells !== 'object') {
+      return rowObj
+    }
+    
+    const normalizedCells: Record<string, unknown> = {}
+    for (const [fieldCode, cell] of Object.entries(cells as Record<string, unknown>)) {
+      normalizedCells[fieldCode] = normalizeFieldValue(cell)
+    }
+    return { ...rowObj, value: normalizedCells }
+  })
 }
 
+// デコード結果の型
+type DecodedKintoneField = Schema.Schema.Type<typeof KintoneFieldSchema>
+type DecodedKintoneRecord = Schema.Schema.Type<typeof KintoneRecordSchema>
+type DecodedGetRecordsResponse = Schema.Schema.Type<typeof GetRecordsResponseSchema>
+
 /**
- * kintoneレコード全体をデコードし、各フィールドの空値を正規化する
+ * レコードの各フィールドに空値の正規化を適用する
  */
-export const decodeKintoneRecord = (record: Record<string, unknown>): Record<string, unknown> => {
+const normalizeRecord = (record: Record<string, unknown>): Record<string, unknown> => {
   const normalizedRecord: Record<string, unknown> = {}
   
   for (const [fieldCode, field] of Object.entries(record)) {
-    // SubtableやRecordの場合は再帰的に処理が必要だが、
-    // ここでは単純化のため基本フィールドのみ対応
     normalizedRecord[fieldCode] = normalizeFieldValue(field)
   }
   
   return normalizedRecord
-}
\ No newline at end of file
+}
+
+// フィールドタイプごとのデコード関数
+// KintoneFieldSchema（Union）はメンバーを順に試すため、type の値でレジストリのスキーマを直接選んでデコードする
+// サブテーブルはセルごとにデコードするため含めない（decodeSubtableByType）
+const FIELD_DECODERS: ReadonlyMap<string, (field: unknown) => Either.Either<unknown, ParseResult.ParseIssue>> = new Map(
+  Object.entries(KintoneFieldTypeRegistry).flatMap(([type, { recordSchema }]) =>
+    recordSchema && type !== 'SUBTABLE' ? [[type, ParseResult.decodeUnknownEither(recordSchema)] as const] : []
+  )
+)
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// type の値でスキーマを選んでフィールドをデコードする
+// 失敗した場合は undefined を返し、呼び出し側でUnionのスキーマによるデコードに切り替えてParseErrorを作る
+const decodeFieldByType = (field: unknown, allowSubtable: boolean): unknown => {
+  if (!isObject(field)) {
+    return undefined
+  }
+  if (allowSubtable && field['type'] === 'SUBTABLE') {
+    return decodeSubtableByType(field['value'])
+  }
+  const decode = typeof field['type'] === 'string' ? FIELD_DECODERS.get(field['type']) : undefined
+  if (!decode) {
+    return undefined
+  }
+  const result = decode(field)
+  return Either.isRight(result) ? result.right : undefined
+}
+
+const decodeSubtableByType = (rows: unknown): unknown => {
+  if (!Array.isArray(rows)) {
+    return undefined
+  }
+  const decodedRows: unknown[] = []
+  for (const row of rows) {
+    if (!isObject(row) || typeof row['id'] !== 'string' || !isObject(row['value'])) {
+      return undefined
+    }
+    const cells = decodeFieldsByType(row['value'], false)
+    if (cells === undefined) {
+      return undefined
+    }
+    decodedRows.push({ id: row['id'], value: cells })
+  }
+  return { type: 'SUBTABLE', value: decodedRows }
+}
+
+const decodeFieldsByType = (
+  fields: Record<string, unknown>,
+  allowSubtable: boolean
+): Record<string, unknown> | undefined => {
+  const decoded: Record<string, unknown> = {}
+  for (const [fieldCode, field] of Object.entries(fields)) {
+    const value = decodeFieldByType(field, allowSubtable)
+    if (value === undefined) {
+      return undefined
+    }
+    decoded[fieldCode] = value
+  }
+  return decoded
+}
+
+// フィールドのデコード（type で直接スキーマを選び、失敗した場合のみUnionでデコードしてParseErrorを返す）
+const decodeField = (field: unknown): Either.Either<DecodedKintoneField, ParseResult.ParseError> => {
+  const decoded = decodeFieldByType(field, false)
+  return decoded === undefined
+    ? Schema.decodeUnknownEither(KintoneFieldSchema)(field)
+    : Either.right(decoded as DecodedKintoneField)
+}
+
+// レコードのデコード（type で直接スキーマを選び、失敗した場合のみUnionでデコードしてParseErrorを返す）
+const decodeRecord = (record: unknown): Either.Either<DecodedKintoneRecord, ParseResult.ParseError> => {
+  const decoded = isObject(record) ? decodeFieldsByType(record, true) : undefined
+  return decoded === undefined
+    ? Schema.decodeUnknownEither(KintoneRecordSchema)(record)
+    : Either.right(decoded as DecodedKintoneRecord)
+}
+
+const getOrThrow = <A>(result: Either.Either<A, ParseResult.ParseError>): A => {
+  if (Either.isLeft(result)) {
+    throw result.left
+  }
+  return result.right
+}
+
+/**
+ * kintoneフィールドをデコードし、空値を正規化する
+ * 検証に失敗した場合はParseErrorをスローする
+ */
+export const decodeKintoneField = (data: unknown): DecodedKintoneField => {
+  return getOrThrow(decodeField(normalizeFieldValue(data)))
+}
+
+/**
+ * kintoneフィールドをデコードし、空値を正規化する（Effect版）
+ * 検証に失敗した場合はParseErrorで失敗するEffectを返す
+ */
+export const decodeKintoneFieldEffect = (
+  data: unknown
+): Effect.Effect<DecodedKintoneField, ParseResult.ParseError> => {
+  return Effect.suspend(() => decodeField(normalizeFieldValue(data)))
+}
+
+/**
+ * kintoneフィールドをデコードし、空値を正規化する（Either版）
+ */
+export const decodeKintoneFieldEither = (
+  data: unknown
+): Either.Either<DecodedKintoneField, ParseResult.ParseError> => {
+  return decodeField(normalizeFieldValue(data))
+}
+
+/**
+ * kintoneレコード全体をデコードし、各フィールドの空値を正規化する
+ * サブテーブルは行・セル単位で正規化した上で、KintoneRecordSchemaで検証する
+ */
+export const decodeKintoneRecord = (record: Record<string, unknown>): DecodedKintoneRecord => {
+  return getOrThrow(decodeRecord(normalizeRecord(record)))
+}
+
+/**
+ * kintoneレコード全体をデコードし、各フィールドの空値を正規化する（Effect版）
+ * ParseErrorのパスにはフィールドコード（サブテーブルの場合は行番号とセルのフィールドコード）が含まれる
+ */
+export const decodeKintoneRecordEffect = (
+  record: Record<string, unknown>
+): Effect.Effect<DecodedKintoneRecord, ParseResult.ParseError> => {
+  return Effect.suspend(() => decodeRecord(normalizeRecord(record)))
+}
+
+/**
+ * kintoneレコード全体をデコードし、各フィールドの空値を正規化する（Either版）
+ */
+export const decodeKintoneRecordEither = (
+  record: Record<string, unknown>
+): Either.Either<DecodedKintoneRecord, ParseResult.ParseError> => {
+  return decodeRecord(normalizeRecord(record))
+}
+
+/**
+ * レコード一覧取得APIのレスポンスをデコードし、各レコードの空値を正規化する（Either版）
+ * 大量のレコードを type で直接スキーマを選んでデコードする。
+ * 失敗した場合のみ GetRecordsResponseSchema でデコードし、records のインデックスを含むParseErrorを返す
+ */
+export const decodeGetRecordsResponseEither = (
+  response: unknown
+): Either.Either<DecodedGetRecordsResponse, ParseResult.ParseError> => {
+  if (!isObject(response) || !Array.isArray(response['records'])) {
+    return Schema.decodeUnknownEither(GetRecordsResponseSchema)(response)
+  }
+
+  const records = response['records'].map((record: unknown) =>
+    isObject(record) ? normalizeRecord(record) : record
+  )
+  const totalCount = response['totalCount']
+  const decodedRecords: unknown[] = []
+  for (const record of records) {
+    const decoded = isObject(record) ? decodeFieldsByType(record, true) : undefined
+    if (decoded === undefined) {
+      return Schema.decodeUnknownEither(GetRecordsResponseSchema)({ ...response, records })
+    }
+    decodedRecords.push(decoded)
+  }
+  if (typeof totalCount !== 'string' && totalCount !== null) {
+    return Schema.decodeUnknownEither(GetRecordsResponseSchema)({ ...response, records })
+  }
+
+  return Either.right({ records: decodedRecords, totalCount } as DecodedGetRecordsResponse)
+}
+
+/**
+ * レコード一覧取得APIのレスポンスをデコードし、各レコードの空値を正規化する
+ * 検証に失敗した場合はParseErrorをスローする
+ */
+export const decodeGetRecordsResponse = (response: unknown): DecodedGetRecordsResponse => {
+  return getOrThrow(decodeGetRecordsResponseEither(response))
+}
+
+/**
+ * レコード一覧取得APIのレスポンスをデコードし、各レコードの空値を正規化する（Effect版）
+ */
+export const decodeGetRecordsResponseEffect = (
+  response: unknown
+): Effect.Effect<DecodedGetRecordsResponse, ParseResult.ParseError> => {
+  return Effect.suspend(() => decodeGetRecordsResponseEither(response))
+}
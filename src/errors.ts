@@ -0,0 +1,162 @@
+import { Data } from 'effect'
+import type { KintoneFieldType } from './types/kintone.js'
+import type { FieldConstraint } from './constraints.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+// バリデーションエラーの階層
+// Effect.catchTag で種類ごとに処理でき、構造化されたプロパティから独自のメッセージを組み立てられる
+// message は現在のメッセージのロケール（デフォルトは ja）の文言を返す
+
+/**
+ * エラーの対象の位置
+ * 通常のフィールドは [フィールドコード]、サブテーブル内のフィールドは [サブテーブルのフィールドコード, 行番号（0始まり）, フィールドコード]
+ */
+export type FieldPath = ReadonlyArray<string | number>
+
+// メッセージの先頭に付けるフィールドの表記
+const describeField = (
+  fieldCode: string | undefined,
+  path: FieldPath,
+  locale: MessageLocale | undefined
+): string | undefined => {
+  if (fieldCode === undefined) {
+    return undefined
+  }
+  const [subtableCode, rowIndex] = path
+  return path.length === 3 && typeof rowIndex === 'number'
+    ? formatMessage('subtableField', { subtableCode: String(subtableCode), rowIndex, fieldCode }, locale)
+    : formatMessage('field', { fieldCode }, locale)
+}
+
+const withField = (
+  fieldCode: string | undefined,
+  path: FieldPath,
+  detail: string,
+  locale: MessageLocale | undefined
+): string => {
+  const field = describeField(fieldCode, path, locale)
+  return field === undefined ? detail : `${field}: ${detail}`
+}
+
+/**
+ * 空値を設定できないフィールド（RADIO_BUTTON, CATEGORY, STATUS_ASSIGNEE）に空値が指定された
+ * 単一フィールドの検証ではフィールドコードを持たない
+ */
+export class EmptyValueNotAllowed extends Data.TaggedError('EmptyValueNotAllowed')<{
+  readonly fieldCode?: string
+  readonly fieldType: KintoneFieldType
+  readonly path: FieldPath
+  readonly actual: unknown
+}> {
+  override get message(): string {
+    return formatValidationErrorMessage(this)
+  }
+}
+
+/**
+ * フォームに存在しないフィールドコードが指定された
+ */
+export class UnknownFieldCode extends Data.TaggedError('UnknownFieldCode')<{
+  readonly fieldCode: string
+  readonly path: FieldPath
+}> {
+  override get message(): string {
+    return formatValidationErrorMessage(this)
+  }
+}
+
+/**
+ * 書き込みできない読み取り専用・システムフィールド（CALC, RECORD_NUMBER, STATUS 等）が指定された
+ */
+export class ReadOnlyField extends Data.TaggedError('ReadOnlyField')<{
+  readonly fieldCode: string
+  readonly fieldType: KintoneFieldType
+  readonly path: FieldPath
+}> {
+  override get message(): string {
+    return formatValidationErrorMessage(this)
+  }
+}
+
+/**
+ * 選択肢に存在しない値が指定された（expected は選択肢のラベル）
+ */
+export class OptionNotFound extends Data.TaggedError('OptionNotFound')<{
+  readonly fieldCode: string
+  readonly fieldType: KintoneFieldType
+  readonly path: FieldPath
+  readonly expected: ReadonlyArray<string>
+  readonly actual: unknown
+}> {
+  override get message(): string {
+    return formatValidationErrorMessage(this)
+  }
+}
+
+/**
+ * フィールド設定の制約（required, minLength, maxValue 等）に違反した
+ */
+export class ConstraintViolation extends Data.TaggedError('ConstraintViolation')<{
+  readonly fieldCode: string
+  readonly fieldType: KintoneFieldType
+  readonly path: FieldPath
+  readonly constraint: Exclude<FieldConstraint, 'option'>
+  readonly expected: unknown
+  readonly actual: unknown
+}> {
+  override get message(): string {
+    return formatValidationErrorMessage(this)
+  }
+}
+
+/**
+ * 書き込みバリデーションのエラー
+ */
+export type KintoneValidationError =
+  | EmptyValueNotAllowed
+  | UnknownFieldCode
+  | ReadOnlyField
+  | OptionNotFound
+  | ConstraintViolation
+
+/**
+ * 書き込みバリデーションのエラーかどうかを判定
+ */
+export const isKintoneValidationError = (error: unknown): error is KintoneValidationError => {
+  return (
+    error instanceof EmptyValueNotAllowed ||
+    error instanceof UnknownFieldCode ||
+    error instanceof ReadOnlyField ||
+    error instanceof OptionNotFound ||
+    error instanceof ConstraintViolation
+  )
+}
+
+/**
+ * 書き込みバリデーションのエラーのメッセージを指定したロケールで組み立てる
+ * locale を省略した場合は現在のメッセージのロケールを使う（message プロパティと同じ）
+ */
+export const formatValidationErrorMessage = (
+  error: KintoneValidationError,
+  locale?: MessageLocale
+): string => {
+  switch (error._tag) {
+    case 'EmptyValueNotAllowed':
+      return withField(
+        error.fieldCode,
+        error.path,
+        formatMessage('nonEmpty', { fieldType: error.fieldType, actual: error.actual }, locale),
+        locale
+      )
+    case 'UnknownFieldCode':
+      return withField(error.fieldCode, error.path, formatMessage('unknownField', {}, locale), locale)
+    case 'ReadOnlyField':
+      return withField(error.fieldCode, error.path, formatMessage('readOnly', { fieldType: error.fieldType }, locale), locale)
+    case 'OptionNotFound':
+    case 'ConstraintViolation': {
+      const constraint = error._tag === 'OptionNotFound' ? 'option' : error.constraint
+      const detail = formatMessage(constraint, { expected: error.expected, actual: error.actual }, locale)
+      return withField(error.fieldCode, error.path, `${detail} (${constraint})`, locale)
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import type { GetFormFieldsResponse } from './schemas/form/fields.js'
+import type { FormLayout, RowLayout } from './schemas/form/layout.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+// フォームのレイアウトの検証
+// レイアウトの要素のフィールドコードとタイプを、フォームのフィールドと照合する
+
+/**
+ * レイアウトとフォームのフィールドの不一致
+ * - missingFromLayout: フォームのフィールドがレイアウトに配置されていない
+ * - unknownCode: レイアウトの要素のフィールドコードがフォームに存在しない
+ * - typeMismatch: レイアウトの要素とフォームのフィールドのタイプが異なる
+ *
+ * path はレイアウトでの位置（例: [0, 'fields', 2]、グループ内は [3, 'layout', 0, 'fields', 1]）、
+ * missingFromLayout の場合はフォームでの位置（[フィールドコード] または [テーブルのフィールドコード, フィールドコード]）
+ */
+export interface FormLayoutIssue {
+  kind: 'missingFromLayout' | 'unknownCode' | 'typeMismatch'
+  code: string
+  /** テーブル内のフィールドの場合はテーブルのフィールドコード */
+  subtableCode?: string
+  path: ReadonlyArray<string | number>
+  message: string
+}
+
+// レイアウトに配置しなくてもよいフィールド（システムフィールド・プロセス管理のフィールド）と、
+// フィールドコードを持たないレイアウト用の要素
+const FIELD_TYPES_OUTSIDE_LAYOUT: ReadonlySet<string> = new Set([
+  'RECORD_NUMBER',
+  'CREATOR',
+  'CREATED_TIME',
+  'MODIFIER',
+  'UPDATED_TIME',
+  'STATUS',
+  'STATUS_ASSIGNEE',
+  'CATEGORY',
+  'RECORD_ID',
+  'REVISION',
+  '__ID__',
+  '__REVISION__',
+  'SPACER',
+  'LABEL',
+])
+
+type FormProperties = GetFormFieldsResponse['properties']
+
+/**
+ * レイアウトをフォームのフィールド（フォームのフィールド一覧取得APIの properties）と照合し、不一致をすべて返す
+ * レイアウトにないフォームのフィールド（システムフィールドを除く）と、フォームにないフィールドコードを参照するレイアウトの要素を報告する
+ * locale を省略した場合は setMessageLocale で設定したロケールのメッセージになる
+ *
+ * @example
+ * ```typescript
+ * const issues = collectFormLayoutIssues(layoutResponse.layout, fieldsResponse.properties)
+ * // [{ kind: 'missingFromLayout', code: 'memo', path: ['memo'], message: 'フィールド "memo" がレイアウトに配置されていません' }]
+ * ```
+ */
+export const collectFormLayoutIssues = (
+  layout: ReadonlyArray<FormLayout>,
+  properties: FormProperties,
+  locale?: MessageLocale
+): FormLayoutIssue[] => {
+  const issues: FormLayoutIssue[] = []
+  const placed = new Set<string>()
+  // テーブルのフィールドコードごとの、配置されたテーブル内のフィールド
+  const placedColumns = new Map<string, Set<string>>()
+
+  const checkElement = (
+    code: string,
+    type: string,
+    path: ReadonlyArray<string | number>,
+    expected: { readonly type: string } | undefined,
+    subtableCode?: string
+  ): void => {
+    const base = { code, ...(subtableCode !== undefined ? { subtableCode } : {}), path }
+    if (!expected) {
+      issues.push({ kind: 'unknownCode', ...base, message: formatMessage('layoutUnknownCode', { code, subtableCode }, locale) })
+    } else if (expected.type !== type) {
+      issues.push({
+        kind: 'typeMismatch',
+        ...base,
+        message: formatMessage('layoutTypeMismatch', { code, subtableCode, layoutType: type, fieldType: expected.type }, locale),
+      })
+    }
+  }
+
+  const checkRow = (row: RowLayout, path: ReadonlyArray<string | number>): void => {
+    row.fields.forEach((element, index) => {
+      if ('code' in element) {
+        placed.add(element.code)
+        checkElement(element.code, element.type, [...path, 'fields', index], properties[element.code])
+      }
+    })
+  }
+
+  layout.forEach((node, index) => {
+    switch (node.type) {
+      case 'ROW':
+        checkRow(node, [index])
+        break
+      case 'SUBTABLE': {
+        placed.add(node.code)
+        const subtable = properties[node.code]
+        checkElement(node.code, node.type, [index], subtable)
+        const columns = subtable?.type === 'SUBTABLE' ? subtable.fields : undefined
+        const placedInTable = placedColumns.get(node.code) ?? new Set<string>()
+        placedColumns.set(node.code, placedInTable)
+        node.fields.forEach((element, columnIndex) => {
+          placedInTable.add(element.code)
+          if (columns) {
+            checkElement(element.code, element.type, [index, 'fields', columnIndex], columns[element.code], node.code)
+          }
+        })
+        break
+      }
+      case 'GROUP':
+        placed.add(node.code)
+        checkElement(node.code, node.type, [index], properties[node.code])
+        node.layout.forEach((row, rowIndex) => {
+          checkRow(row, [index, 'layout', rowIndex])
+        })
+        break
+    }
+  })
+
+  for (const [code, field] of Object.entries(properties)) {
+    if (FIELD_TYPES_OUTSIDE_LAYOUT.has(field.type)) {
+      continue
+    }
+    if (!placed.has(code)) {
+      issues.push({ kind: 'missingFromLayout', code, path: [code], message: formatMessage('layoutMissingField', { code }, locale) })
+      continue
+    }
+    if (field.type === 'SUBTABLE') {
+      const placedInTable = placedColumns.get(code)
+      for (const columnCode of Object.keys(field.fields)) {
+        if (placedInTable && !placedInTable.has(columnCode)) {
+          issues.push({
+            kind: 'missingFromLayout',
+            code: columnCode,
+            subtableCode: code,
+            path: [code, columnCode],
+            message: formatMessage('layoutMissingField', { code: columnCode, subtableCode: code }, locale),
+          })
+        }
+      }
+    }
+  }
+
+  return issues
+}
@@ -28,6 +28,8 @@ import {
   LookupFieldSchema,
   RecordIdFieldSchema,
   RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
   KintoneFieldSchema,
 } from './schemas/fields.js'
 import {
@@ -85,9 +87,22 @@ export {
   LookupFieldSchema,
   RecordIdFieldSchema,
   RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
   KintoneFieldSchema,
 } from './schemas/fields.js'
 
+// フィールドタイプのレジストリのエクスポート
+export {
+  KintoneFieldTypeRegistry,
+  getFieldTypeDefinition,
+  getFieldEmptyValue,
+} from './schemas/field-registry.js'
+export type {
+  FieldTypeDefinition,
+  FieldEmptyValue,
+} from './schemas/field-registry.js'
+
 // レコードスキーマのエクスポート
 export {
   SubtableFieldSchema,
@@ -97,23 +112,202 @@ export {
   KintoneRecordForWriteSchema,
 } from './schemas/record.js'
 
+// 寛容な入力スキーマのエクスポート（decodeで空値を正規化、encodeで書き込み用の空値を出力）
+export {
+  LenientSingleLineTextFieldSchema,
+  LenientMultiLineTextFieldSchema,
+  LenientRichTextFieldSchema,
+  LenientNumberFieldSchema,
+  LenientRadioButtonFieldSchema,
+  LenientCheckBoxFieldSchema,
+  LenientMultiSelectFieldSchema,
+  LenientDropDownFieldSchema,
+  LenientDateFieldSchema,
+  LenientTimeFieldSchema,
+  LenientDateTimeFieldSchema,
+  LenientLinkFieldSchema,
+  LenientUserSelectFieldSchema,
+  LenientOrganizationSelectFieldSchema,
+  LenientGroupSelectFieldSchema,
+  LenientFileFieldSchema,
+  LenientStatusAssigneeFieldSchema,
+  LenientCategoryFieldSchema,
+  LenientLookupFieldSchema,
+  LenientKintoneFieldSchema,
+  LenientSubtableFieldSchema,
+  LenientKintoneRecordSchema,
+} from './schemas/lenient-fields.js'
+
+// 書き込み用スキーマのエクスポート（レコード追加/更新APIの value の形）
+export {
+  KintoneEntityCodeSchema,
+  KintoneFileKeySchema,
+  SingleLineTextWriteSchema,
+  MultiLineTextWriteSchema,
+  RichTextWriteSchema,
+  NumberWriteSchema,
+  RadioButtonWriteSchema,
+  CheckBoxWriteSchema,
+  MultiSelectWriteSchema,
+  DropDownWriteSchema,
+  DateWriteSchema,
+  TimeWriteSchema,
+  DateTimeWriteSchema,
+  LinkWriteSchema,
+  UserSelectWriteSchema,
+  OrganizationSelectWriteSchema,
+  GroupSelectWriteSchema,
+  FileWriteSchema,
+  KintoneFieldWriteSchema,
+  SubtableWriteSchema,
+  KintoneRecordWriteSchema,
+} from './schemas/write-fields.js'
+export type {
+  KintoneFieldWrite,
+  SubtableWrite,
+  KintoneRecordWrite,
+} from './schemas/write-fields.js'
+
+// ドメイン型スキーマのエクスポート（BigDecimal, DateTime等の実際の値として扱う）
+export {
+  BigDecimalFromKintoneString,
+  CalendarDateSchema,
+  LocalTimeSchema,
+  CalendarDateFromString,
+  LocalTimeFromString,
+  DateTimeUtcFromKintoneString,
+  IntFromKintoneString,
+  DomainKintoneFileSchema,
+  DomainNumberFieldSchema,
+  DomainDateFieldSchema,
+  DomainTimeFieldSchema,
+  DomainDateTimeFieldSchema,
+  DomainFileFieldSchema,
+  DomainCreatedTimeFieldSchema,
+  DomainUpdatedTimeFieldSchema,
+  DomainRecordIdFieldSchema,
+  DomainRevisionFieldSchema,
+  DomainSystemIdFieldSchema,
+  DomainSystemRevisionFieldSchema,
+  DomainKintoneFieldSchema,
+  DomainSubtableFieldSchema,
+  DomainKintoneRecordSchema,
+} from './schemas/domain-fields.js'
+export type {
+  CalendarDate,
+  LocalTime,
+  DomainKintoneField,
+  DomainSubtableField,
+  DomainKintoneRecord,
+} from './schemas/domain-fields.js'
+
 // デコーダーのエクスポート
 export {
   normalizeFieldValue,
   decodeKintoneField,
+  decodeKintoneFieldEffect,
+  decodeKintoneFieldEither,
   decodeKintoneRecord,
+  decodeKintoneRecordEffect,
+  decodeKintoneRecordEither,
+  decodeGetRecordsResponse,
+  decodeGetRecordsResponseEffect,
+  decodeGetRecordsResponseEither,
 } from './decoders.js'
 
 
 // バリデーターのエクスポート
 export {
-  KintoneValidationError,
   validateFieldForWrite,
   validateRecordForWrite,
   isNonEmptyField,
+  isReadOnlyField,
   getEmptyValueForWrite,
+  collectRecordWriteIssues,
+  collectUniqueFieldHints,
+  validateRecordForWriteEffect,
+  toValidationError,
+  RecordValidationError,
+} from './validators.js'
+export type {
+  UniqueFieldHint,
+  WriteValidationIssue,
+  WriteValidationOptions,
+  WriteValidationRule,
 } from './validators.js'
 
+// バリデーションエラーのエクスポート
+export {
+  EmptyValueNotAllowed,
+  UnknownFieldCode,
+  ReadOnlyField,
+  OptionNotFound,
+  ConstraintViolation,
+  isKintoneValidationError,
+  formatValidationErrorMessage,
+} from './errors.js'
+export type {
+  FieldPath,
+  KintoneValidationError,
+} from './errors.js'
+
+// メッセージのカタログのエクスポート
+export {
+  formatMessage,
+  registerMessages,
+  setMessageLocale,
+  getMessageLocale,
+} from './messages.js'
+export type {
+  MessageCatalog,
+  MessageKey,
+  MessageLocale,
+  MessageParams,
+} from './messages.js'
+
+// ParseErrorのフォーマットのエクスポート
+export {
+  formatRecordParseError,
+  summarizeRecordParseError,
+  formatRecordParseErrorMessage,
+  formatFieldPath,
+} from './parse-error.js'
+export type {
+  ParseErrorFormatOptions,
+  RecordParseIssue,
+  RecordParseIssueSummary,
+} from './parse-error.js'
+
+// 書き込み用レコード生成のエクスポート
+export {
+  toWritePayload,
+  toWriteValue,
+} from './write-payload.js'
+export type {
+  WriteFieldValue,
+  WritePayload,
+} from './write-payload.js'
+
+// レコードの差分のエクスポート
+export {
+  diffRecords,
+} from './record-diff.js'
+export type {
+  RecordChange,
+  RecordDiff,
+} from './record-diff.js'
+
+// フィールド設定の制約チェックのエクスポート
+export {
+  checkFieldConstraints,
+  isEmptyFieldValue,
+} from './constraints.js'
+export type {
+  FieldConstraint,
+  FieldConstraintViolation,
+  ConstrainedFieldProperties,
+} from './constraints.js'
+
 // Schemaのre-export（便利のため）
 export { Schema } from 'effect'
 
@@ -146,6 +340,8 @@ export type CategoryField = Schema.Schema.Type<typeof CategoryFieldSchema>
 export type LookupField = Schema.Schema.Type<typeof LookupFieldSchema>
 export type RecordIdField = Schema.Schema.Type<typeof RecordIdFieldSchema>
 export type RevisionField = Schema.Schema.Type<typeof RevisionFieldSchema>
+export type SystemIdField = Schema.Schema.Type<typeof SystemIdFieldSchema>
+export type SystemRevisionField = Schema.Schema.Type<typeof SystemRevisionFieldSchema>
 export type SubtableField = Schema.Schema.Type<typeof SubtableFieldSchema>
 
 // Union型
@@ -164,13 +360,94 @@ export type KintoneRecordWriteData = Record<string, { value: unknown }>
 // フォームフィールド設定スキーマのエクスポート
 export * from './schemas/form/index.js'
 
+// アプリの設定スキーマのエクスポート
+export * from './schemas/app/index.js'
+
 // Form to Record変換ユーティリティのエクスポート
 export {
   convertFormFieldToRecordSchema,
   convertFormFieldsToRecordSchema,
   createRecordSchemaFromForm,
+  createRecordStructFromForm,
+  createRecordWriteStructFromForm,
   getRecordFieldType,
 } from './utils/form-to-record-converter.js'
+export type {
+  OptionLabelOf,
+  RecordFieldOf,
+  RecordFieldSchemaOf,
+  RecordSchemaOptions,
+  RecordStructFields,
+  RecordStructOptions,
+  RecordStructType,
+  RecordWriteFieldOf,
+  RecordWriteStructFields,
+  RecordWriteStructOptions,
+  RecordWriteStructType,
+} from './utils/form-to-record-converter.js'
+
+// クエリのエクスポート
+export * from './query/index.js'
+
+// アプリの設定のエンティティの判定のエクスポート
+export {
+  matchesAppEntity,
+} from './app-entities.js'
+export type {
+  AppEntityRecord,
+  AppEntityUser,
+} from './app-entities.js'
+
+// プロセス管理の状態遷移のエクスポート
+export {
+  getRecordStatus,
+  getAvailableProcessActions,
+  validateProcessAction,
+  validateProcessActionEffect,
+  UnknownProcessAction,
+  ProcessActionNotAllowed,
+} from './process-management.js'
+export type {
+  ProcessActionError,
+  ProcessActionNotAllowedReason,
+  ProcessActionOptions,
+  ProcessManagementSettings,
+  ProcessTransition,
+} from './process-management.js'
+
+// アクセス権の判定のエクスポート
+export {
+  evaluateAcl,
+  evaluateAclEffect,
+  UnknownAclFieldCode,
+} from './acl.js'
+export type {
+  AclError,
+  AclEvaluationOptions,
+  AclSettings,
+  EffectiveAclRights,
+  EffectiveRecordRights,
+} from './acl.js'
+
+// フォームのレイアウトの検証のエクスポート
+export { collectFormLayoutIssues } from './form-layout-validation.js'
+export type { FormLayoutIssue } from './form-layout-validation.js'
+
+// 一覧の設定の検証のエクスポート
+export { collectViewIssues } from './view-validation.js'
+export type { ViewIssue } from './view-validation.js'
+
+// グラフの設定の検証のエクスポート
+export {
+  collectReportIssues,
+  validateReports,
+  validateReportsEffect,
+  ReportValidationError,
+} from './report-validation.js'
+export type {
+  ReportIssue,
+  ReportIssueKind,
+} from './report-validation.js'
 
 // (code generators removed – using value+schema module flow)
 
@@ -0,0 +1,330 @@
+import type { Schema } from 'effect'
+
+// エラーメッセージのカタログ
+// バリデーション・制約チェック・ParseErrorのフォーマットで使う文言をロケールごとに保持する
+// 組み込みのロケールは ja（デフォルト）と en で、registerMessages で追加・上書きできる
+
+/**
+ * メッセージのロケール（'ja', 'en' または registerMessages で登録したロケール）
+ */
+export type MessageLocale = string
+
+// 制約違反のメッセージの引数
+interface ConstraintMessageParams {
+  readonly expected: unknown
+  readonly actual: unknown
+}
+
+/**
+ * メッセージごとの引数
+ */
+export interface MessageParams {
+  /** フィールドの表記（label はフォームのフィールド名） */
+  readonly field: { readonly fieldCode: string; readonly label?: string | undefined }
+  /** サブテーブル内のフィールドの表記（rowIndex は0始まり） */
+  readonly subtableField: {
+    readonly subtableCode: string
+    readonly subtableLabel?: string | undefined
+    readonly rowIndex: number
+    readonly fieldCode: string
+    readonly label?: string | undefined
+  }
+  readonly nonEmpty: { readonly fieldType: string; readonly actual: unknown }
+  readonly readOnly: { readonly fieldType: string }
+  readonly unknownField: Record<string, never>
+  readonly required: ConstraintMessageParams
+  readonly minLength: ConstraintMessageParams
+  readonly maxLength: ConstraintMessageParams
+  readonly number: ConstraintMessageParams
+  readonly minValue: ConstraintMessageParams
+  readonly maxValue: ConstraintMessageParams
+  readonly protocol: ConstraintMessageParams
+  readonly option: ConstraintMessageParams
+  /** レコードがオブジェクトではない */
+  readonly invalidRecord: { readonly actual: unknown }
+  /** フィールドが { type, value } 形式のオブジェクトではない */
+  readonly invalidField: { readonly actual: unknown }
+  /** フィールドタイプが不正 */
+  readonly invalidFieldType: { readonly actual: unknown }
+  /** フィールドタイプに対して値が不正 */
+  readonly invalidFieldValue: { readonly fieldType: string; readonly actual: unknown }
+  /** 必要なプロパティがない */
+  readonly missingProperty: { readonly property: string }
+  /** サブテーブルの行が { id, value } 形式のオブジェクトではない */
+  readonly invalidRow: { readonly actual: unknown }
+  /** サブテーブルの行の id が文字列ではない */
+  readonly invalidRowId: { readonly actual: unknown }
+
+  // アプリの設定の検証（subtableCode はテーブル内のフィールドの場合のテーブルのフィールドコード）
+  /** レイアウトの要素がフォームにないフィールドコードを参照している */
+  readonly layoutUnknownCode: { readonly code: string; readonly subtableCode?: string | undefined }
+  /** レイアウトの要素とフォームのフィールドのタイプが異なる */
+  readonly layoutTypeMismatch: {
+    readonly code: string
+    readonly subtableCode?: string | undefined
+    readonly layoutType: string
+    readonly fieldType: string
+  }
+  /** フォームのフィールドがレイアウトに配置されていない */
+  readonly layoutMissingField: { readonly code: string; readonly subtableCode?: string | undefined }
+  /** 一覧がフォームにないフィールドコードを参照している */
+  readonly viewUnknownField: { readonly view: string; readonly fieldCode: string }
+  /** カレンダー形式の一覧の date が日付のフィールドではない */
+  readonly viewCalendarDate: { readonly view: string; readonly fieldCode: string; readonly fieldType: string }
+  /** 一覧の filterCond・sort のクエリの問題（detail はクエリの検証のメッセージ） */
+  readonly viewQuery: { readonly view: string; readonly kind: 'filterCond' | 'sort'; readonly detail: string }
+  /** アクセス権の設定がフォームにないフィールドコードを参照している */
+  readonly aclUnknownFieldCodes: { readonly fieldCodes: ReadonlyArray<string> }
+  /** グラフの分類する項目（group）・集計する項目（aggregation）のフィールドコードがフォームに存在しない */
+  readonly reportUnknownField: { readonly report: string; readonly target: 'group' | 'aggregation'; readonly fieldCode: string }
+  /** 分類する項目に使えないタイプのフィールド */
+  readonly reportGroupFieldType: { readonly report: string; readonly fieldType: string; readonly fieldCode: string }
+  /** per を指定できないフィールドに per を指定している */
+  readonly reportGroupPerNotAllowed: {
+    readonly report: string
+    readonly fieldType: string
+    readonly fieldCode: string
+    readonly per: string
+  }
+  /** per が必要なフィールドに使える per を指定していない（pers は使える per） */
+  readonly reportGroupPerRequired: {
+    readonly report: string
+    readonly fieldType: string
+    readonly fieldCode: string
+    readonly pers: ReadonlyArray<string>
+  }
+  /** COUNT 以外の集計方法でフィールドコードを指定していない */
+  readonly reportAggregationField: { readonly report: string; readonly aggregation: string }
+  /** 集計方法に使えないタイプのフィールド */
+  readonly reportAggregationFieldType: {
+    readonly report: string
+    readonly aggregation: string
+    readonly fieldType: string
+    readonly fieldCode: string
+  }
+  /** プロセス管理の設定に存在しないアクション（availableActions はレコードのステータスから実行できるアクション） */
+  readonly unknownProcessAction: { readonly action: string; readonly availableActions: ReadonlyArray<string> }
+  /** レコード・ユーザーの状態では実行できないアクション（reason は実行できない理由） */
+  readonly processActionNotAllowed: {
+    readonly action: string
+    readonly status?: string | undefined
+    readonly reason: string
+  }
+
+  // レコードの差分（before / after は書き込み時の値、rowId はサブテーブルの行の id）
+  /** フィールドの値の変更 */
+  readonly recordFieldChanged: { readonly fieldCode: string; readonly before: unknown; readonly after: unknown }
+  /** サブテーブルの行の追加 */
+  readonly recordRowAdded: { readonly subtableCode: string }
+  /** サブテーブルの行の削除 */
+  readonly recordRowRemoved: { readonly subtableCode: string; readonly rowId: string }
+  /** サブテーブルの既存行のセルの値の変更 */
+  readonly recordCellChanged: {
+    readonly subtableCode: string
+    readonly rowId: string
+    readonly fieldCode: string
+    readonly before: unknown
+    readonly after: unknown
+  }
+}
+
+export type MessageKey = keyof MessageParams
+
+/**
+ * ロケールごとのメッセージ定義
+ */
+export type MessageCatalog = {
+  readonly [K in MessageKey]: (params: MessageParams[K]) => string
+}
+
+// undefined は JSON.stringify で文字列にならないためそのまま表記する
+const formatActual = (value: unknown): string => {
+  return value === undefined ? 'undefined' : JSON.stringify(value)
+}
+
+const ja: MessageCatalog = {
+  field: ({ fieldCode, label }) =>
+    label === undefined ? `フィールド "${fieldCode}"` : `フィールド "${label}" (${fieldCode})`,
+  subtableField: ({ subtableCode, subtableLabel, rowIndex, fieldCode, label }) => {
+    const subtable = subtableLabel === undefined ? `"${subtableCode}"` : `"${subtableLabel}" (${subtableCode})`
+    const field = label === undefined ? `"${fieldCode}"` : `"${label}" (${fieldCode})`
+    return `サブテーブル ${subtable} ${String(rowIndex + 1)}行目のフィールド ${field}`
+  },
+  nonEmpty: ({ fieldType }) => `${fieldType}フィールドには空の値を設定できません`,
+  readOnly: ({ fieldType }) => `${fieldType}フィールドには値を書き込めません`,
+  unknownField: () => 'フォームに存在しないフィールドです',
+  required: () => '必須項目です',
+  minLength: ({ expected }) => `${String(expected)}文字以上で入力してください`,
+  maxLength: ({ expected }) => `${String(expected)}文字以下で入力してください`,
+  number: () => '数値を入力してください',
+  minValue: ({ expected }) => `${String(expected)}以上の値を入力してください`,
+  maxValue: ({ expected }) => `${String(expected)}以下の値を入力してください`,
+  protocol: ({ expected }) => `${String(expected)}形式の値を入力してください`,
+  option: ({ actual }) => `${formatActual(actual)}は選択肢にありません`,
+  invalidRecord: ({ actual }) => `レコードはオブジェクトで指定してください: ${formatActual(actual)}`,
+  invalidField: ({ actual }) => `{ type, value } 形式のオブジェクトで指定してください: ${formatActual(actual)}`,
+  invalidFieldType: ({ actual }) => `フィールドタイプ ${formatActual(actual)} は不正です`,
+  invalidFieldValue: ({ fieldType, actual }) => `${fieldType}フィールドの値として不正です: ${formatActual(actual)}`,
+  missingProperty: ({ property }) => `"${property}" がありません`,
+  invalidRow: ({ actual }) => `行は { id, value } 形式のオブジェクトで指定してください: ${formatActual(actual)}`,
+  invalidRowId: ({ actual }) => `行の id は文字列で指定してください: ${formatActual(actual)}`,
+  layoutUnknownCode: ({ code, subtableCode }) =>
+    subtableCode === undefined
+      ? `レイアウトがフォームにないフィールドコード "${code}" を参照しています`
+      : `レイアウトがテーブル "${subtableCode}" にないフィールドコード "${code}" を参照しています`,
+  layoutTypeMismatch: ({ code, subtableCode, layoutType, fieldType }) =>
+    `レイアウトが "${code}"${subtableCode === undefined ? '' : `（テーブル "${subtableCode}"）`} を ${layoutType} として配置していますが、フィールドは ${fieldType} です`,
+  layoutMissingField: ({ code, subtableCode }) =>
+    subtableCode === undefined
+      ? `フィールド "${code}" がレイアウトに配置されていません`
+      : `フィールド "${code}" がテーブル "${subtableCode}" に配置されていません`,
+  viewUnknownField: ({ view, fieldCode }) => `一覧 "${view}" がフォームにないフィールドコード "${fieldCode}" を参照しています`,
+  viewCalendarDate: ({ view, fieldCode, fieldType }) =>
+    `カレンダー形式の一覧 "${view}" が ${fieldType} フィールド "${fieldCode}" を日付に使っています（日付（DATE）のフィールドを指定してください）`,
+  viewQuery: ({ view, kind, detail }) => `一覧 "${view}" の ${kind}: ${detail}`,
+  aclUnknownFieldCodes: ({ fieldCodes }) =>
+    `アクセス権の設定がフォームにないフィールドコードを参照しています: ${fieldCodes.map((code) => `"${code}"`).join(', ')}`,
+  reportUnknownField: ({ report, target, fieldCode }) =>
+    `グラフ "${report}": ${target === 'group' ? '分類する項目' : '集計する項目'}のフィールドコード "${fieldCode}" が存在しません`,
+  reportGroupFieldType: ({ report, fieldType, fieldCode }) =>
+    `グラフ "${report}": ${fieldType} フィールド "${fieldCode}" は分類する項目に使えません`,
+  reportGroupPerNotAllowed: ({ report, fieldType, fieldCode, per }) =>
+    `グラフ "${report}": ${fieldType} フィールド "${fieldCode}" には per "${per}" を指定できません`,
+  reportGroupPerRequired: ({ report, fieldType, fieldCode, pers }) =>
+    `グラフ "${report}": ${fieldType} フィールド "${fieldCode}" の per には ${pers.join(' / ')} のいずれかを指定してください`,
+  reportAggregationField: ({ report, aggregation }) => `グラフ "${report}": ${aggregation} にはフィールドコードを指定してください`,
+  reportAggregationFieldType: ({ report, aggregation, fieldType, fieldCode }) =>
+    `グラフ "${report}": ${aggregation} では ${fieldType} フィールド "${fieldCode}" を集計できません`,
+  unknownProcessAction: ({ action, availableActions }) =>
+    `アクション "${action}" は存在しません（実行できるアクション: ${availableActions.map((name) => `"${name}"`).join(', ') || 'なし'}）`,
+  processActionNotAllowed: ({ action, status, reason }) =>
+    `アクション "${action}" は${status === undefined ? 'このレコードから' : `ステータス "${status}" から`}実行できません (${reason})`,
+  recordFieldChanged: ({ fieldCode, before, after }) =>
+    `フィールド "${fieldCode}" を変更: ${formatActual(before)} → ${formatActual(after)}`,
+  recordRowAdded: ({ subtableCode }) => `サブテーブル "${subtableCode}": 行を追加`,
+  recordRowRemoved: ({ subtableCode, rowId }) => `サブテーブル "${subtableCode}": 行 (id: ${rowId}) を削除`,
+  recordCellChanged: ({ subtableCode, rowId, fieldCode, before, after }) =>
+    `サブテーブル "${subtableCode}" 行 (id: ${rowId}) のフィールド "${fieldCode}" を変更: ${formatActual(before)} → ${formatActual(after)}`,
+}
+
+const en: MessageCatalog = {
+  field: ({ fieldCode, label }) =>
+    label === undefined ? `Field "${fieldCode}"` : `Field "${label}" (${fieldCode})`,
+  subtableField: ({ subtableCode, subtableLabel, rowIndex, fieldCode, label }) => {
+    const subtable = subtableLabel === undefined ? `"${subtableCode}"` : `"${subtableLabel}" (${subtableCode})`
+    const field = label === undefined ? `"${fieldCode}"` : `"${label}" (${fieldCode})`
+    return `Subtable ${subtable} row ${String(rowIndex + 1)}, field ${field}`
+  },
+  nonEmpty: ({ fieldType }) => `${fieldType} field cannot be empty`,
+  readOnly: ({ fieldType }) => `${fieldType} field cannot be written`,
+  unknownField: () => 'Field does not exist in the form',
+  required: () => 'Required',
+  minLength: ({ expected }) => `Enter at least ${String(expected)} characters`,
+  maxLength: ({ expected }) => `Enter at most ${String(expected)} characters`,
+  number: () => 'Enter a number',
+  minValue: ({ expected }) => `Enter a value of ${String(expected)} or more`,
+  maxValue: ({ expected }) => `Enter a value of ${String(expected)} or less`,
+  protocol: ({ expected }) => `Enter a value in ${String(expected)} format`,
+  option: ({ actual }) => `${formatActual(actual)} is not one of the options`,
+  invalidRecord: ({ actual }) => `Record must be an object: ${formatActual(actual)}`,
+  invalidField: ({ actual }) => `Field must be an object with type and value: ${formatActual(actual)}`,
+  invalidFieldType: ({ actual }) => `Invalid field type ${formatActual(actual)}`,
+  invalidFieldValue: ({ fieldType, actual }) => `Invalid value for ${fieldType} field: ${formatActual(actual)}`,
+  missingProperty: ({ property }) => `"${property}" is missing`,
+  invalidRow: ({ actual }) => `Row must be an object with id and value: ${formatActual(actual)}`,
+  invalidRowId: ({ actual }) => `Row id must be a string: ${formatActual(actual)}`,
+  layoutUnknownCode: ({ code, subtableCode }) =>
+    `Layout references unknown field code "${code}"${subtableCode === undefined ? '' : ` in table "${subtableCode}"`}`,
+  layoutTypeMismatch: ({ code, subtableCode, layoutType, fieldType }) =>
+    `Layout places "${code}"${subtableCode === undefined ? '' : ` in table "${subtableCode}"`} as ${layoutType} but the field is ${fieldType}`,
+  layoutMissingField: ({ code, subtableCode }) =>
+    subtableCode === undefined
+      ? `Field "${code}" is not placed in the layout`
+      : `Field "${code}" is not placed in table "${subtableCode}"`,
+  viewUnknownField: ({ view, fieldCode }) => `View "${view}" references unknown field code "${fieldCode}"`,
+  viewCalendarDate: ({ view, fieldCode, fieldType }) =>
+    `Calendar view "${view}" uses ${fieldType} field "${fieldCode}" as the date (a DATE field is required)`,
+  viewQuery: ({ view, kind, detail }) => `View "${view}" ${kind}: ${detail}`,
+  aclUnknownFieldCodes: ({ fieldCodes }) =>
+    `ACL references unknown field codes: ${fieldCodes.map((code) => `"${code}"`).join(', ')}`,
+  reportUnknownField: ({ report, target, fieldCode }) =>
+    `Report "${report}": ${target} field code "${fieldCode}" does not exist`,
+  reportGroupFieldType: ({ report, fieldType, fieldCode }) =>
+    `Report "${report}": ${fieldType} field "${fieldCode}" cannot be used as a group`,
+  reportGroupPerNotAllowed: ({ report, fieldType, fieldCode, per }) =>
+    `Report "${report}": per "${per}" cannot be used for ${fieldType} field "${fieldCode}"`,
+  reportGroupPerRequired: ({ report, fieldType, fieldCode, pers }) =>
+    `Report "${report}": ${fieldType} field "${fieldCode}" must be grouped per ${pers.join(' / ')}`,
+  reportAggregationField: ({ report, aggregation }) => `Report "${report}": ${aggregation} requires a field code`,
+  reportAggregationFieldType: ({ report, aggregation, fieldType, fieldCode }) =>
+    `Report "${report}": ${aggregation} cannot aggregate ${fieldType} field "${fieldCode}"`,
+  unknownProcessAction: ({ action, availableActions }) =>
+    `Unknown action "${action}" (available: ${availableActions.map((name) => `"${name}"`).join(', ') || 'none'})`,
+  processActionNotAllowed: ({ action, status, reason }) =>
+    `Action "${action}" cannot be executed from ${status === undefined ? 'the record' : `status "${status}"`} (${reason})`,
+  recordFieldChanged: ({ fieldCode, before, after }) =>
+    `Field "${fieldCode}" changed: ${formatActual(before)} → ${formatActual(after)}`,
+  recordRowAdded: ({ subtableCode }) => `Subtable "${subtableCode}": row added`,
+  recordRowRemoved: ({ subtableCode, rowId }) => `Subtable "${subtableCode}": row (id: ${rowId}) removed`,
+  recordCellChanged: ({ subtableCode, rowId, fieldCode, before, after }) =>
+    `Subtable "${subtableCode}" row (id: ${rowId}), field "${fieldCode}" changed: ${formatActual(before)} → ${formatActual(after)}`,
+}
+
+const DEFAULT_LOCALE = 'ja'
+
+// 登録済みのカタログ（registerMessages で追加される）
+const catalogs = new Map<MessageLocale, Partial<MessageCatalog>>([
+  ['ja', ja],
+  ['en', en],
+])
+
+let currentLocale: MessageLocale = DEFAULT_LOCALE
+
+/**
+ * ロケールのメッセージを登録する
+ * 既に登録されているロケールの場合は指定したメッセージのみ上書きし、
+ * 定義されていないメッセージは en の文言を使う
+ */
+export const registerMessages = (locale: MessageLocale, messages: Partial<MessageCatalog>): void => {
+  catalogs.set(locale, { ...catalogs.get(locale), ...messages })
+}
+
+/**
+ * メッセージのロケールを設定する（デフォルトは ja）
+ */
+export const setMessageLocale = (locale: MessageLocale): void => {
+  if (!catalogs.has(locale)) {
+    throw new Error(`Unknown message locale: ${locale}`)
+  }
+  currentLocale = locale
+}
+
+/**
+ * 現在のメッセージのロケールを返す
+ */
+export const getMessageLocale = (): MessageLocale => currentLocale
+
+/**
+ * メッセージを組み立てる
+ * locale を省略した場合は setMessageLocale で設定したロケールを使う
+ */
+export const formatMessage = <K extends MessageKey>(
+  key: K,
+  params: MessageParams[K],
+  locale: MessageLocale = currentLocale
+): string => {
+  const message: MessageCatalog[K] = catalogs.get(locale)?.[key] ?? en[key]
+  return message(params)
+}
+
+/**
+ * フィールドスキーマの value に付けるメッセージのアノテーション
+ * 値全体の型が一致しない場合、フィールドタイプと実際の値を含む現在のロケールのメッセージになる
+ */
+export const fieldValueMessage = (fieldType: string): Pick<Schema.Annotations.Schema<unknown>, 'message'> => ({
+  message: (issue) => ({
+    message: formatMessage('invalidFieldValue', { fieldType, actual: issue.actual }),
+    // 配列の要素・オブジェクトのプロパティの不一致は、その位置の問題として報告する
+    override: issue._tag !== 'Composite' || issue.ast._tag === 'Union',
+  }),
+})
@@ -0,0 +1,440 @@
+import { Either, ParseResult, Schema, type SchemaAST } from 'effect'
+import { getFieldTypeDefinition } from './schemas/field-registry.js'
+import type { GetFormFieldsResponse } from './schemas/form/fields.js'
+import type { FieldPath } from './errors.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+// レコードのスキーマ（KintoneRecordSchema, GetRecordsResponseSchema, createRecordStructFromForm 等）のParseErrorのフォーマット
+// ParseErrorの木からフィールド（{ type, value }）の位置の問題を探し、入力されたフィールドの type から選んだスキーマで
+// デコードし直して、そのParseErrorの問題を実際のパスで報告する（Unionの他のメンバーとの不一致は報告しない）
+// type のスキーマには一致するフィールド（フォームの設定による制約等）は、元のParseErrorの問題を報告する
+
+/**
+ * ParseErrorのフォーマットのオプション
+ */
+export interface ParseErrorFormatOptions {
+  /** フォームフィールド取得APIの properties（指定した場合はメッセージにフィールド名を含める） */
+  formProperties?: GetFormFieldsResponse['properties']
+  /** メッセージのロケール（省略した場合は setMessageLocale で設定したロケール） */
+  locale?: MessageLocale
+}
+
+/**
+ * レコードのデコードで見つかった問題（フィールドごとに1件）
+ * サブテーブル内のフィールドの場合は subtableCode と rowIndex（0始まり）を持つ
+ * レコード自体が不正な場合等、フィールドの外の問題は fieldCode を持たず、path はその位置になる
+ */
+export interface RecordParseIssue {
+  fieldCode?: string
+  subtableCode?: string
+  rowIndex?: number
+  path: FieldPath
+  message: string
+}
+
+/**
+ * UI向けに要約したデコードの問題（不一致の箇所ごとに1件）
+ * path は "items[2].unit_price.value" 形式、message はフィールドの表記を含まない
+ */
+export interface RecordParseIssueSummary {
+  path: string
+  fieldCode?: string
+  subtableCode?: string
+  rowIndex?: number
+  fieldType?: string
+  message: string
+}
+
+// フィールドの位置（サブテーブル内のフィールドは subtableCode と rowIndex を持つ）
+interface FieldPosition {
+  fieldCode: string
+  subtableCode?: string
+  rowIndex?: number
+}
+
+// 不一致の箇所
+interface DecodeIssue extends Partial<FieldPosition> {
+  // 問題のあるフィールドのパス（サブテーブル内のフィールドは [..., サブテーブルのフィールドコード, 行番号, フィールドコード]）
+  // フィールドの外の問題は不一致の箇所と同じ
+  field: FieldPath
+  // 不一致の箇所（サブテーブルの行・セルの value は省略する）
+  path: FieldPath
+  fieldType?: string
+  detail: string
+}
+
+// ParseErrorの木で見つかった問題（フィールドの問題の場合は、フィールドを含むレコードのパスと入力を持つ）
+interface IssueLocation {
+  path: FieldPath
+  record?: { path: FieldPath; actual: unknown }
+  issue: ParseResult.ParseIssue
+}
+
+type FormatterIssue = ParseResult.ArrayFormatterIssue
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const toArray = <A>(value: A | ReadonlyArray<A>): ReadonlyArray<A> => {
+  return (Array.isArray(value) ? value : [value]) as ReadonlyArray<A>
+}
+
+const toFieldPath = (path: ReadonlyArray<PropertyKey>): FieldPath => {
+  return path.map((segment) => (typeof segment === 'number' ? segment : String(segment)))
+}
+
+// パスの位置の入力
+const getAt = (value: unknown, path: FieldPath): unknown => {
+  return path.reduce<unknown>(
+    (current, segment) => (typeof current === 'object' && current !== null ? (current as Record<string | number, unknown>)[segment] : undefined),
+    value
+  )
+}
+
+// フォームのフィールド名（SPACER等のラベルを持たない要素は undefined）
+const getLabel = (properties: object | undefined): string | undefined => {
+  return properties && 'label' in properties && typeof properties.label === 'string' ? properties.label : undefined
+}
+
+const isLiteralAst = (ast: SchemaAST.AST): boolean => {
+  return ast._tag === 'Literal' || (ast._tag === 'Union' && ast.types.every(isLiteralAst))
+}
+
+// フィールド（type がリテラルの { type, value }）のスキーマかどうか
+const isFieldAst = (ast: SchemaAST.AST): boolean => {
+  switch (ast._tag) {
+    case 'TypeLiteral': {
+      const type = ast.propertySignatures.find((signature) => signature.name === 'type')
+      return type !== undefined && isLiteralAst(type.type) && ast.propertySignatures.some((signature) => signature.name === 'value')
+    }
+    case 'Union':
+      return ast.types.every(isFieldAst)
+    case 'Refinement':
+      return isFieldAst(ast.from)
+    case 'Transformation':
+      return isFieldAst(ast.to)
+    default:
+      return false
+  }
+}
+
+// レコード（フィールドコードをキーとするフィールドのオブジェクト）のスキーマかどうか
+const isRecordAst = (ast: SchemaAST.AST): boolean => {
+  switch (ast._tag) {
+    case 'TypeLiteral':
+      return (
+        ast.indexSignatures.some((signature) => isFieldAst(signature.type)) ||
+        ast.propertySignatures.some((signature) => isFieldAst(signature.type))
+      )
+    case 'Refinement':
+      return isRecordAst(ast.from)
+    case 'Transformation':
+      return isRecordAst(ast.to)
+    default:
+      return false
+  }
+}
+
+// 問題のスキーマのAST（Missing はプロパティのシグネチャを持つ）
+const getIssueAst = (issue: ParseResult.ParseIssue): SchemaAST.AST | undefined => {
+  switch (issue._tag) {
+    case 'Pointer':
+    case 'Unexpected':
+      return undefined
+    case 'Missing':
+      return issue.ast.type
+    default:
+      return issue.ast
+  }
+}
+
+// ParseErrorの木をたどり、フィールドの位置の問題とフィールドの外の問題を集める
+const findIssueLocations = (issue: ParseResult.ParseIssue, path: FieldPath, parent: unknown): IssueLocation[] => {
+  const ast = getIssueAst(issue)
+  if (path.length > 0 && ast !== undefined && isFieldAst(ast)) {
+    return [{ path, record: { path: path.slice(0, -1), actual: parent }, issue }]
+  }
+
+  switch (issue._tag) {
+    case 'Pointer':
+      return findIssueLocations(issue.issue, [...path, ...toFieldPath(toArray(issue.path))], issue.actual)
+    case 'Composite':
+      return toArray(issue.issues).flatMap((inner) => findIssueLocations(inner, path, parent))
+    case 'Refinement':
+    case 'Transformation':
+      return findIssueLocations(issue.issue, path, parent)
+    default:
+      return [{ path, issue }]
+  }
+}
+
+// フォームの設定による制約のメッセージ（checkFieldConstraints）はフィールドの表記を含むため取り除く
+const stripFieldNotation = (message: string, fieldCode: string): string => {
+  const notation = `${formatMessage('field', { fieldCode })}: `
+  return message.startsWith(notation) ? message.slice(notation.length) : message
+}
+
+// サブテーブルの行を検証し、各セルは collectFieldIssues で検証する
+// original は元のParseErrorのサブテーブルの問題（パスはサブテーブルのフィールドから）
+const collectSubtableIssues = (
+  field: FieldPath,
+  rows: unknown,
+  original: ReadonlyArray<FormatterIssue>,
+  locale: MessageLocale | undefined
+): DecodeIssue[] => {
+  const subtableCode = String(field.at(-1))
+  const subtableIssue = (path: FieldPath, detail: string): DecodeIssue => ({
+    field,
+    path,
+    fieldCode: subtableCode,
+    fieldType: 'SUBTABLE',
+    detail,
+  })
+
+  if (!Array.isArray(rows)) {
+    return [subtableIssue([...field, 'value'], formatMessage('invalidFieldValue', { fieldType: 'SUBTABLE', actual: rows }, locale))]
+  }
+
+  return rows.flatMap((row: unknown, rowIndex): DecodeIssue[] => {
+    if (!isObject(row) || !isObject(row['value'])) {
+      return [subtableIssue([...field, rowIndex], formatMessage('invalidRow', { actual: row }, locale))]
+    }
+    const cells = row['value']
+    const rowIssues: DecodeIssue[] = typeof row['id'] === 'string'
+      ? []
+      : [subtableIssue(
+          [...field, rowIndex, 'id'],
+          'id' in row
+            ? formatMessage('invalidRowId', { actual: row['id'] }, locale)
+            : formatMessage('missingProperty', { property: 'id' }, locale)
+        )]
+
+    // 元のParseErrorのセルの問題（value[行番号].value[フィールドコード] 以下）
+    const cellOriginal = new Map<string, FormatterIssue[]>()
+    for (const problem of original) {
+      const [value, index, cellValue, cellCode] = problem.path
+      if (value === 'value' && index === rowIndex && cellValue === 'value' && cellCode !== undefined) {
+        const issues = cellOriginal.get(String(cellCode)) ?? []
+        issues.push({ ...problem, path: problem.path.slice(4) })
+        cellOriginal.set(String(cellCode), issues)
+      }
+    }
+
+    const cellCodes = new Set([...Object.keys(cells), ...cellOriginal.keys()])
+    const cellIssues = [...cellCodes].flatMap((cellCode) =>
+      collectFieldIssues(
+        [...field, rowIndex, cellCode],
+        cells[cellCode],
+        { fieldCode: cellCode, subtableCode, rowIndex },
+        false,
+        cellOriginal.get(cellCode) ?? [],
+        locale
+      )
+    )
+    return [...rowIssues, ...cellIssues]
+  })
+}
+
+// type からフィールドのスキーマを選んでデコードし、その問題を実際のパスで返す
+// type のスキーマに一致する場合は、元のParseErrorの問題（original）を返す
+const collectFieldIssues = (
+  field: FieldPath,
+  value: unknown,
+  position: FieldPosition,
+  allowSubtable: boolean,
+  original: ReadonlyArray<FormatterIssue>,
+  locale: MessageLocale | undefined
+): DecodeIssue[] => {
+  const fieldIssue = (path: FieldPath, detail: string, fieldType?: string): DecodeIssue => ({
+    field,
+    path,
+    ...position,
+    ...(fieldType !== undefined ? { fieldType } : {}),
+    detail,
+  })
+
+  if (value === undefined && original.some((problem) => problem._tag === 'Missing' && problem.path.length === 0)) {
+    return [fieldIssue(field, formatMessage('missingProperty', { property: position.fieldCode }, locale))]
+  }
+  if (!isObject(value)) {
+    return [fieldIssue(field, formatMessage('invalidField', { actual: value }, locale))]
+  }
+
+  const type = value['type']
+  if (allowSubtable && type === 'SUBTABLE') {
+    return collectSubtableIssues(field, value['value'], original, locale)
+  }
+
+  const schema = typeof type === 'string' && type !== 'SUBTABLE' ? getFieldTypeDefinition(type)?.recordSchema : undefined
+  if (typeof type !== 'string' || !schema) {
+    return [fieldIssue([...field, 'type'], formatMessage('invalidFieldType', { actual: type }, locale))]
+  }
+
+  const result = Schema.decodeUnknownEither(schema)(value, { errors: 'all' })
+  if (Either.isRight(result)) {
+    return original.map((problem) =>
+      fieldIssue([...field, ...toFieldPath(problem.path)], stripFieldNotation(problem.message, position.fieldCode), type)
+    )
+  }
+
+  return ParseResult.ArrayFormatter.formatErrorSync(result.left).map((problem) => {
+    const path = toFieldPath(problem.path)
+    const detail = problem._tag === 'Missing'
+      ? formatMessage('missingProperty', { property: String(path.at(-1)) }, locale)
+      : formatMessage('invalidFieldValue', { fieldType: type, actual: getAt(value, path) }, locale)
+    return fieldIssue([...field, ...path], detail, type)
+  })
+}
+
+// フィールドの外の問題（レコードがオブジェクトではない、レスポンスのプロパティが不正等）
+const collectOtherIssues = ({ path, issue }: IssueLocation, locale: MessageLocale | undefined): DecodeIssue[] => {
+  if (issue._tag === 'Type' && isRecordAst(issue.ast)) {
+    return [{ field: path, path, detail: formatMessage('invalidRecord', { actual: issue.actual }, locale) }]
+  }
+  return ParseResult.ArrayFormatter.formatIssueSync(issue).map((problem) => {
+    const problemPath = [...path, ...toFieldPath(problem.path)]
+    return { field: problemPath, path: problemPath, detail: problem.message }
+  })
+}
+
+// ParseErrorのすべての不一致を集める
+// フィールドの問題を含むレコードは、ParseErrorに含まれないフィールドも検証する（{ errors: 'first' } のデコードでもすべてのフィールドの問題を返す）
+const collectRecordIssues = (
+  error: ParseResult.ParseError,
+  locale: MessageLocale | undefined
+): DecodeIssue[] => {
+  const issues: DecodeIssue[] = []
+  const records = new Map<string, { path: FieldPath; actual: unknown; fields: Map<string, IssueLocation> }>()
+
+  for (const location of findIssueLocations(error.issue, [], undefined)) {
+    if (!location.record) {
+      issues.push(...collectOtherIssues(location, locale))
+      continue
+    }
+    const key = JSON.stringify(location.record.path)
+    const record = records.get(key) ?? { ...location.record, fields: new Map<string, IssueLocation>() }
+    record.fields.set(String(location.path.at(-1)), location)
+    records.set(key, record)
+  }
+
+  for (const { path, actual, fields } of records.values()) {
+    const input = isObject(actual) ? actual : {}
+    for (const fieldCode of new Set([...Object.keys(input), ...fields.keys()])) {
+      const location = fields.get(fieldCode)
+      const original = location ? ParseResult.ArrayFormatter.formatIssueSync(location.issue) : []
+      issues.push(...collectFieldIssues([...path, fieldCode], input[fieldCode], { fieldCode }, true, original, locale))
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 不一致の箇所を "items[2].unit_price.value" 形式の文字列にする
+ */
+export const formatFieldPath = (path: FieldPath): string => {
+  return path
+    .map((segment, index) => (typeof segment === 'number' ? `[${String(segment)}]` : index === 0 ? segment : `.${segment}`))
+    .join('')
+}
+
+/**
+ * レコードのデコード（KintoneRecordSchema, GetRecordsResponseSchema, createRecordStructFromForm 等）で発生したParseErrorを、
+ * フィールドごとのメッセージに変換する
+ * 入力されたフィールドの type から選んだスキーマでデコードし直し、Unionの他のメンバーとの不一致は報告しない
+ *
+ * formProperties を指定した場合は、メッセージにフィールド名（label）を含める
+ * 問題のあるレコードはすべてのフィールドを検証するため、{ errors: 'all' } を指定しなくてもそのレコードのすべてのフィールドの問題を返す
+ */
+export const formatRecordParseError = (
+  error: ParseResult.ParseError,
+  options?: ParseErrorFormatOptions
+): RecordParseIssue[] => {
+  const locale = options?.locale
+  const formProperties = options?.formProperties
+  const issues: RecordParseIssue[] = []
+  const reported = new Set<string>()
+
+  for (const issue of collectRecordIssues(error, locale)) {
+    const key = JSON.stringify(issue.field)
+    if (reported.has(key)) {
+      continue
+    }
+    reported.add(key)
+
+    const { fieldCode, subtableCode, rowIndex } = issue
+    if (fieldCode === undefined) {
+      const location = formatFieldPath(issue.path)
+      issues.push({ path: issue.path, message: location === '' ? issue.detail : `${location}: ${issue.detail}` })
+      continue
+    }
+
+    if (subtableCode !== undefined && rowIndex !== undefined) {
+      const properties = formProperties?.[subtableCode]
+      const columns = properties?.type === 'SUBTABLE' ? properties.fields : undefined
+      const subtableField = formatMessage(
+        'subtableField',
+        {
+          subtableCode,
+          subtableLabel: getLabel(properties),
+          rowIndex,
+          fieldCode,
+          label: getLabel(columns?.[fieldCode]),
+        },
+        locale
+      )
+      issues.push({
+        fieldCode,
+        subtableCode,
+        rowIndex,
+        path: issue.field,
+        message: `${subtableField}: ${issue.detail}`,
+      })
+      continue
+    }
+
+    const properties = formProperties?.[fieldCode]
+
+    issues.push({
+      fieldCode,
+      path: issue.field,
+      message: `${formatMessage('field', { fieldCode, label: getLabel(properties) }, locale)}: ${issue.detail}`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * レコードのデコードで発生したParseErrorを、不一致の箇所ごとの要約に変換する（UI向け）
+ * path は "items[2].unit_price.value" や "users.value[0].code" 形式で、fieldType は入力されたフィールドのタイプ
+ */
+export const summarizeRecordParseError = (
+  error: ParseResult.ParseError,
+  options?: Pick<ParseErrorFormatOptions, 'locale'>
+): RecordParseIssueSummary[] => {
+  return collectRecordIssues(error, options?.locale).map((issue) => {
+    return {
+      path: formatFieldPath(issue.path),
+      ...(issue.fieldCode !== undefined ? { fieldCode: issue.fieldCode } : {}),
+      ...(issue.subtableCode !== undefined ? { subtableCode: issue.subtableCode } : {}),
+      ...(issue.rowIndex !== undefined ? { rowIndex: issue.rowIndex } : {}),
+      ...(issue.fieldType !== undefined ? { fieldType: issue.fieldType } : {}),
+      message: issue.detail,
+    }
+  })
+}
+
+/**
+ * レコードのデコードで発生したParseErrorを、不一致の箇所ごとに1行の文字列にする
+ * 例: items[2].unit_price.value: NUMBERフィールドの値として不正です: 2
+ */
+export const formatRecordParseErrorMessage = (
+  error: ParseResult.ParseError,
+  options?: Pick<ParseErrorFormatOptions, 'locale'>
+): string => {
+  return summarizeRecordParseError(error, options)
+    .map((issue) => (issue.path === '' ? issue.message : `${issue.path}: ${issue.message}`))
+    .join('\n')
+}
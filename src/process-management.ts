@@ -0,0 +1,283 @@
+import { Data, Effect } from 'effect'
+import type { GetProcessManagementResponse, ProcessAction, ProcessAssignee } from './schemas/app/status.js'
+import { matchesAppEntity, type AppEntityUser } from './app-entities.js'
+import { evaluateQuery, type QueryEvaluationOptions, type QueryRecord } from './query/evaluator.js'
+import { parseQuery } from './query/parser.js'
+import type { QueryConditionNode } from './query/ast.js'
+import { QueryEvaluationError, QuerySyntaxError } from './query/errors.js'
+import { QueryValidationError } from './query/validator.js'
+import { formatMessage } from './messages.js'
+
+// プロセス管理の状態遷移
+// プロセス管理の設定とレコードから、実行できるアクションと次のステータスを求める
+
+/**
+ * プロセス管理の設定（設定取得APIのレスポンスの enable / states / actions）
+ */
+export type ProcessManagementSettings = Pick<GetProcessManagementResponse, 'enable' | 'states' | 'actions'>
+
+/**
+ * 状態遷移の判定のオプション
+ * filterCond の評価には now・utcOffsetMinutes・primaryOrganization・formProperties を使う（evaluateQuery と同じ）
+ */
+export interface ProcessActionOptions extends Omit<QueryEvaluationOptions, 'loginUser'> {
+  /**
+   * アクションを実行するユーザー
+   * 指定した場合は作業者（STATUS_ASSIGNEE）と実行できるユーザー（executableUser）も判定し、
+   * filterCond の LOGINUSER() はこのユーザーになる
+   */
+  readonly user?: AppEntityUser
+}
+
+/**
+ * 状態遷移（アクションと遷移前後のステータス）
+ * to はアクションの遷移先、next はこのアクションを1回実行した後のステータス
+ * 作業者が全員（ALL）のステータスでは、ほかに作業者が残っている間は next は from のまま（最後の作業者が実行すると to に進む）
+ * レコードの作業者（STATUS_ASSIGNEE）は、まだアクションを実行していない作業者とみなす
+ */
+export interface ProcessTransition {
+  action: string
+  from: string
+  to: string
+  next: string
+  /** from のステータスの作業者の種類（ステータスの設定がない場合は省略） */
+  assigneeType?: ProcessAssignee['type']
+  type?: 'PRIMARY' | 'SECONDARY'
+}
+
+/**
+ * アクションを実行できない理由
+ * - disabled: プロセス管理が無効
+ * - status: レコードのステータスから実行できるアクションではない
+ * - filterCond: レコードがアクションの条件を満たしていない（ユーザーを指定せず、条件が LOGINUSER() を使う場合を含む）
+ * - executableUser: ユーザーがアクションを実行できるユーザーに含まれていない
+ * - assignee: ユーザーが現在の作業者ではない
+ */
+export type ProcessActionNotAllowedReason = 'disabled' | 'status' | 'filterCond' | 'executableUser' | 'assignee'
+
+/**
+ * 設定に存在しないアクション（availableActions はレコードのステータスから実行できるアクション）
+ * message は現在のメッセージのロケールの文言を返す
+ */
+export class UnknownProcessAction extends Data.TaggedError('UnknownProcessAction')<{
+  readonly action: string
+  readonly status: string | undefined
+  readonly availableActions: ReadonlyArray<string>
+}> {
+  override get message(): string {
+    return formatMessage('unknownProcessAction', this)
+  }
+}
+
+/**
+ * 設定に存在するが、レコード・ユーザーの状態では実行できないアクション
+ * message は現在のメッセージのロケールの文言を返す
+ */
+export class ProcessActionNotAllowed extends Data.TaggedError('ProcessActionNotAllowed')<{
+  readonly action: string
+  readonly status: string | undefined
+  readonly reason: ProcessActionNotAllowedReason
+}> {
+  override get message(): string {
+    return formatMessage('processActionNotAllowed', this)
+  }
+}
+
+/**
+ * アクションの検証のエラー
+ * filterCond を評価できない場合（構文エラー、レコードにないフィールド、PRIMARY_ORGANIZATION() に必要なオプションがない等）はクエリのエラー
+ */
+export type ProcessActionError =
+  | UnknownProcessAction
+  | ProcessActionNotAllowed
+  | QuerySyntaxError
+  | QueryValidationError
+  | QueryEvaluationError
+
+// レコードの指定したタイプのフィールドの値
+const getFieldValueByType = (record: QueryRecord, type: string): unknown => {
+  return Object.values(record).find((field) => field.type === type)?.value
+}
+
+/**
+ * レコードのステータス（STATUS フィールドの値）を返す
+ */
+export const getRecordStatus = (record: QueryRecord): string | undefined => {
+  const status = getFieldValueByType(record, 'STATUS')
+  return typeof status === 'string' ? status : undefined
+}
+
+// レコードの作業者（STATUS_ASSIGNEE フィールドの値）のユーザーコード
+const getRecordAssignees = (record: QueryRecord): string[] => {
+  const assignees = getFieldValueByType(record, 'STATUS_ASSIGNEE')
+  return Array.isArray(assignees)
+    ? assignees.flatMap((user: unknown) => {
+        const code = user && typeof user === 'object' ? (user as { code?: unknown }).code : undefined
+        return typeof code === 'string' ? [code] : []
+      })
+    : []
+}
+
+// 条件が LOGINUSER() を使っているか
+const usesLoginUser = (condition: QueryConditionNode): boolean => {
+  return condition._tag === 'QueryLogical'
+    ? condition.operands.some(usesLoginUser)
+    : condition.values.some((value) => value._tag === 'QueryFunction' && value.name === 'LOGINUSER')
+}
+
+// レコードがアクションの filterCond を満たすか
+// ユーザーを指定しない場合、LOGINUSER() を使う条件は判定できないため満たさないものとする
+const matchesFilterCond = (action: ProcessAction, record: QueryRecord, options: ProcessActionOptions): boolean => {
+  const { user, ...evaluationOptions } = options
+  if (action.filterCond.trim() === '') {
+    return true
+  }
+  if (user === undefined) {
+    const { condition } = parseQuery(action.filterCond)
+    if (condition && usesLoginUser(condition)) {
+      return false
+    }
+  }
+  return (
+    evaluateQuery(action.filterCond, [record], {
+      ...evaluationOptions,
+      ...(user !== undefined ? { loginUser: user.code } : {}),
+    }).length > 0
+  )
+}
+
+// アクションの状態遷移
+// 作業者が全員（ALL）の場合、実行するユーザー以外の作業者が残っていれば from のまま（ユーザーを指定しない場合は作業者が2人以上）
+const toTransition = (
+  settings: ProcessManagementSettings,
+  action: ProcessAction,
+  record: QueryRecord,
+  user: AppEntityUser | undefined
+): ProcessTransition => {
+  const assigneeType = settings.states?.[action.from]?.assignee.type
+  const assignees = getRecordAssignees(record)
+  const others = user !== undefined ? assignees.filter((code) => code !== user.code) : assignees.slice(1)
+  return {
+    action: action.name,
+    from: action.from,
+    to: action.to,
+    next: assigneeType === 'ALL' && others.length > 0 ? action.from : action.to,
+    ...(assigneeType !== undefined ? { assigneeType } : {}),
+    ...(action.type !== undefined ? { type: action.type } : {}),
+  }
+}
+
+// アクションをレコード・ユーザーの状態で判定し、実行できない理由を返す（実行できる場合は undefined）
+const checkAction = (
+  action: ProcessAction,
+  record: QueryRecord,
+  options: ProcessActionOptions
+): Exclude<ProcessActionNotAllowedReason, 'disabled' | 'status'> | undefined => {
+  if (!matchesFilterCond(action, record, options)) {
+    return 'filterCond'
+  }
+  const { user } = options
+  if (!user) {
+    return undefined
+  }
+  const executableEntities = action.executableUser?.entities ?? []
+  if (
+    executableEntities.length > 0 &&
+    !executableEntities.some(({ entity, includeSubs }) => matchesAppEntity(entity, user, record, includeSubs))
+  ) {
+    return 'executableUser'
+  }
+  // 作業者がいない場合は、だれでも実行できる
+  const assignees = getRecordAssignees(record)
+  if (assignees.length > 0 && !assignees.includes(user.code)) {
+    return 'assignee'
+  }
+  return undefined
+}
+
+// レコードのステータスから出るアクション
+const getActionsFromStatus = (settings: ProcessManagementSettings, status: string | undefined): ProcessAction[] => {
+  return settings.enable && status !== undefined ? (settings.actions ?? []).filter((action) => action.from === status) : []
+}
+
+/**
+ * レコードのステータスから実行できるアクションと次のステータスを返す
+ * filterCond を満たさないアクションは含めない。options.user を指定した場合は、そのユーザーが実行できるアクションのみを返す
+ * options.user を指定しない場合、filterCond が LOGINUSER() を使うアクションは含めない
+ * filterCond を評価できない場合は QuerySyntaxError, QueryValidationError, QueryEvaluationError をスローする
+ *
+ * @example
+ * ```typescript
+ * getAvailableProcessActions(statusSettings, record, { user: { code: 'sato' } })
+ * // [{ action: '承認する', from: '承認待ち', to: '完了', next: '完了', assigneeType: 'ANY', type: 'PRIMARY' }]
+ * ```
+ */
+export const getAvailableProcessActions = (
+  settings: ProcessManagementSettings,
+  record: QueryRecord,
+  options: ProcessActionOptions = {}
+): ProcessTransition[] => {
+  return getActionsFromStatus(settings, getRecordStatus(record))
+    .filter((action) => checkAction(action, record, options) === undefined)
+    .map((action) => toTransition(settings, action, record, options.user))
+}
+
+/**
+ * アクションをレコードに実行できるかを検証し、状態遷移を返す
+ * 設定にないアクションは UnknownProcessAction、実行できないアクションは ProcessActionNotAllowed をスローする
+ * filterCond を評価できない場合は QuerySyntaxError, QueryValidationError, QueryEvaluationError をスローする
+ */
+export const validateProcessAction = (
+  settings: ProcessManagementSettings,
+  record: QueryRecord,
+  actionName: string,
+  options: ProcessActionOptions = {}
+): ProcessTransition => {
+  const status = getRecordStatus(record)
+  const named = (settings.actions ?? []).filter((action) => action.name === actionName)
+  if (named.length === 0) {
+    const availableActions = getAvailableProcessActions(settings, record, options).map(({ action }) => action)
+    throw new UnknownProcessAction({ action: actionName, status, availableActions })
+  }
+  if (!settings.enable) {
+    throw new ProcessActionNotAllowed({ action: actionName, status, reason: 'disabled' })
+  }
+
+  const candidates = named.filter((action) => action.from === status)
+  // 同じ名前のアクションが複数ある場合は、最初に実行できるものを使う
+  let reason: ProcessActionNotAllowedReason = 'status'
+  for (const action of candidates) {
+    const problem = checkAction(action, record, options)
+    if (problem === undefined) {
+      return toTransition(settings, action, record, options.user)
+    }
+    reason = problem
+  }
+  throw new ProcessActionNotAllowed({ action: actionName, status, reason })
+}
+
+/**
+ * アクションをレコードに実行できるかを検証し、状態遷移を返す（Effect版）
+ */
+export const validateProcessActionEffect = (
+  settings: ProcessManagementSettings,
+  record: QueryRecord,
+  actionName: string,
+  options: ProcessActionOptions = {}
+): Effect.Effect<ProcessTransition, ProcessActionError> => {
+  return Effect.try({
+    try: () => validateProcessAction(settings, record, actionName, options),
+    catch: (error) => {
+      if (
+        error instanceof UnknownProcessAction ||
+        error instanceof ProcessActionNotAllowed ||
+        error instanceof QuerySyntaxError ||
+        error instanceof QueryValidationError ||
+        error instanceof QueryEvaluationError
+      ) {
+        return error
+      }
+      throw error
+    },
+  })
+}
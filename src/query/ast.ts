@@ -0,0 +1,104 @@
+import type { QueryOperator } from './operators.js'
+
+// クエリの構文木
+// 各ノードはクエリの文字列中の位置（span: 0始まりの開始・終了オフセット）を持つ
+
+/**
+ * クエリの文字列中の範囲（end は含まない）
+ */
+export interface QuerySpan {
+  readonly start: number
+  readonly end: number
+}
+
+/**
+ * 文字列の値（"..."、エスケープを解除した値）
+ */
+export interface QueryStringNode {
+  readonly _tag: 'QueryString'
+  readonly value: string
+  readonly span: QuerySpan
+}
+
+/**
+ * 数値の値
+ */
+export interface QueryNumberNode {
+  readonly _tag: 'QueryNumber'
+  readonly value: number
+  /** クエリに書かれた文字列 */
+  readonly raw: string
+  readonly span: QuerySpan
+}
+
+/**
+ * 関数の引数（数値、または DAYS・SUNDAY・LAST 等の識別子）
+ */
+export interface QueryFunctionArgumentNode {
+  readonly value: string | number
+  readonly span: QuerySpan
+}
+
+/**
+ * 関数の呼び出し（TODAY()、FROM_TODAY(-7, DAYS) 等）
+ */
+export interface QueryFunctionNode {
+  readonly _tag: 'QueryFunction'
+  readonly name: string
+  readonly args: ReadonlyArray<QueryFunctionArgumentNode>
+  readonly span: QuerySpan
+}
+
+export type QueryValueNode = QueryStringNode | QueryNumberNode | QueryFunctionNode
+
+/**
+ * フィールドコードの参照
+ */
+export interface QueryFieldNode {
+  readonly code: string
+  readonly span: QuerySpan
+}
+
+/**
+ * 比較（price >= 100、status in ("A", "B")、memo is empty 等）
+ * values は is empty では空、in / not in ではリストの値、その他の演算子では1つの値
+ */
+export interface QueryComparisonNode {
+  readonly _tag: 'QueryComparison'
+  readonly field: QueryFieldNode
+  readonly operator: QueryOperator
+  readonly operatorSpan: QuerySpan
+  readonly values: ReadonlyArray<QueryValueNode>
+  readonly span: QuerySpan
+}
+
+/**
+ * and / or で結合した条件
+ */
+export interface QueryLogicalNode {
+  readonly _tag: 'QueryLogical'
+  readonly connective: 'and' | 'or'
+  readonly operands: ReadonlyArray<QueryConditionNode>
+  readonly span: QuerySpan
+}
+
+export type QueryConditionNode = QueryComparisonNode | QueryLogicalNode
+
+/**
+ * order by の並び順
+ */
+export interface QueryOrderByNode {
+  readonly field: QueryFieldNode
+  readonly direction: 'asc' | 'desc'
+  readonly span: QuerySpan
+}
+
+/**
+ * クエリ全体
+ */
+export interface QueryAst {
+  readonly condition?: QueryConditionNode
+  readonly orderBy: ReadonlyArray<QueryOrderByNode>
+  readonly limit?: QueryNumberNode
+  readonly offset?: QueryNumberNode
+}
@@ -0,0 +1,396 @@
+import { SchemaAST, type Schema } from 'effect'
+import { QueryBuildError } from './errors.js'
+import {
+  getQueryOperators,
+  isNumericQueryFieldType,
+  isSortableQueryFieldType,
+  type NumericQueryFieldType,
+  type QueryEmptyOperator,
+  type QueryListOperator,
+  type QueryOperator,
+  type QueryOperatorFor,
+  type SubtableQueryOperatorFor,
+  type UnsortableQueryFieldType,
+} from './operators.js'
+import {
+  formatQueryFunctionCall,
+  getQueryFunctions,
+  isQueryFunctionCall,
+  type QueryFunctionCall,
+  type QueryFunctionFor,
+} from './functions.js'
+
+// kintoneのクエリ（レコード一覧取得APIの query）のビルダー
+// フォームから作ったレコードのスキーマ（createRecordStructFromForm）のフィールドタイプをもとに、
+// フィールドごとに使える演算子・値・関数だけを受け付ける
+
+// フィールドのタイプ（{ type: 'NUMBER', value } の 'NUMBER'）
+type FieldTypeOf<F> = F extends { readonly type: infer T extends string } ? T : never
+
+// サブテーブルの行（フィールドコードごとのフィールド）
+type SubtableRowOf<F> = F extends {
+  readonly type: 'SUBTABLE'
+  readonly value: ReadonlyArray<{ readonly value: infer Row }>
+}
+  ? Row
+  : never
+
+type SubtableRowsOf<R> = { [K in keyof R]: SubtableRowOf<R[K]> }[keyof R]
+
+// クエリで使えるフィールドのコード（サブテーブル以外）
+type TopLevelQueryFieldCode<R> = {
+  [K in keyof R & string]: [QueryOperatorFor<FieldTypeOf<R[K]>>] extends [never] ? never : K
+}[keyof R & string]
+
+// クエリで使えるサブテーブル内のフィールドのコード
+type SubtableQueryFieldCode<R> = SubtableRowsOf<R> extends infer Row
+  ? Row extends unknown
+    ? { [C in keyof Row & string]: [QueryOperatorFor<FieldTypeOf<Row[C]>>] extends [never] ? never : C }[keyof Row & string]
+    : never
+  : never
+
+// サブテーブル内のフィールド
+type SubtableFieldOf<R, C> = SubtableRowsOf<R> extends infer Row
+  ? Row extends { readonly [P in C & string]: infer F }
+    ? F
+    : never
+  : never
+
+/**
+ * クエリで使えるフィールドのコード（サブテーブル内のフィールドを含む）
+ */
+export type QueryFieldCode<R> = TopLevelQueryFieldCode<R> | SubtableQueryFieldCode<R>
+
+/**
+ * フィールドコードのフィールド
+ */
+export type QueryFieldOf<R, K> = K extends TopLevelQueryFieldCode<R> ? R[K] : SubtableFieldOf<R, K>
+
+/**
+ * フィールドで使える演算子（サブテーブル内のフィールドは = と != の代わりに in と not in を使う）
+ */
+export type QueryOperatorOf<R, K> = K extends TopLevelQueryFieldCode<R>
+  ? QueryOperatorFor<FieldTypeOf<R[K]>>
+  : SubtableQueryOperatorFor<FieldTypeOf<SubtableFieldOf<R, K>>>
+
+// 選択肢のフィールドの値（ラベル）
+type OptionLabelOf<F> = F extends { readonly value: infer V }
+  ? Extract<V extends ReadonlyArray<infer E> ? E : V, string>
+  : never
+
+// 関数の呼び出し（使える関数がないフィールドは never）
+type QueryFunctionCallOf<T> = [QueryFunctionFor<T>] extends [never] ? never : QueryFunctionCall<QueryFunctionFor<T>>
+
+/**
+ * フィールドの条件の値（選択肢のフィールドはラベル、数値のフィールドは数値も指定できる）
+ */
+export type QueryValueOf<F> =
+  | (FieldTypeOf<F> extends 'RADIO_BUTTON' | 'DROP_DOWN' | 'CHECK_BOX' | 'MULTI_SELECT'
+      ? OptionLabelOf<F> | ''
+      : FieldTypeOf<F> extends NumericQueryFieldType
+        ? string | number
+        : string)
+  | QueryFunctionCallOf<FieldTypeOf<F>>
+
+/**
+ * 演算子の後の引数（is empty は値なし、in は値のリスト）
+ */
+export type QueryValueArgs<R, K, Op> = Op extends QueryEmptyOperator
+  ? []
+  : Op extends QueryListOperator
+    ? [values: ReadonlyArray<QueryValueOf<QueryFieldOf<R, K>>>]
+    : [value: QueryValueOf<QueryFieldOf<R, K>>]
+
+/**
+ * order by で使えるフィールドのコード（サブテーブル内のフィールドは使えない）
+ */
+export type QuerySortableFieldCode<R> = {
+  [K in TopLevelQueryFieldCode<R>]: FieldTypeOf<R[K]> extends UnsortableQueryFieldType ? never : K
+}[TopLevelQueryFieldCode<R>]
+
+/**
+ * 並び順
+ */
+export type QuerySortDirection = 'asc' | 'desc'
+
+/**
+ * クエリの条件（and / or で組み合わせられる）
+ */
+export interface QueryCondition {
+  readonly _tag: 'QueryCondition'
+  readonly expression: string
+  /** and / or で組み合わせた条件の場合の論理演算子 */
+  readonly connective?: 'and' | 'or'
+}
+
+/**
+ * クエリのビルダー（各メソッドは新しいビルダーを返す）
+ */
+export interface QueryBuilder<R> {
+  /** 条件を追加する（複数の条件は and で結合する） */
+  where<K extends QueryFieldCode<R>, Op extends QueryOperatorOf<R, K>>(
+    field: K,
+    operator: Op,
+    ...value: QueryValueArgs<R, K, Op>
+  ): QueryBuilder<R>
+  where(condition: QueryCondition): QueryBuilder<R>
+  /** and / or で組み合わせる条件を作る */
+  condition<K extends QueryFieldCode<R>, Op extends QueryOperatorOf<R, K>>(
+    field: K,
+    operator: Op,
+    ...value: QueryValueArgs<R, K, Op>
+  ): QueryCondition
+  and(...conditions: readonly [QueryCondition, ...QueryCondition[]]): QueryCondition
+  or(...conditions: readonly [QueryCondition, ...QueryCondition[]]): QueryCondition
+  /** 並び順を追加する（デフォルトは asc） */
+  orderBy(field: QuerySortableFieldCode<R>, direction?: QuerySortDirection): QueryBuilder<R>
+  /** 取得するレコード数（1〜500） */
+  limit(limit: number): QueryBuilder<R>
+  /** 読み飛ばすレコード数（0〜10000） */
+  offset(offset: number): QueryBuilder<R>
+  /** クエリの文字列を返す */
+  build(): string
+}
+
+/**
+ * クエリで参照するフィールド（サブテーブル内のフィールドは subtableCode を持つ）
+ */
+export interface QueryField {
+  readonly type: string
+  readonly subtableCode?: string
+}
+
+/** limit の最大値 */
+export const QUERY_MAX_LIMIT = 500
+/** offset の最大値 */
+export const QUERY_MAX_OFFSET = 10000
+
+// Refinement（strict モードの制約）等を外したスキーマ
+const unwrap = (ast: SchemaAST.AST): SchemaAST.AST => {
+  switch (ast._tag) {
+    case 'Refinement':
+      return unwrap(ast.from)
+    case 'Transformation':
+      return unwrap(ast.to)
+    case 'Suspend':
+      return unwrap(ast.f())
+    default:
+      return ast
+  }
+}
+
+const getPropertyType = (ast: SchemaAST.AST, name: string): SchemaAST.AST | undefined => {
+  const struct = unwrap(ast)
+  return SchemaAST.isTypeLiteral(struct)
+    ? struct.propertySignatures.find((property) => property.name === name)?.type
+    : undefined
+}
+
+// フィールドのスキーマの type のリテラル
+const getFieldType = (ast: SchemaAST.AST): string | undefined => {
+  const type = getPropertyType(ast, 'type')
+  const literal = type && unwrap(type)
+  return literal && SchemaAST.isLiteral(literal) && typeof literal.literal === 'string' ? literal.literal : undefined
+}
+
+// サブテーブルの行の value（フィールドコードごとのスキーマ）
+const getSubtableColumns = (ast: SchemaAST.AST): ReadonlyArray<SchemaAST.PropertySignature> => {
+  const rows = getPropertyType(ast, 'value')
+  const array = rows && unwrap(rows)
+  const row = array && SchemaAST.isTupleType(array) ? array.rest[0]?.type : undefined
+  const columns = row && getPropertyType(row, 'value')
+  const struct = columns && unwrap(columns)
+  return struct && SchemaAST.isTypeLiteral(struct) ? struct.propertySignatures : []
+}
+
+/**
+ * レコードのスキーマからクエリで参照できるフィールドを集める
+ */
+export const collectQueryFields = (schema: Schema.Schema.AnyNoContext): ReadonlyMap<string, QueryField> => {
+  const fields = new Map<string, QueryField>()
+  const struct = unwrap(schema.ast)
+  if (!SchemaAST.isTypeLiteral(struct)) {
+    return fields
+  }
+
+  for (const property of struct.propertySignatures) {
+    const type = getFieldType(property.type)
+    if (typeof property.name !== 'string' || type === undefined) {
+      continue
+    }
+    if (type !== 'SUBTABLE') {
+      fields.set(property.name, { type })
+      continue
+    }
+    for (const column of getSubtableColumns(property.type)) {
+      const columnType = getFieldType(column.type)
+      if (typeof column.name === 'string' && columnType !== undefined) {
+        fields.set(column.name, { type: columnType, subtableCode: property.name })
+      }
+    }
+  }
+
+  return fields
+}
+
+/**
+ * 文字列をクエリの文字列リテラルにする（" と \ をエスケープする）
+ */
+export const quoteQueryString = (value: string): string => {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+const formatValue = (fieldCode: string, field: QueryField, value: unknown): string => {
+  if (isQueryFunctionCall(value)) {
+    if (!getQueryFunctions(field.type).includes(value.name)) {
+      throw new QueryBuildError({
+        message: `${value.name}() cannot be used for ${field.type} field "${fieldCode}"`,
+        fieldCode,
+      })
+    }
+    return formatQueryFunctionCall(value)
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new QueryBuildError({ message: `Invalid number for field "${fieldCode}": ${String(value)}`, fieldCode })
+    }
+    return isNumericQueryFieldType(field.type) ? String(value) : quoteQueryString(String(value))
+  }
+  if (typeof value === 'string') {
+    return quoteQueryString(value)
+  }
+  throw new QueryBuildError({ message: `Invalid value for field "${fieldCode}": ${String(value)}`, fieldCode })
+}
+
+const formatCondition = (
+  fields: ReadonlyMap<string, QueryField>,
+  fieldCode: string,
+  operator: QueryOperator,
+  value: unknown
+): QueryCondition => {
+  const field = fields.get(fieldCode)
+  if (!field) {
+    throw new QueryBuildError({ message: `Unknown field code: ${fieldCode}`, fieldCode })
+  }
+  if (!getQueryOperators(field.type, field.subtableCode !== undefined).includes(operator)) {
+    throw new QueryBuildError({
+      message: field.subtableCode !== undefined && (operator === '=' || operator === '!=')
+        ? `Use "in" / "not in" instead of "${operator}" for subtable field "${fieldCode}"`
+        : `Operator "${operator}" cannot be used for ${field.type} field "${fieldCode}"`,
+      fieldCode,
+    })
+  }
+
+  if (operator === 'is empty' || operator === 'is not empty') {
+    return { _tag: 'QueryCondition', expression: `${fieldCode} ${operator}` }
+  }
+  if (operator === 'in' || operator === 'not in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new QueryBuildError({ message: `"${operator}" requires a non-empty list for field "${fieldCode}"`, fieldCode })
+    }
+    const values = value.map((item: unknown) => formatValue(fieldCode, field, item))
+    return { _tag: 'QueryCondition', expression: `${fieldCode} ${operator} (${values.join(', ')})` }
+  }
+  return { _tag: 'QueryCondition', expression: `${fieldCode} ${operator} ${formatValue(fieldCode, field, value)}` }
+}
+
+// and / or で組み合わせる（異なる論理演算子で組み合わせた条件は括弧で囲む）
+const combine = (connective: 'and' | 'or', conditions: ReadonlyArray<QueryCondition>): QueryCondition => {
+  const [first] = conditions
+  if (conditions.length === 1 && first) {
+    return first
+  }
+  const expressions = conditions.map((condition) =>
+    condition.connective !== undefined && condition.connective !== connective
+      ? `(${condition.expression})`
+      : condition.expression
+  )
+  return { _tag: 'QueryCondition', expression: expressions.join(` ${connective} `), connective }
+}
+
+const checkRange = (name: 'limit' | 'offset', value: number, min: number, max: number): number => {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new QueryBuildError({ message: `${name} must be an integer between ${String(min)} and ${String(max)}: ${String(value)}` })
+  }
+  return value
+}
+
+interface QueryState {
+  readonly conditions: ReadonlyArray<QueryCondition>
+  readonly orderBy: ReadonlyArray<string>
+  readonly limit?: number
+  readonly offset?: number
+}
+
+const isQueryCondition = (value: unknown): value is QueryCondition => {
+  return typeof value === 'object' && value !== null && (value as { _tag?: unknown })._tag === 'QueryCondition'
+}
+
+const makeQueryBuilder = <R>(fields: ReadonlyMap<string, QueryField>, state: QueryState): QueryBuilder<R> => {
+  const next = (patch: Partial<QueryState>): QueryBuilder<R> => makeQueryBuilder(fields, { ...state, ...patch })
+
+  const condition = (field: string, operator: QueryOperator, ...value: unknown[]): QueryCondition =>
+    formatCondition(fields, field, operator, value[0])
+
+  return {
+    where: (field: string | QueryCondition, operator?: QueryOperator, ...value: unknown[]) => {
+      if (isQueryCondition(field)) {
+        return next({ conditions: [...state.conditions, field] })
+      }
+      if (operator === undefined) {
+        throw new QueryBuildError({ message: `Operator is required for field "${field}"`, fieldCode: field })
+      }
+      return next({ conditions: [...state.conditions, condition(field, operator, ...value)] })
+    },
+    condition,
+    and: (...conditions) => combine('and', conditions),
+    or: (...conditions) => combine('or', conditions),
+    orderBy: (field: string, direction: QuerySortDirection = 'asc') => {
+      const sortField = fields.get(field)
+      if (!sortField || sortField.subtableCode !== undefined || !isSortableQueryFieldType(sortField.type)) {
+        throw new QueryBuildError({ message: `Field "${field}" cannot be used in order by`, fieldCode: field })
+      }
+      return next({ orderBy: [...state.orderBy, `${field} ${direction}`] })
+    },
+    limit: (limit) => next({ limit: checkRange('limit', limit, 1, QUERY_MAX_LIMIT) }),
+    offset: (offset) => next({ offset: checkRange('offset', offset, 0, QUERY_MAX_OFFSET) }),
+    build: () => {
+      const parts: string[] = []
+      if (state.conditions.length > 0) {
+        parts.push(combine('and', state.conditions).expression)
+      }
+      if (state.orderBy.length > 0) {
+        parts.push(`order by ${state.orderBy.join(', ')}`)
+      }
+      if (state.limit !== undefined) {
+        parts.push(`limit ${String(state.limit)}`)
+      }
+      if (state.offset !== undefined) {
+        parts.push(`offset ${String(state.offset)}`)
+      }
+      return parts.join(' ')
+    },
+  } as QueryBuilder<R>
+}
+
+/**
+ * レコードのスキーマ（createRecordStructFromForm の戻り値）からクエリのビルダーを作る
+ * フィールドタイプごとに使える演算子・値・関数だけを型で受け付け、値はエスケープして出力する
+ *
+ * @example
+ * ```typescript
+ * const OrderRecord = createRecordStructFromForm(appForm.properties)
+ * const query = createQueryBuilder(OrderRecord)
+ *   .where('顧客名', 'like', '株式会社')
+ *   .where('納期', '>=', QueryFunctions.FROM_TODAY(-7, 'DAYS'))
+ *   .orderBy('納期', 'desc')
+ *   .limit(100)
+ *   .build()
+ * // 顧客名 like "株式会社" and 納期 >= FROM_TODAY(-7, DAYS) order by 納期 desc limit 100
+ * ```
+ */
+export const createQueryBuilder = <S extends Schema.Schema.AnyNoContext>(
+  schema: S
+): QueryBuilder<Schema.Schema.Type<S>> => {
+  return makeQueryBuilder(collectQueryFields(schema), { conditions: [], orderBy: [] })
+}
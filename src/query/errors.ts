@@ -0,0 +1,32 @@
+import { Data } from 'effect'
+
+// クエリのエラー
+
+/**
+ * クエリを組み立てられない（フィールドに使えない演算子、範囲外の limit 等）
+ * 型で防げない実行時の入力（スキーマにないフィールドコード等）で発生する
+ */
+export class QueryBuildError extends Data.TaggedError('QueryBuildError')<{
+  readonly message: string
+  readonly fieldCode?: string
+}> {}
+
+/**
+ * クエリの構文エラー
+ * start / end はクエリの文字列中のオフセット（0始まり）、line / column はエラーの開始位置（1始まり）
+ */
+export class QuerySyntaxError extends Data.TaggedError('QuerySyntaxError')<{
+  readonly message: string
+  readonly start: number
+  readonly end: number
+  readonly line: number
+  readonly column: number
+}> {}
+
+/**
+ * クエリを評価できない（LOGINUSER() の評価に必要な loginUser が指定されていない等）
+ */
+export class QueryEvaluationError extends Data.TaggedError('QueryEvaluationError')<{
+  readonly message: string
+  readonly fieldCode?: string
+}> {}
@@ -0,0 +1,522 @@
+import { Effect } from 'effect'
+import type { GetFormFieldsResponse } from '../schemas/form/fields.js'
+import type { QueryAst, QueryComparisonNode, QueryConditionNode, QueryFunctionNode, QueryValueNode } from './ast.js'
+import type { QueryField } from './builder.js'
+import { QueryEvaluationError, QuerySyntaxError } from './errors.js'
+import type { QueryDayOfWeek } from './functions.js'
+import { isNumericQueryFieldType } from './operators.js'
+import { parseQuery } from './parser.js'
+import { collectFormQueryFields, collectQueryAstIssues, QueryValidationError, RECORD_ID_FIELD } from './validator.js'
+
+// kintoneのクエリをメモリ上のレコード（KintoneRecordData）に対して評価する
+// kintoneを使わずにレコードを絞り込む処理をテストするためのもので、kintoneの挙動に合わせている:
+// - in / not in は値のいずれか（チェックボックス・ユーザー選択等は選択されたもののいずれか）が一致するか
+// - like は部分一致、= "" / in ("") は空の値に一致する
+// - 日付の関数は now（時計）と utcOffsetMinutes（タイムゾーン）で評価する
+// - サブテーブル内のフィールドの条件は、いずれかの行が条件を満たす場合に一致する（行がない場合は一致しない）
+// - order by がない場合は $id の降順、limit がない場合は 100 件
+
+/**
+ * クエリを評価するレコードのフィールド
+ */
+export interface QueryRecordField {
+  readonly type: string
+  readonly value: unknown
+}
+
+/**
+ * クエリを評価するレコード（フィールドコードごとのフィールド）
+ */
+export type QueryRecord = Readonly<Record<string, QueryRecordField>>
+
+/**
+ * クエリの評価のオプション
+ */
+export interface QueryEvaluationOptions {
+  /**
+   * 現在日時（TODAY()、NOW() 等の基準）
+   * デフォルトは () => new Date()
+   */
+  readonly now?: () => Date
+  /**
+   * 日付の境界を決めるタイムゾーン（UTCからの分、日本時間は 540）
+   * デフォルトは実行環境のタイムゾーン
+   */
+  readonly utcOffsetMinutes?: number
+  /** LOGINUSER() のユーザーコード */
+  readonly loginUser?: string
+  /** PRIMARY_ORGANIZATION() の組織コード */
+  readonly primaryOrganization?: string
+  /**
+   * フォームの設定（フォームのフィールド一覧取得APIの properties）
+   * 指定した場合はフィールドタイプをフォームから取得し、指定しない場合はレコードから集める
+   */
+  readonly formProperties?: GetFormFieldsResponse['properties']
+}
+
+/** limit を指定しない場合の件数 */
+export const QUERY_DEFAULT_LIMIT = 100
+
+const DAY = 24 * 60 * 60 * 1000
+const MINUTE = 60 * 1000
+
+const DAYS_OF_WEEK: ReadonlyArray<QueryDayOfWeek> = [
+  'SUNDAY',
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+]
+
+// 比較する値の単位（日付は日、日時はミリ秒、時刻は分）
+type Scale = 'number' | 'day' | 'instant' | 'minute' | 'text'
+
+const getScale = (type: string): Scale => {
+  if (isNumericQueryFieldType(type)) {
+    return 'number'
+  }
+  switch (type) {
+    case 'DATE':
+      return 'day'
+    case 'DATETIME':
+    case 'CREATED_TIME':
+    case 'UPDATED_TIME':
+      return 'instant'
+    case 'TIME':
+      return 'minute'
+    default:
+      return 'text'
+  }
+}
+
+// 条件の値
+// range は両端を含む範囲（日付の関数・日付の文字列は日の範囲、数値は lo = hi）
+type Operand =
+  | { readonly kind: 'empty' }
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'range'; readonly lo: number; readonly hi: number }
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^(\d{2}):(\d{2})(?::\d{2})?$/
+
+const toDay = (year: number, monthIndex: number, day: number): number => Date.UTC(year, monthIndex, day) / DAY
+
+const parseDay = (text: string): number => {
+  const match = DATE_PATTERN.exec(text)
+  return match ? toDay(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN
+}
+
+const parseMinute = (text: string): number => {
+  const match = TIME_PATTERN.exec(text)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN
+}
+
+// レコード番号（アプリコード付きの "APP-12" を含む）等の数値
+const parseNumber = (text: string): number => {
+  const value = Number(text)
+  return Number.isNaN(value) ? Number(/-?\d+(\.\d+)?$/.exec(text)?.[0] ?? NaN) : value
+}
+
+// フィールドの値を比較できる値にする
+const toComparable = (scale: Scale, text: string): number | string => {
+  switch (scale) {
+    case 'number':
+      return parseNumber(text)
+    case 'day':
+      return parseDay(text)
+    case 'instant':
+      return Date.parse(text)
+    case 'minute':
+      return parseMinute(text)
+    case 'text':
+      return text
+  }
+}
+
+// フィールドの値を文字列のリストにする（ユーザー・組織・グループはコード、添付ファイルはファイル名）
+const toAtoms = (value: unknown): string[] => {
+  if (value === null || value === undefined || value === '') {
+    return []
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(toAtoms)
+  }
+  if (typeof value === 'object') {
+    const { code, name } = value as { code?: unknown; name?: unknown }
+    return typeof code === 'string' ? [code] : typeof name === 'string' ? [name] : []
+  }
+  return typeof value === 'string' || typeof value === 'number' ? [String(value)] : []
+}
+
+interface EvaluationContext {
+  readonly today: number
+  readonly now: number
+  readonly offset: number
+  readonly options: QueryEvaluationOptions
+}
+
+// 日付の関数を日の範囲にする
+const resolveDateFunction = (fn: QueryFunctionNode, today: number): readonly [number, number] => {
+  const date = new Date(today * DAY)
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  const [arg, unit] = fn.args.map((node) => node.value)
+  // 月末を超える日付は月末にする
+  const clampedDay = (y: number, m: number, d: number): number => Math.min(toDay(y, m, d), toDay(y, m + 1, 1) - 1)
+
+  const week = (shift: number): readonly [number, number] => {
+    const sunday = today - ((((today + 4) % 7) + 7) % 7) + shift * 7
+    const index = typeof arg === 'string' ? DAYS_OF_WEEK.indexOf(arg as QueryDayOfWeek) : -1
+    return index >= 0 ? [sunday + index, sunday + index] : [sunday, sunday + 6]
+  }
+  const monthRange = (shift: number): readonly [number, number] => {
+    const first = toDay(year, month + shift, 1)
+    const last = toDay(year, month + shift + 1, 1) - 1
+    if (arg === undefined) {
+      return [first, last]
+    }
+    const day = arg === 'LAST' ? last : Math.min(first + Number(arg) - 1, last)
+    return [day, day]
+  }
+  const yearRange = (shift: number): readonly [number, number] => [
+    toDay(year + shift, 0, 1),
+    toDay(year + shift + 1, 0, 1) - 1,
+  ]
+  const fromToday = (): number => {
+    const amount = typeof arg === 'number' ? arg : 0
+    switch (unit) {
+      case 'WEEKS':
+        return today + amount * 7
+      case 'MONTHS':
+        return clampedDay(year, month + amount, date.getUTCDate())
+      case 'YEARS':
+        return clampedDay(year + amount, month, date.getUTCDate())
+      default:
+        return today + amount
+    }
+  }
+
+  switch (fn.name) {
+    case 'YESTERDAY':
+      return [today - 1, today - 1]
+    case 'TOMORROW':
+      return [today + 1, today + 1]
+    case 'FROM_TODAY': {
+      const day = fromToday()
+      return [day, day]
+    }
+    case 'THIS_WEEK':
+      return week(0)
+    case 'LAST_WEEK':
+      return week(-1)
+    case 'NEXT_WEEK':
+      return week(1)
+    case 'THIS_MONTH':
+      return monthRange(0)
+    case 'LAST_MONTH':
+      return monthRange(-1)
+    case 'NEXT_MONTH':
+      return monthRange(1)
+    case 'THIS_YEAR':
+      return yearRange(0)
+    case 'LAST_YEAR':
+      return yearRange(-1)
+    case 'NEXT_YEAR':
+      return yearRange(1)
+    default:
+      return [today, today]
+  }
+}
+
+// 日の範囲をフィールドの単位の範囲にする
+const dayRangeToOperand = (scale: Scale, [lo, hi]: readonly [number, number], offset: number): Operand =>
+  scale === 'instant'
+    ? { kind: 'range', lo: lo * DAY - offset, hi: (hi + 1) * DAY - offset - 1 }
+    : { kind: 'range', lo, hi }
+
+const resolveFunction = (fn: QueryFunctionNode, fieldCode: string, scale: Scale, context: EvaluationContext): Operand => {
+  const requireOption = (option: 'loginUser' | 'primaryOrganization'): Operand => {
+    const text = context.options[option]
+    if (text === undefined) {
+      throw new QueryEvaluationError({ message: `${fn.name}() requires the ${option} option`, fieldCode })
+    }
+    return { kind: 'text', text }
+  }
+
+  switch (fn.name) {
+    case 'LOGINUSER':
+      return requireOption('loginUser')
+    case 'PRIMARY_ORGANIZATION':
+      return requireOption('primaryOrganization')
+    case 'NOW': {
+      // 日時のフィールドは分の精度のため、現在の分の範囲にする
+      const minute = Math.floor(context.now / MINUTE) * MINUTE
+      return { kind: 'range', lo: minute, hi: minute + MINUTE - 1 }
+    }
+    default:
+      return dayRangeToOperand(scale, resolveDateFunction(fn, context.today), context.offset)
+  }
+}
+
+const resolveOperand = (node: QueryValueNode, fieldCode: string, scale: Scale, context: EvaluationContext): Operand => {
+  if (node._tag === 'QueryFunction') {
+    return resolveFunction(node, fieldCode, scale, context)
+  }
+  const text = node._tag === 'QueryString' ? node.value : node.raw
+  if (text === '') {
+    return { kind: 'empty' }
+  }
+  if (scale === 'text') {
+    return { kind: 'text', text }
+  }
+  // 日時のフィールドに日付を指定した場合はその日の範囲
+  if (scale === 'instant' && DATE_PATTERN.test(text)) {
+    const day = parseDay(text)
+    return dayRangeToOperand(scale, [day, day], context.offset)
+  }
+  const value = toComparable(scale, text) as number
+  return { kind: 'range', lo: value, hi: value }
+}
+
+const equalsOperand = (scale: Scale, atoms: ReadonlyArray<string>, operand: Operand): boolean => {
+  switch (operand.kind) {
+    case 'empty':
+      return atoms.length === 0
+    case 'text':
+      return atoms.includes(operand.text)
+    case 'range':
+      return atoms.some((atom) => {
+        const value = toComparable(scale, atom)
+        return typeof value === 'number' && value >= operand.lo && value <= operand.hi
+      })
+  }
+}
+
+const compareOperand = (
+  scale: Scale,
+  atoms: ReadonlyArray<string>,
+  operator: '>' | '<' | '>=' | '<=',
+  operand: Operand
+): boolean => {
+  if (operand.kind !== 'range') {
+    return false
+  }
+  return atoms.some((atom) => {
+    const value = toComparable(scale, atom)
+    if (typeof value !== 'number') {
+      return false
+    }
+    switch (operator) {
+      case '>':
+        return value > operand.hi
+      case '>=':
+        return value >= operand.lo
+      case '<':
+        return value < operand.lo
+      case '<=':
+        return value <= operand.hi
+    }
+  })
+}
+
+const likeOperand = (atoms: ReadonlyArray<string>, operand: Operand): boolean => {
+  return operand.kind === 'text' ? atoms.some((atom) => atom.includes(operand.text)) : operand.kind === 'empty'
+}
+
+// 1つの値（サブテーブル内のフィールドは1行の値）が条件を満たすか
+const matchesValue = (
+  scale: Scale,
+  value: unknown,
+  operator: QueryComparisonNode['operator'],
+  operands: ReadonlyArray<Operand>
+): boolean => {
+  const atoms = toAtoms(value)
+  const [operand = { kind: 'empty' }] = operands
+  switch (operator) {
+    case '=':
+      return equalsOperand(scale, atoms, operand)
+    case '!=':
+      return !equalsOperand(scale, atoms, operand)
+    case 'in':
+      return operands.some((item) => equalsOperand(scale, atoms, item))
+    case 'not in':
+      return !operands.some((item) => equalsOperand(scale, atoms, item))
+    case 'like':
+      return likeOperand(atoms, operand)
+    case 'not like':
+      return !likeOperand(atoms, operand)
+    case 'is empty':
+      return atoms.length === 0
+    case 'is not empty':
+      return atoms.length > 0
+    default:
+      return compareOperand(scale, atoms, operator, operand)
+  }
+}
+
+// サブテーブルの行（{ id, value: { フィールドコード: { type, value } } }）のセルを取り出す
+const getSubtableRows = (value: unknown): QueryRecord[] => {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.flatMap((row: unknown) => {
+    const cells = row && typeof row === 'object' ? (row as { value?: unknown }).value : undefined
+    return cells && typeof cells === 'object' ? [cells as QueryRecord] : []
+  })
+}
+
+// レコードのフィールド（サブテーブル内のフィールドを含む）をフィールドコードごとにまとめる
+const collectRecordQueryFields = (records: ReadonlyArray<QueryRecord>): Map<string, QueryField> => {
+  const fields = new Map<string, QueryField>([['$id', RECORD_ID_FIELD]])
+  for (const record of records) {
+    for (const [code, field] of Object.entries(record)) {
+      fields.set(code, { type: field.type })
+      if (field.type === 'SUBTABLE') {
+        for (const row of getSubtableRows(field.value)) {
+          for (const [columnCode, cell] of Object.entries(row)) {
+            fields.set(columnCode, { type: cell.type, subtableCode: code })
+          }
+        }
+      }
+    }
+  }
+  return fields
+}
+
+const createConditionMatcher = (
+  condition: QueryConditionNode,
+  fields: ReadonlyMap<string, QueryField>,
+  context: EvaluationContext
+): ((record: QueryRecord) => boolean) => {
+  if (condition._tag === 'QueryLogical') {
+    const matchers = condition.operands.map((operand) => createConditionMatcher(operand, fields, context))
+    return condition.connective === 'and'
+      ? (record) => matchers.every((matches) => matches(record))
+      : (record) => matchers.some((matches) => matches(record))
+  }
+
+  const { code } = condition.field
+  // 検証済みのため、フィールドは必ず存在する
+  const field = fields.get(code) ?? RECORD_ID_FIELD
+  const scale = getScale(field.type)
+  const operands = condition.values.map((node) => resolveOperand(node, code, scale, context))
+  const matches = (value: unknown): boolean => matchesValue(scale, value, condition.operator, operands)
+
+  const { subtableCode } = field
+  if (subtableCode !== undefined) {
+    return (record) => getSubtableRows(record[subtableCode]?.value).some((row) => matches(row[code]?.value))
+  }
+  return (record) => matches(record[code]?.value)
+}
+
+// order by のフィールドの値を比較する（空の値は最小として扱う）
+const compareRecords = (
+  a: QueryRecord,
+  b: QueryRecord,
+  orderBy: ReadonlyArray<{ readonly code: string; readonly scale: Scale; readonly direction: 'asc' | 'desc' }>
+): number => {
+  for (const { code, scale, direction } of orderBy) {
+    const [left] = toAtoms(a[code]?.value)
+    const [right] = toAtoms(b[code]?.value)
+    const l = left === undefined ? undefined : toComparable(scale, left)
+    const r = right === undefined ? undefined : toComparable(scale, right)
+    if (l === r) {
+      continue
+    }
+    const order = l === undefined ? -1 : r === undefined ? 1 : l < r ? -1 : l > r ? 1 : 0
+    if (order !== 0) {
+      return direction === 'asc' ? order : -order
+    }
+  }
+  return 0
+}
+
+const evaluateAst = <R extends QueryRecord>(
+  query: string,
+  ast: QueryAst,
+  records: ReadonlyArray<R>,
+  options: QueryEvaluationOptions
+): R[] => {
+  const fields = options.formProperties
+    ? collectFormQueryFields(options.formProperties)
+    : collectRecordQueryFields(records)
+  const issues = collectQueryAstIssues(query, ast, fields)
+  if (issues.length > 0) {
+    throw new QueryValidationError({ issues })
+  }
+
+  const now = (options.now?.() ?? new Date()).getTime()
+  const offset = (options.utcOffsetMinutes ?? -new Date(now).getTimezoneOffset()) * MINUTE
+  const context: EvaluationContext = { today: Math.floor((now + offset) / DAY), now, offset, options }
+
+  const matches = ast.condition ? createConditionMatcher(ast.condition, fields, context) : () => true
+  const orderBy =
+    ast.orderBy.length > 0
+      ? ast.orderBy.map(({ field, direction }) => ({
+          code: field.code,
+          scale: getScale(fields.get(field.code)?.type ?? ''),
+          direction,
+        }))
+      : [{ code: '$id', scale: 'number' as const, direction: 'desc' as const }]
+  const start = ast.offset?.value ?? 0
+  const limit = ast.limit?.value ?? QUERY_DEFAULT_LIMIT
+
+  return records
+    .filter((record) => matches(record))
+    .sort((a, b) => compareRecords(a, b, orderBy))
+    .slice(start, start + limit)
+}
+
+/**
+ * kintoneのクエリをメモリ上のレコードに対して評価し、条件を満たすレコードを order by・limit・offset に従って返す
+ * クエリはフォームの設定（formProperties）またはレコードから集めたフィールドで検証し、
+ * 構文エラーは QuerySyntaxError、検証の問題は QueryValidationError、
+ * LOGINUSER() 等に必要なオプションがない場合は QueryEvaluationError をスローする
+ * formProperties を指定しない場合、どのレコードにも行がないサブテーブル内のフィールドは未知のフィールドになる
+ *
+ * @example
+ * ```typescript
+ * const records = evaluateQuery('due <= TODAY() and owner in (LOGINUSER()) order by due asc', allRecords, {
+ *   now: () => new Date('2024-04-01T09:00:00+09:00'),
+ *   utcOffsetMinutes: 540,
+ *   loginUser: 'sato',
+ * })
+ * ```
+ */
+export const evaluateQuery = <R extends QueryRecord>(
+  query: string,
+  records: ReadonlyArray<R>,
+  options: QueryEvaluationOptions = {}
+): R[] => {
+  const ast = parseQuery(query)
+  // フォームの設定がなくレコードもない場合は、フィールドを検証できないため評価しない
+  if (records.length === 0 && !options.formProperties) {
+    return []
+  }
+  return evaluateAst(query, ast, records, options)
+}
+
+/**
+ * kintoneのクエリをメモリ上のレコードに対して評価する（Effect版）
+ */
+export const evaluateQueryEffect = <R extends QueryRecord>(
+  query: string,
+  records: ReadonlyArray<R>,
+  options: QueryEvaluationOptions = {}
+): Effect.Effect<R[], QuerySyntaxError | QueryValidationError | QueryEvaluationError> => {
+  return Effect.try({
+    try: () => evaluateQuery(query, records, options),
+    catch: (error) => {
+      if (
+        error instanceof QuerySyntaxError ||
+        error instanceof QueryValidationError ||
+        error instanceof QueryEvaluationError
+      ) {
+        return error
+      }
+      throw error
+    },
+  })
+}
@@ -0,0 +1,218 @@
+import { QueryBuildError } from './errors.js'
+
+// クエリの関数（TODAY(), FROM_TODAY(-7, DAYS), LOGINUSER() 等）
+
+/**
+ * クエリの関数名
+ */
+export type QueryFunctionName =
+  | 'NOW'
+  | 'TODAY'
+  | 'YESTERDAY'
+  | 'TOMORROW'
+  | 'FROM_TODAY'
+  | 'THIS_WEEK'
+  | 'LAST_WEEK'
+  | 'NEXT_WEEK'
+  | 'THIS_MONTH'
+  | 'LAST_MONTH'
+  | 'NEXT_MONTH'
+  | 'THIS_YEAR'
+  | 'LAST_YEAR'
+  | 'NEXT_YEAR'
+  | 'LOGINUSER'
+  | 'PRIMARY_ORGANIZATION'
+
+/**
+ * 曜日（THIS_WEEK 等の引数）
+ */
+export type QueryDayOfWeek = 'SUNDAY' | 'MONDAY' | 'TUESDAY' | 'WEDNESDAY' | 'THURSDAY' | 'FRIDAY' | 'SATURDAY'
+
+/**
+ * 期間の単位（FROM_TODAY の引数）
+ */
+export type QueryDateUnit = 'DAYS' | 'WEEKS' | 'MONTHS' | 'YEARS'
+
+/**
+ * 関数の呼び出し
+ */
+export interface QueryFunctionCall<N extends QueryFunctionName = QueryFunctionName> {
+  readonly _tag: 'QueryFunctionCall'
+  readonly name: N
+  readonly args: ReadonlyArray<string | number>
+}
+
+const DATE_FUNCTIONS = [
+  'TODAY',
+  'YESTERDAY',
+  'TOMORROW',
+  'FROM_TODAY',
+  'THIS_WEEK',
+  'LAST_WEEK',
+  'NEXT_WEEK',
+  'THIS_MONTH',
+  'LAST_MONTH',
+  'NEXT_MONTH',
+  'THIS_YEAR',
+  'LAST_YEAR',
+  'NEXT_YEAR',
+] as const
+
+/**
+ * フィールドタイプごとに使える関数
+ * 日時のフィールドは NOW() も使える
+ */
+export const QUERY_FUNCTIONS_BY_FIELD_TYPE = {
+  DATE: DATE_FUNCTIONS,
+  DATETIME: ['NOW', ...DATE_FUNCTIONS],
+  CREATED_TIME: ['NOW', ...DATE_FUNCTIONS],
+  UPDATED_TIME: ['NOW', ...DATE_FUNCTIONS],
+  USER_SELECT: ['LOGINUSER'],
+  CREATOR: ['LOGINUSER'],
+  MODIFIER: ['LOGINUSER'],
+  STATUS_ASSIGNEE: ['LOGINUSER'],
+  ORGANIZATION_SELECT: ['PRIMARY_ORGANIZATION'],
+} as const satisfies Readonly<Record<string, ReadonlyArray<QueryFunctionName>>>
+
+/**
+ * フィールドタイプで使える関数名
+ */
+export type QueryFunctionFor<T> = T extends keyof typeof QUERY_FUNCTIONS_BY_FIELD_TYPE
+  ? (typeof QUERY_FUNCTIONS_BY_FIELD_TYPE)[T][number]
+  : never
+
+/**
+ * フィールドタイプで使える関数名を返す
+ */
+export const getQueryFunctions = (type: string): ReadonlyArray<QueryFunctionName> => {
+  return Object.hasOwn(QUERY_FUNCTIONS_BY_FIELD_TYPE, type)
+    ? QUERY_FUNCTIONS_BY_FIELD_TYPE[type as keyof typeof QUERY_FUNCTIONS_BY_FIELD_TYPE]
+    : []
+}
+
+const call = <N extends QueryFunctionName>(name: N, ...args: Array<string | number>): QueryFunctionCall<N> => ({
+  _tag: 'QueryFunctionCall',
+  name,
+  args,
+})
+
+const integer = (name: QueryFunctionName, value: number): number => {
+  if (!Number.isInteger(value)) {
+    throw new QueryBuildError({ message: `${name}() requires an integer: ${String(value)}` })
+  }
+  return value
+}
+
+// THIS_MONTH 等の日付の引数（1〜31 または LAST）
+const dayOfMonth = (name: QueryFunctionName, day: number | 'LAST'): number | 'LAST' => {
+  if (day !== 'LAST' && (!Number.isInteger(day) || day < 1 || day > 31)) {
+    throw new QueryBuildError({ message: `${name}() requires a day of month (1-31 or LAST): ${String(day)}` })
+  }
+  return day
+}
+
+const dayOfWeekArgs = (day: QueryDayOfWeek | undefined): string[] => (day === undefined ? [] : [day])
+
+const dayOfMonthArgs = (name: QueryFunctionName, day: number | 'LAST' | undefined): Array<number | string> =>
+  day === undefined ? [] : [dayOfMonth(name, day)]
+
+/**
+ * クエリの関数
+ *
+ * @example
+ * ```typescript
+ * QueryFunctions.FROM_TODAY(-7, 'DAYS') // FROM_TODAY(-7, DAYS)
+ * QueryFunctions.THIS_MONTH('LAST') // THIS_MONTH(LAST)
+ * ```
+ */
+export const QueryFunctions = {
+  NOW: (): QueryFunctionCall<'NOW'> => call('NOW'),
+  TODAY: (): QueryFunctionCall<'TODAY'> => call('TODAY'),
+  YESTERDAY: (): QueryFunctionCall<'YESTERDAY'> => call('YESTERDAY'),
+  TOMORROW: (): QueryFunctionCall<'TOMORROW'> => call('TOMORROW'),
+  FROM_TODAY: (amount: number, unit: QueryDateUnit): QueryFunctionCall<'FROM_TODAY'> =>
+    call('FROM_TODAY', integer('FROM_TODAY', amount), unit),
+  THIS_WEEK: (day?: QueryDayOfWeek): QueryFunctionCall<'THIS_WEEK'> => call('THIS_WEEK', ...dayOfWeekArgs(day)),
+  LAST_WEEK: (day?: QueryDayOfWeek): QueryFunctionCall<'LAST_WEEK'> => call('LAST_WEEK', ...dayOfWeekArgs(day)),
+  NEXT_WEEK: (day?: QueryDayOfWeek): QueryFunctionCall<'NEXT_WEEK'> => call('NEXT_WEEK', ...dayOfWeekArgs(day)),
+  THIS_MONTH: (day?: number | 'LAST'): QueryFunctionCall<'THIS_MONTH'> =>
+    call('THIS_MONTH', ...dayOfMonthArgs('THIS_MONTH', day)),
+  LAST_MONTH: (day?: number | 'LAST'): QueryFunctionCall<'LAST_MONTH'> =>
+    call('LAST_MONTH', ...dayOfMonthArgs('LAST_MONTH', day)),
+  NEXT_MONTH: (day?: number | 'LAST'): QueryFunctionCall<'NEXT_MONTH'> =>
+    call('NEXT_MONTH', ...dayOfMonthArgs('NEXT_MONTH', day)),
+  THIS_YEAR: (): QueryFunctionCall<'THIS_YEAR'> => call('THIS_YEAR'),
+  LAST_YEAR: (): QueryFunctionCall<'LAST_YEAR'> => call('LAST_YEAR'),
+  NEXT_YEAR: (): QueryFunctionCall<'NEXT_YEAR'> => call('NEXT_YEAR'),
+  LOGINUSER: (): QueryFunctionCall<'LOGINUSER'> => call('LOGINUSER'),
+  PRIMARY_ORGANIZATION: (): QueryFunctionCall<'PRIMARY_ORGANIZATION'> => call('PRIMARY_ORGANIZATION'),
+} as const
+
+/**
+ * 関数の呼び出しかどうかを判定
+ */
+export const isQueryFunctionCall = (value: unknown): value is QueryFunctionCall => {
+  return typeof value === 'object' && value !== null && (value as { _tag?: unknown })._tag === 'QueryFunctionCall'
+}
+
+/**
+ * 関数の呼び出しをクエリの文字列にする（例: FROM_TODAY(-7, DAYS)）
+ */
+export const formatQueryFunctionCall = (fn: QueryFunctionCall): string => {
+  return `${fn.name}(${fn.args.map(String).join(', ')})`
+}
+
+const DAYS_OF_WEEK: ReadonlyArray<string> = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY']
+const DATE_UNITS: ReadonlyArray<string> = ['DAYS', 'WEEKS', 'MONTHS', 'YEARS']
+
+const isDayOfMonth = (value: string | number): boolean =>
+  value === 'LAST' || (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 31)
+
+/**
+ * 関数の引数を検証する
+ * 問題があればそのメッセージを返し、問題がなければ undefined を返す
+ *
+ * @example
+ * ```typescript
+ * validateQueryFunctionArgs('FROM_TODAY', [-7, 'DAYS']) // undefined
+ * validateQueryFunctionArgs('FROM_TODAY', [-7]) // 'FROM_TODAY() requires (integer, DAYS | WEEKS | MONTHS | YEARS)'
+ * ```
+ */
+export const validateQueryFunctionArgs = (
+  name: QueryFunctionName,
+  args: ReadonlyArray<string | number>,
+): string | undefined => {
+  switch (name) {
+    case 'FROM_TODAY': {
+      const [amount, unit] = args
+      return args.length === 2 && typeof amount === 'number' && Number.isInteger(amount) && typeof unit === 'string' && DATE_UNITS.includes(unit)
+        ? undefined
+        : `${name}() requires (integer, ${DATE_UNITS.join(' | ')})`
+    }
+    case 'THIS_WEEK':
+    case 'LAST_WEEK':
+    case 'NEXT_WEEK': {
+      const [day] = args
+      return args.length === 0 || (args.length === 1 && typeof day === 'string' && DAYS_OF_WEEK.includes(day))
+        ? undefined
+        : `${name}() accepts no argument or a day of week (SUNDAY-SATURDAY)`
+    }
+    case 'THIS_MONTH':
+    case 'LAST_MONTH':
+    case 'NEXT_MONTH': {
+      const [day] = args
+      return args.length === 0 || (args.length === 1 && day !== undefined && isDayOfMonth(day))
+        ? undefined
+        : `${name}() accepts no argument or a day of month (1-31 or LAST)`
+    }
+    default:
+      return args.length === 0 ? undefined : `${name}() takes no arguments`
+  }
+}
+
+/**
+ * 関数名かどうかを判定
+ */
+export const isQueryFunctionName = (name: string): name is QueryFunctionName => {
+  return Object.hasOwn(QueryFunctions, name)
+}
@@ -0,0 +1,72 @@
+export {
+  createQueryBuilder,
+  collectQueryFields,
+  quoteQueryString,
+  QUERY_MAX_LIMIT,
+  QUERY_MAX_OFFSET,
+} from './builder.js'
+export type {
+  QueryBuilder,
+  QueryCondition,
+  QueryField,
+  QueryFieldCode,
+  QueryFieldOf,
+  QueryOperatorOf,
+  QuerySortableFieldCode,
+  QuerySortDirection,
+  QueryValueArgs,
+  QueryValueOf,
+} from './builder.js'
+export {
+  QueryFunctions,
+  QUERY_FUNCTIONS_BY_FIELD_TYPE,
+  getQueryFunctions,
+  isQueryFunctionCall,
+  formatQueryFunctionCall,
+  isQueryFunctionName,
+  validateQueryFunctionArgs,
+} from './functions.js'
+export type {
+  QueryDateUnit,
+  QueryDayOfWeek,
+  QueryFunctionCall,
+  QueryFunctionFor,
+  QueryFunctionName,
+} from './functions.js'
+export {
+  QUERY_OPERATORS_BY_FIELD_TYPE,
+  getQueryOperators,
+  isQueryFieldType,
+  isNumericQueryFieldType,
+  isSortableQueryFieldType,
+} from './operators.js'
+export type {
+  NumericQueryFieldType,
+  QueryEmptyOperator,
+  QueryFieldType,
+  QueryListOperator,
+  QueryOperator,
+  QueryOperatorFor,
+  SubtableQueryOperatorFor,
+  UnsortableQueryFieldType,
+} from './operators.js'
+export { parseQuery, parseQueryEither, getQueryPosition } from './parser.js'
+export type {
+  QueryAst,
+  QueryComparisonNode,
+  QueryConditionNode,
+  QueryFieldNode,
+  QueryFunctionArgumentNode,
+  QueryFunctionNode,
+  QueryLogicalNode,
+  QueryNumberNode,
+  QueryOrderByNode,
+  QuerySpan,
+  QueryStringNode,
+  QueryValueNode,
+} from './ast.js'
+export { collectQueryIssues, validateQuery, validateQueryEffect, QueryValidationError } from './validator.js'
+export type { QueryValidationIssue, QueryValidationRule } from './validator.js'
+export { evaluateQuery, evaluateQueryEffect, QUERY_DEFAULT_LIMIT } from './evaluator.js'
+export type { QueryEvaluationOptions, QueryRecord, QueryRecordField } from './evaluator.js'
+export { QueryBuildError, QueryEvaluationError, QuerySyntaxError } from './errors.js'
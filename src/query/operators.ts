@@ -0,0 +1,160 @@
+// クエリの演算子をフィールドタイプごとに定義する
+// クエリビルダー・パーサー・評価器はこの定義を参照する
+
+/**
+ * クエリの演算子
+ */
+export type QueryOperator =
+  | '='
+  | '!='
+  | '>'
+  | '<'
+  | '>='
+  | '<='
+  | 'in'
+  | 'not in'
+  | 'like'
+  | 'not like'
+  | 'is empty'
+  | 'is not empty'
+
+/**
+ * 値を取らない演算子
+ */
+export type QueryEmptyOperator = 'is empty' | 'is not empty'
+
+/**
+ * 値のリストを取る演算子
+ */
+export type QueryListOperator = 'in' | 'not in'
+
+const EQUALITY = ['=', '!='] as const
+const COMPARISON = ['=', '!=', '>', '<', '>=', '<='] as const
+const LIST = ['in', 'not in'] as const
+const LIKE = ['like', 'not like'] as const
+const EMPTY = ['is empty', 'is not empty'] as const
+
+/**
+ * フィールドタイプごとに使える演算子
+ * 定義されていないフィールドタイプ（REVISION、SUBTABLE、レイアウト用の要素等）はクエリで使えない
+ */
+export const QUERY_OPERATORS_BY_FIELD_TYPE = {
+  SINGLE_LINE_TEXT: [...EQUALITY, ...LIST, ...LIKE, ...EMPTY],
+  LINK: [...EQUALITY, ...LIST, ...LIKE, ...EMPTY],
+  MULTI_LINE_TEXT: [...LIKE, ...EMPTY],
+  RICH_TEXT: [...LIKE, ...EMPTY],
+  NUMBER: [...COMPARISON, ...LIST, ...EMPTY],
+  CALC: [...COMPARISON, ...LIST],
+  RADIO_BUTTON: [...LIST],
+  DROP_DOWN: [...LIST, ...EMPTY],
+  CHECK_BOX: [...LIST, ...EMPTY],
+  MULTI_SELECT: [...LIST, ...EMPTY],
+  DATE: [...COMPARISON, ...EMPTY],
+  TIME: [...COMPARISON, ...EMPTY],
+  DATETIME: [...COMPARISON, ...EMPTY],
+  USER_SELECT: [...LIST, ...EMPTY],
+  ORGANIZATION_SELECT: [...LIST, ...EMPTY],
+  GROUP_SELECT: [...LIST, ...EMPTY],
+  FILE: [...LIKE, ...EMPTY],
+  RECORD_NUMBER: [...COMPARISON, ...LIST],
+  __ID__: [...COMPARISON, ...LIST],
+  RECORD_ID: [...COMPARISON, ...LIST],
+  CREATOR: [...LIST],
+  MODIFIER: [...LIST],
+  CREATED_TIME: [...COMPARISON],
+  UPDATED_TIME: [...COMPARISON],
+  STATUS: [...EQUALITY, ...LIST],
+  STATUS_ASSIGNEE: [...LIST],
+  CATEGORY: [...LIST],
+} as const satisfies Readonly<Record<string, ReadonlyArray<QueryOperator>>>
+
+/**
+ * クエリで使えるフィールドタイプ
+ */
+export type QueryFieldType = keyof typeof QUERY_OPERATORS_BY_FIELD_TYPE
+
+/**
+ * フィールドタイプで使える演算子
+ */
+export type QueryOperatorFor<T> = T extends QueryFieldType
+  ? (typeof QUERY_OPERATORS_BY_FIELD_TYPE)[T][number]
+  : never
+
+/**
+ * サブテーブル内のフィールドで使える演算子（= と != の代わりに in と not in を使う）
+ */
+export type SubtableQueryOperatorFor<T> = Exclude<QueryOperatorFor<T>, '=' | '!='>
+
+/**
+ * 値が数値のフィールドタイプ（数値はクォートせずに書ける）
+ */
+export type NumericQueryFieldType = 'NUMBER' | 'CALC' | 'RECORD_NUMBER' | '__ID__' | 'RECORD_ID'
+
+const NUMERIC_FIELD_TYPES: ReadonlySet<string> = new Set<NumericQueryFieldType>([
+  'NUMBER',
+  'CALC',
+  'RECORD_NUMBER',
+  '__ID__',
+  'RECORD_ID',
+])
+
+// order by で使えないフィールドタイプ
+const UNSORTABLE_FIELD_TYPES: ReadonlySet<string> = new Set([
+  'MULTI_LINE_TEXT',
+  'RICH_TEXT',
+  'CHECK_BOX',
+  'MULTI_SELECT',
+  'USER_SELECT',
+  'ORGANIZATION_SELECT',
+  'GROUP_SELECT',
+  'FILE',
+  'STATUS_ASSIGNEE',
+  'CATEGORY',
+])
+
+/**
+ * order by で使えないフィールドタイプ
+ */
+export type UnsortableQueryFieldType =
+  | 'MULTI_LINE_TEXT'
+  | 'RICH_TEXT'
+  | 'CHECK_BOX'
+  | 'MULTI_SELECT'
+  | 'USER_SELECT'
+  | 'ORGANIZATION_SELECT'
+  | 'GROUP_SELECT'
+  | 'FILE'
+  | 'STATUS_ASSIGNEE'
+  | 'CATEGORY'
+
+/**
+ * クエリで使えるフィールドタイプかどうかを判定
+ */
+export const isQueryFieldType = (type: string): type is QueryFieldType => {
+  return Object.hasOwn(QUERY_OPERATORS_BY_FIELD_TYPE, type)
+}
+
+/**
+ * フィールドタイプで使える演算子を返す（サブテーブル内のフィールドは = と != を除く）
+ */
+export const getQueryOperators = (type: string, inSubtable = false): ReadonlyArray<QueryOperator> => {
+  if (!isQueryFieldType(type)) {
+    return []
+  }
+  const operators: ReadonlyArray<QueryOperator> = QUERY_OPERATORS_BY_FIELD_TYPE[type]
+  return inSubtable ? operators.filter((operator) => operator !== '=' && operator !== '!=') : operators
+}
+
+/**
+ * 値が数値のフィールドタイプかどうかを判定
+ */
+export const isNumericQueryFieldType = (type: string): boolean => {
+  return NUMERIC_FIELD_TYPES.has(type)
+}
+
+/**
+ * order by で使えるフィールドタイプかどうかを判定（サブテーブル内のフィールドは使えない）
+ */
+export const isSortableQueryFieldType = (type: string): boolean => {
+  return isQueryFieldType(type) && !UNSORTABLE_FIELD_TYPES.has(type)
+}
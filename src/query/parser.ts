@@ -0,0 +1,380 @@
+import { Either } from 'effect'
+import { QuerySyntaxError } from './errors.js'
+import type {
+  QueryAst,
+  QueryComparisonNode,
+  QueryConditionNode,
+  QueryFieldNode,
+  QueryFunctionArgumentNode,
+  QueryNumberNode,
+  QueryOrderByNode,
+  QuerySpan,
+  QueryValueNode,
+} from './ast.js'
+import type { QueryOperator } from './operators.js'
+
+// kintoneのクエリのパーサー
+// 構文:
+//   query      := [condition] ["order by" field [asc|desc] ("," ...)*] ["limit" number] ["offset" number]
+//   condition  := and ("or" and)*
+//   and        := primary ("and" primary)*
+//   primary    := "(" condition ")" | field operator value
+// and は or より優先する
+
+type TokenKind = 'identifier' | 'string' | 'number' | 'symbol' | 'end'
+
+interface Token {
+  readonly kind: TokenKind
+  /** identifier・symbol は書かれた文字列、string はエスケープを解除した値 */
+  readonly text: string
+  readonly start: number
+  readonly end: number
+}
+
+// 識別子（フィールドコード・キーワード・関数名）に含まれない文字
+const DELIMITERS = new Set(['(', ')', ',', '"', '=', '!', '<', '>'])
+
+// 字句全体が数値の場合のみ数値とする（1st_date 等の数字で始まるフィールドコードは識別子）
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+/**
+ * クエリの文字列中のオフセットを行・列（1始まり）に変換する
+ */
+export const getQueryPosition = (query: string, offset: number): { line: number; column: number } => {
+  const before = query.slice(0, offset).split('\n')
+  return { line: before.length, column: (before[before.length - 1]?.length ?? 0) + 1 }
+}
+
+const syntaxError = (query: string, message: string, span: QuerySpan): QuerySyntaxError => {
+  return new QuerySyntaxError({ message, start: span.start, end: span.end, ...getQueryPosition(query, span.start) })
+}
+
+const isWhitespace = (char: string): boolean => /\s/.test(char)
+
+// クエリを字句に分割する
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < query.length) {
+    const char = query.charAt(index)
+    const start = index
+
+    if (isWhitespace(char)) {
+      index++
+      continue
+    }
+
+    if (char === '"') {
+      let value = ''
+      index++
+      while (index < query.length && query.charAt(index) !== '"') {
+        if (query.charAt(index) === '\\' && index + 1 < query.length) {
+          index++
+        }
+        value += query.charAt(index)
+        index++
+      }
+      if (index >= query.length) {
+        throw syntaxError(query, 'Unterminated string', { start, end: query.length })
+      }
+      index++
+      tokens.push({ kind: 'string', text: value, start, end: index })
+      continue
+    }
+
+    if (char === '!' || char === '<' || char === '>') {
+      index += query.charAt(index + 1) === '=' ? 2 : 1
+      const text = query.slice(start, index)
+      if (text === '!') {
+        throw syntaxError(query, 'Unexpected "!" (use "!=")', { start, end: index })
+      }
+      tokens.push({ kind: 'symbol', text, start, end: index })
+      continue
+    }
+
+    if (DELIMITERS.has(char)) {
+      index++
+      tokens.push({ kind: 'symbol', text: char, start, end: index })
+      continue
+    }
+
+    while (index < query.length && !isWhitespace(query.charAt(index)) && !DELIMITERS.has(query.charAt(index))) {
+      index++
+    }
+    const text = query.slice(start, index)
+    const isNumber = NUMBER_PATTERN.test(text) && (char !== '-' || tokens[tokens.length - 1]?.kind !== 'identifier')
+    tokens.push({ kind: isNumber ? 'number' : 'identifier', text, start, end: index })
+  }
+
+  tokens.push({ kind: 'end', text: '', start: query.length, end: query.length })
+  return tokens
+}
+
+const describeToken = (token: Token): string => {
+  switch (token.kind) {
+    case 'end':
+      return 'end of query'
+    case 'string':
+      return `string "${token.text}"`
+    default:
+      return `"${token.text}"`
+  }
+}
+
+const COMPARISON_OPERATORS: ReadonlySet<string> = new Set(['=', '!=', '>', '<', '>=', '<='])
+
+/**
+ * kintoneのクエリを構文木にする
+ * 構文が不正な場合は位置（オフセット・行・列）を持つ QuerySyntaxError をスローする
+ *
+ * @example
+ * ```typescript
+ * const ast = parseQuery('price >= 100 and status in ("A", "B") order by $id desc limit 10')
+ * ast.condition // { _tag: 'QueryLogical', connective: 'and', operands: [...] }
+ * ```
+ */
+export const parseQuery = (query: string): QueryAst => {
+  const tokens = tokenize(query)
+  let position = 0
+
+  const peek = (offset = 0): Token => tokens[Math.min(position + offset, tokens.length - 1)] as Token
+  const advance = (): Token => {
+    const token = peek()
+    position = Math.min(position + 1, tokens.length - 1)
+    return token
+  }
+  const isKeyword = (token: Token, keyword: string): boolean =>
+    token.kind === 'identifier' && token.text.toLowerCase() === keyword
+  const fail = (expected: string, token: Token = peek()): never => {
+    throw syntaxError(query, `Expected ${expected} but found ${describeToken(token)}`, token)
+  }
+  const expectSymbol = (symbol: string): Token => {
+    const token = peek()
+    return token.kind === 'symbol' && token.text === symbol ? advance() : fail(`"${symbol}"`)
+  }
+  const expectKeyword = (keyword: string): Token => (isKeyword(peek(), keyword) ? advance() : fail(`"${keyword}"`))
+
+  // order by / limit / offset の開始かどうか（同名のフィールドと区別する）
+  const isClauseStart = (): boolean =>
+    (isKeyword(peek(), 'order') && isKeyword(peek(1), 'by')) ||
+    ((isKeyword(peek(), 'limit') || isKeyword(peek(), 'offset')) && peek(1).kind === 'number')
+
+  const parseField = (): QueryFieldNode => {
+    const token = peek()
+    if (token.kind !== 'identifier') {
+      return fail('a field code')
+    }
+    advance()
+    return { code: token.text, span: { start: token.start, end: token.end } }
+  }
+
+  const parseNumber = (): QueryNumberNode => {
+    const token = peek()
+    if (token.kind !== 'number') {
+      return fail('a number')
+    }
+    advance()
+    return { _tag: 'QueryNumber', value: Number(token.text), raw: token.text, span: { start: token.start, end: token.end } }
+  }
+
+  const parseFunctionArguments = (): QueryFunctionArgumentNode[] => {
+    const args: QueryFunctionArgumentNode[] = []
+    expectSymbol('(')
+    if (peek().kind === 'symbol' && peek().text === ')') {
+      advance()
+      return args
+    }
+    for (;;) {
+      const token = peek()
+      if (token.kind === 'number') {
+        args.push({ value: Number(token.text), span: { start: token.start, end: token.end } })
+      } else if (token.kind === 'identifier') {
+        args.push({ value: token.text, span: { start: token.start, end: token.end } })
+      } else {
+        fail('a function argument')
+      }
+      advance()
+      if (peek().kind === 'symbol' && peek().text === ',') {
+        advance()
+        continue
+      }
+      expectSymbol(')')
+      return args
+    }
+  }
+
+  const parseValue = (): QueryValueNode => {
+    const token = peek()
+    switch (token.kind) {
+      case 'string':
+        advance()
+        return { _tag: 'QueryString', value: token.text, span: { start: token.start, end: token.end } }
+      case 'number':
+        return parseNumber()
+      case 'identifier': {
+        advance()
+        if (!(peek().kind === 'symbol' && peek().text === '(')) {
+          throw syntaxError(query, `Expected a string, number or function but found "${token.text}" (quote string values)`, token)
+        }
+        const args = parseFunctionArguments()
+        const end = tokens[position - 1]?.end ?? token.end
+        return { _tag: 'QueryFunction', name: token.text, args, span: { start: token.start, end } }
+      }
+      default:
+        return fail('a value')
+    }
+  }
+
+  const parseValueList = (): QueryValueNode[] => {
+    expectSymbol('(')
+    const values = [parseValue()]
+    while (peek().kind === 'symbol' && peek().text === ',') {
+      advance()
+      values.push(parseValue())
+    }
+    expectSymbol(')')
+    return values
+  }
+
+  const parseComparison = (): QueryComparisonNode => {
+    const field = parseField()
+    const operatorToken = peek()
+
+    // 演算子（not in、is not empty 等の複数語を含む）を読み、値を読む関数を返す
+    const readOperator = (): readonly [QueryOperator, () => QueryValueNode[]] => {
+      const single = (): QueryValueNode[] => [parseValue()]
+      if (operatorToken.kind === 'symbol' && COMPARISON_OPERATORS.has(operatorToken.text)) {
+        advance()
+        return [operatorToken.text as QueryOperator, single]
+      }
+      if (isKeyword(operatorToken, 'in') || isKeyword(operatorToken, 'like')) {
+        advance()
+        return operatorToken.text.toLowerCase() === 'in' ? ['in', parseValueList] : ['like', single]
+      }
+      if (isKeyword(operatorToken, 'not')) {
+        advance()
+        if (isKeyword(peek(), 'in')) {
+          advance()
+          return ['not in', parseValueList]
+        }
+        expectKeyword('like')
+        return ['not like', single]
+      }
+      if (isKeyword(operatorToken, 'is')) {
+        advance()
+        const negated = isKeyword(peek(), 'not') ? (advance(), true) : false
+        expectKeyword('empty')
+        return [negated ? 'is not empty' : 'is empty', () => []]
+      }
+      return fail('an operator', operatorToken)
+    }
+
+    const [operator, readValues] = readOperator()
+    const operatorEnd = tokens[position - 1]?.end ?? operatorToken.end
+    const values = readValues()
+    const end = tokens[position - 1]?.end ?? operatorEnd
+    return {
+      _tag: 'QueryComparison',
+      field,
+      operator,
+      operatorSpan: { start: operatorToken.start, end: operatorEnd },
+      values,
+      span: { start: field.span.start, end },
+    }
+  }
+
+  const parsePrimary = (): QueryConditionNode => {
+    const token = peek()
+    if (token.kind === 'symbol' && token.text === '(') {
+      advance()
+      const condition = parseCondition()
+      expectSymbol(')')
+      return condition
+    }
+    return parseComparison()
+  }
+
+  const parseLogical = (connective: 'and' | 'or', parseOperand: () => QueryConditionNode): QueryConditionNode => {
+    const operands = [parseOperand()]
+    while (isKeyword(peek(), connective)) {
+      advance()
+      operands.push(parseOperand())
+    }
+    const [first] = operands
+    const last = operands[operands.length - 1]
+    return operands.length === 1 && first
+      ? first
+      : { _tag: 'QueryLogical', connective, operands, span: { start: first?.span.start ?? 0, end: last?.span.end ?? 0 } }
+  }
+
+  const parseCondition = (): QueryConditionNode => parseLogical('or', () => parseLogical('and', parsePrimary))
+
+  const parseOrderBy = (): QueryOrderByNode[] => {
+    const orderBy: QueryOrderByNode[] = []
+    for (;;) {
+      const field = parseField()
+      let direction: 'asc' | 'desc' = 'asc'
+      let end = field.span.end
+      if (isKeyword(peek(), 'asc') || isKeyword(peek(), 'desc')) {
+        const token = advance()
+        direction = token.text.toLowerCase() as 'asc' | 'desc'
+        end = token.end
+      }
+      orderBy.push({ field, direction, span: { start: field.span.start, end } })
+      if (!(peek().kind === 'symbol' && peek().text === ',')) {
+        return orderBy
+      }
+      advance()
+    }
+  }
+
+  const condition = peek().kind === 'end' || isClauseStart() ? undefined : parseCondition()
+
+  let orderBy: QueryOrderByNode[] = []
+  if (isKeyword(peek(), 'order') && isKeyword(peek(1), 'by')) {
+    advance()
+    advance()
+    orderBy = parseOrderBy()
+  }
+  let limit: QueryNumberNode | undefined
+  if (isKeyword(peek(), 'limit')) {
+    advance()
+    limit = parseNumber()
+  }
+  let offset: QueryNumberNode | undefined
+  if (isKeyword(peek(), 'offset')) {
+    advance()
+    offset = parseNumber()
+  }
+
+  if (peek().kind !== 'end') {
+    fail(
+      condition === undefined && orderBy.length === 0
+        ? 'a condition'
+        : '"and", "or", "order by", "limit", "offset" or end of query'
+    )
+  }
+
+  return {
+    ...(condition !== undefined ? { condition } : {}),
+    orderBy,
+    ...(limit !== undefined ? { limit } : {}),
+    ...(offset !== undefined ? { offset } : {}),
+  }
+}
+
+/**
+ * kintoneのクエリを構文木にする（Either版）
+ */
+export const parseQueryEither = (query: string): Either.Either<QueryAst, QuerySyntaxError> => {
+  return Either.try({
+    try: () => parseQuery(query),
+    catch: (error) => {
+      if (error instanceof QuerySyntaxError) {
+        return error
+      }
+      throw error
+    },
+  })
+}
@@ -0,0 +1,224 @@
+import { Data, Effect, Either } from 'effect'
+import type { GetFormFieldsResponse } from '../schemas/form/fields.js'
+import type { QueryAst, QueryConditionNode, QueryFunctionNode, QuerySpan } from './ast.js'
+import { QUERY_MAX_LIMIT, QUERY_MAX_OFFSET, type QueryField } from './builder.js'
+import { getQueryFunctions, isQueryFunctionName, validateQueryFunctionArgs } from './functions.js'
+import { getQueryOperators, isQueryFieldType, isSortableQueryFieldType } from './operators.js'
+import { getQueryPosition, parseQueryEither } from './parser.js'
+
+// 保存したクエリをフォームの設定（フォームのフィールド一覧取得APIの properties）で検証する
+
+/**
+ * クエリのバリデーションのルール
+ * - syntax: 構文エラー
+ * - unknownField: フォームに存在しない（またはクエリで使えない）フィールド
+ * - operator: フィールドタイプで使えない演算子
+ * - function: 存在しない関数、フィールドタイプで使えない関数、不正な引数
+ * - subtableField: サブテーブル内のフィールドの制限（= / != は使えない、order by で使えない）
+ * - orderBy: 並び替えできないフィールド
+ * - limit / offset: 範囲外の値
+ */
+export type QueryValidationRule =
+  | 'syntax'
+  | 'unknownField'
+  | 'operator'
+  | 'function'
+  | 'subtableField'
+  | 'orderBy'
+  | 'limit'
+  | 'offset'
+
+/**
+ * クエリのバリデーションで見つかった問題
+ * start / end はクエリの文字列中のオフセット（0始まり）、line / column は問題の開始位置（1始まり）
+ */
+export interface QueryValidationIssue {
+  rule: QueryValidationRule
+  message: string
+  fieldCode?: string
+  start: number
+  end: number
+  line: number
+  column: number
+}
+
+/**
+ * クエリのバリデーションのエラー（すべての問題を保持する）
+ */
+export class QueryValidationError extends Data.TaggedError('QueryValidationError')<{
+  readonly issues: ReadonlyArray<QueryValidationIssue>
+}> {
+  override get message(): string {
+    return this.issues.map((issue) => `${String(issue.line)}:${String(issue.column)} ${issue.message}`).join('\n')
+  }
+}
+
+/** $id のフィールド（フォームのフィールド一覧に含まれないが、常にクエリで使える） */
+export const RECORD_ID_FIELD: QueryField = { type: '__ID__' }
+
+/**
+ * フォームのフィールド（サブテーブル内のフィールドを含む）をフィールドコードごとにまとめる
+ */
+export const collectFormQueryFields = (formProperties: GetFormFieldsResponse['properties']): Map<string, QueryField> => {
+  const fields = new Map<string, QueryField>([['$id', RECORD_ID_FIELD]])
+  for (const [code, properties] of Object.entries(formProperties)) {
+    fields.set(code, { type: properties.type })
+    if (properties.type === 'SUBTABLE') {
+      for (const [columnCode, column] of Object.entries(properties.fields)) {
+        fields.set(columnCode, { type: column.type, subtableCode: code })
+      }
+    }
+  }
+  return fields
+}
+
+/**
+ * 構文木をフィールドコードごとのフィールドで検証し、すべての問題を返す
+ * フォームの設定の代わりにレコードから集めたフィールドで検証する場合に使う
+ */
+export const collectQueryAstIssues = (
+  query: string,
+  ast: QueryAst,
+  fields: ReadonlyMap<string, QueryField>
+): QueryValidationIssue[] => {
+  const issues: QueryValidationIssue[] = []
+
+  const report = (rule: QueryValidationRule, message: string, span: QuerySpan, fieldCode?: string): void => {
+    issues.push({
+      rule,
+      message,
+      ...(fieldCode !== undefined ? { fieldCode } : {}),
+      start: span.start,
+      end: span.end,
+      ...getQueryPosition(query, span.start),
+    })
+  }
+
+  // クエリで使えるフィールドを返す（使えない場合は問題を報告して undefined を返す）
+  const resolveField = (code: string, span: QuerySpan): QueryField | undefined => {
+    const field = fields.get(code)
+    if (!field || !isQueryFieldType(field.type)) {
+      report('unknownField', field ? `Field "${code}" (${field.type}) cannot be used in a query` : `Unknown field code: ${code}`, span, code)
+      return undefined
+    }
+    return field
+  }
+
+  const checkFunction = (fn: QueryFunctionNode, code: string, field: QueryField): void => {
+    if (!isQueryFunctionName(fn.name)) {
+      report('function', `Unknown function: ${fn.name}()`, fn.span, code)
+      return
+    }
+    if (!getQueryFunctions(field.type).includes(fn.name)) {
+      report('function', `Function ${fn.name}() cannot be used for ${field.type} field "${code}"`, fn.span, code)
+      return
+    }
+    const problem = validateQueryFunctionArgs(fn.name, fn.args.map((arg) => arg.value))
+    if (problem !== undefined) {
+      report('function', problem, fn.span, code)
+    }
+  }
+
+  const checkCondition = (condition: QueryConditionNode): void => {
+    if (condition._tag === 'QueryLogical') {
+      condition.operands.forEach(checkCondition)
+      return
+    }
+
+    const { code, span } = condition.field
+    const field = resolveField(code, span)
+    if (!field) {
+      return
+    }
+
+    const { operator, operatorSpan } = condition
+    if (!getQueryOperators(field.type).includes(operator)) {
+      report('operator', `Operator "${operator}" cannot be used for ${field.type} field "${code}"`, operatorSpan, code)
+    } else if (field.subtableCode !== undefined && (operator === '=' || operator === '!=')) {
+      report(
+        'subtableField',
+        `Use "${operator === '=' ? 'in' : 'not in'}" instead of "${operator}" for subtable field "${code}"`,
+        operatorSpan,
+        code
+      )
+    }
+
+    for (const value of condition.values) {
+      if (value._tag === 'QueryFunction') {
+        checkFunction(value, code, field)
+      }
+    }
+  }
+
+  if (ast.condition) {
+    checkCondition(ast.condition)
+  }
+
+  for (const { field: { code, span } } of ast.orderBy) {
+    const field = resolveField(code, span)
+    if (!field) {
+      continue
+    }
+    if (field.subtableCode !== undefined) {
+      report('subtableField', `Subtable field "${code}" cannot be used in order by`, span, code)
+    } else if (!isSortableQueryFieldType(field.type)) {
+      report('orderBy', `${field.type} field "${code}" cannot be used in order by`, span, code)
+    }
+  }
+
+  if (ast.limit && !(Number.isInteger(ast.limit.value) && ast.limit.value >= 1 && ast.limit.value <= QUERY_MAX_LIMIT)) {
+    report('limit', `limit must be an integer between 1 and ${String(QUERY_MAX_LIMIT)}: ${ast.limit.raw}`, ast.limit.span)
+  }
+  if (ast.offset && !(Number.isInteger(ast.offset.value) && ast.offset.value >= 0 && ast.offset.value <= QUERY_MAX_OFFSET)) {
+    report('offset', `offset must be an integer between 0 and ${String(QUERY_MAX_OFFSET)}: ${ast.offset.raw}`, ast.offset.span)
+  }
+
+  return issues
+}
+
+/**
+ * クエリをフォームの設定で検証し、すべての問題を返す
+ * 構文エラーの場合はその問題のみを返す
+ *
+ * @example
+ * ```typescript
+ * const issues = collectQueryIssues('price like "1"', formFields.properties)
+ * // [{ rule: 'operator', message: 'Operator "like" cannot be used for NUMBER field "price"', start: 6, end: 10, line: 1, column: 7, fieldCode: 'price' }]
+ * ```
+ */
+export const collectQueryIssues = (
+  query: string,
+  formProperties: GetFormFieldsResponse['properties']
+): QueryValidationIssue[] => {
+  const parsed = parseQueryEither(query)
+  if (Either.isLeft(parsed)) {
+    const { message, start, end, line, column } = parsed.left
+    return [{ rule: 'syntax', message, start, end, line, column }]
+  }
+  return collectQueryAstIssues(query, parsed.right, collectFormQueryFields(formProperties))
+}
+
+/**
+ * クエリをフォームの設定で検証する
+ * 問題がある場合はすべての問題を持つ QueryValidationError をスローする
+ */
+export const validateQuery = (query: string, formProperties: GetFormFieldsResponse['properties']): void => {
+  const issues = collectQueryIssues(query, formProperties)
+  if (issues.length > 0) {
+    throw new QueryValidationError({ issues })
+  }
+}
+
+/**
+ * クエリをフォームの設定で検証する（Effect版）
+ * 問題がある場合はすべての問題を持つ QueryValidationError で失敗する
+ */
+export const validateQueryEffect = (
+  query: string,
+  formProperties: GetFormFieldsResponse['properties']
+): Effect.Effect<void, QueryValidationError> => {
+  return Effect.suspend(() => {
+    const issues = collectQueryIssues(query, formProperties)
+    return issues.length === 0 ? Effect.void : Effect.fail(new QueryValidationError({ issues }))
+  })
+}
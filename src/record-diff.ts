@@ -0,0 +1,228 @@
+import type { Schema } from 'effect'
+import type { KintoneFieldSchema } from './schemas/fields.js'
+import type { KintoneRecordSchema, SubtableFieldSchema } from './schemas/record.js'
+import { normalizeFieldValue } from './decoders.js'
+import { isEmptyFieldValue } from './constraints.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+import { isReadOnlyField } from './validators.js'
+import { toWritePayload, toWriteValue, type WritePayload } from './write-payload.js'
+
+type KintoneField = Schema.Schema.Type<typeof KintoneFieldSchema>
+type SubtableField = Schema.Schema.Type<typeof SubtableFieldSchema>
+type KintoneRecord = Schema.Schema.Type<typeof KintoneRecordSchema>
+type SubtableRow = SubtableField['value'][number]
+
+/**
+ * レコードの変更内容
+ * - field: 通常フィールドの値の変更
+ * - rowAdded / rowRemoved: サブテーブルの行の追加・削除
+ * - cell: サブテーブルの既存行のセルの値の変更
+ */
+export type RecordChange =
+  | {
+      kind: 'field'
+      fieldCode: string
+      before: unknown
+      after: unknown
+      message: string
+    }
+  | {
+      kind: 'rowAdded'
+      subtableCode: string
+      rowId: string | undefined
+      message: string
+    }
+  | {
+      kind: 'rowRemoved'
+      subtableCode: string
+      rowId: string
+      message: string
+    }
+  | {
+      kind: 'cell'
+      subtableCode: string
+      rowId: string
+      fieldCode: string
+      before: unknown
+      after: unknown
+      message: string
+    }
+
+/**
+ * レコードの差分
+ */
+export interface RecordDiff {
+  /** 変更されたフィールドのみを含む書き込み用のレコード */
+  payload: WritePayload
+  /** 監査ログ向けの変更一覧 */
+  changes: RecordChange[]
+}
+
+// レコードに含まれるが書き込めないシステムフィールドのフィールドコード
+const SYSTEM_FIELD_CODES: ReadonlySet<string> = new Set(['$id', '$revision'])
+
+// ユーザー選択等の要素は code、添付ファイルの要素は fileKey で表す
+// （name の有無やキーの順序の違いを変更とみなさないため）
+const toComparableItem = (item: unknown): unknown => {
+  if (typeof item !== 'object' || item === null) {
+    return item
+  }
+  if ('code' in item) {
+    return item.code
+  }
+  return 'fileKey' in item ? item.fileKey : item
+}
+
+/**
+ * 書き込み時の値として比較する
+ * 空値（""、null、undefined、[]）同士は同じ値とみなし、
+ * ユーザー選択等は code、添付ファイルは fileKey のみを比較する
+ */
+const isSameWriteValue = (before: unknown, after: unknown): boolean => {
+  if (isEmptyFieldValue(before) && isEmptyFieldValue(after)) {
+    return true
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return (
+      before.length === after.length &&
+      before.every((item, index) => toComparableItem(item) === toComparableItem(after[index]))
+    )
+  }
+  return JSON.stringify(before) === JSON.stringify(after)
+}
+
+// フィールドを正規化して書き込み時の値を取得（フィールドが存在しない場合は undefined）
+const toComparableValue = (field: KintoneField | undefined): unknown => {
+  return field === undefined ? undefined : toWriteValue(normalizeFieldValue(field) as KintoneField)
+}
+
+/**
+ * サブテーブルの行を id で対応付けて差分を取る
+ */
+const diffSubtableRows = (
+  subtableCode: string,
+  beforeRows: readonly SubtableRow[],
+  afterRows: readonly SubtableRow[],
+  locale: MessageLocale | undefined
+): RecordChange[] => {
+  const changes: RecordChange[] = []
+  const beforeById = new Map(beforeRows.map((row) => [row.id, row]))
+  const afterIds = new Set<string>()
+
+  for (const afterRow of afterRows) {
+    // idを持たない行（または変更前に存在しない行）は追加された行
+    const rowId = afterRow.id as string | undefined
+    const beforeRow = rowId ? beforeById.get(rowId) : undefined
+    if (!rowId || !beforeRow) {
+      changes.push({
+        kind: 'rowAdded',
+        subtableCode,
+        rowId: rowId || undefined,
+        message: formatMessage('recordRowAdded', { subtableCode }, locale),
+      })
+      continue
+    }
+
+    afterIds.add(rowId)
+    const fieldCodes = new Set([...Object.keys(beforeRow.value), ...Object.keys(afterRow.value)])
+    for (const fieldCode of fieldCodes) {
+      const beforeCell = beforeRow.value[fieldCode]
+      const afterCell = afterRow.value[fieldCode]
+      const type = (afterCell ?? beforeCell)?.type
+      if (type === undefined || isReadOnlyField(type)) {
+        continue
+      }
+
+      const before = toComparableValue(beforeCell)
+      const after = toComparableValue(afterCell)
+      if (!isSameWriteValue(before, after)) {
+        changes.push({
+          kind: 'cell',
+          subtableCode,
+          rowId,
+          fieldCode,
+          before,
+          after,
+          message: formatMessage('recordCellChanged', { subtableCode, rowId, fieldCode, before, after }, locale),
+        })
+      }
+    }
+  }
+
+  for (const beforeRow of beforeRows) {
+    if (!afterIds.has(beforeRow.id)) {
+      changes.push({
+        kind: 'rowRemoved',
+        subtableCode,
+        rowId: beforeRow.id,
+        message: formatMessage('recordRowRemoved', { subtableCode, rowId: beforeRow.id }, locale),
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * 2つのレコード（KintoneRecordData）を比較し、変更されたフィールドのみの書き込み用レコードと変更一覧を返す
+ *
+ * - 値は normalizeFieldValue で正規化してから比較するため、undefined / "" / null 等の空値のゆれは変更とみなさない
+ * - 読み取り専用・システムフィールドの変更は無視する
+ * - after に存在しないフィールドは変更しない
+ * - ユーザー選択等は code、添付ファイルは fileKey のみを比較する
+ * - サブテーブルは行の id で対応付け、行の追加・削除・セルの変更を検出する。
+ *   kintoneはサブテーブルを行単位で置き換えるため、変更がある場合はサブテーブル全体を payload に含める
+ * - 変更一覧の message は locale（省略した場合は現在のメッセージのロケール）で生成する
+ *
+ * payload は toWritePayload で生成するため、空値を設定できないフィールドが空の場合は
+ * EmptyValueNotAllowed をスローする
+ */
+export const diffRecords = (
+  before: KintoneRecord,
+  after: KintoneRecord,
+  locale?: MessageLocale
+): RecordDiff => {
+  const changes: RecordChange[] = []
+  const changedFields: Record<string, KintoneField | SubtableField> = {}
+
+  for (const [fieldCode, afterField] of Object.entries(after)) {
+    if (SYSTEM_FIELD_CODES.has(fieldCode) || isReadOnlyField(afterField.type)) {
+      continue
+    }
+
+    const normalizedAfter = normalizeFieldValue(afterField) as KintoneField | SubtableField
+    const beforeField = before[fieldCode]
+
+    if (normalizedAfter.type === 'SUBTABLE') {
+      const beforeRows = beforeField?.type === 'SUBTABLE'
+        ? (normalizeFieldValue(beforeField) as SubtableField).value
+        : []
+      const rowChanges = diffSubtableRows(fieldCode, beforeRows, normalizedAfter.value, locale)
+      if (rowChanges.length > 0) {
+        changes.push(...rowChanges)
+        changedFields[fieldCode] = normalizedAfter
+      }
+      continue
+    }
+
+    const beforeValue = beforeField === undefined || beforeField.type === 'SUBTABLE'
+      ? undefined
+      : toComparableValue(beforeField)
+    const afterValue = toWriteValue(normalizedAfter)
+    if (!isSameWriteValue(beforeValue, afterValue)) {
+      changes.push({
+        kind: 'field',
+        fieldCode,
+        before: beforeValue,
+        after: afterValue,
+        message: formatMessage('recordFieldChanged', { fieldCode, before: beforeValue, after: afterValue }, locale),
+      })
+      changedFields[fieldCode] = normalizedAfter
+    }
+  }
+
+  return {
+    payload: toWritePayload(changedFields),
+    changes,
+  }
+}
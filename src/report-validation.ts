@@ -0,0 +1,219 @@
+import { Data, Effect } from 'effect'
+import type { KintoneFieldProperties, SubtableField } from './schemas/form/fields.js'
+import type { ReportAggregation, ReportForUpdate, ReportGroup, ReportGroupPer } from './schemas/app/reports.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+// グラフの設定の検証
+// 分類する項目・集計する項目のフィールドが、kintone のグラフで使えるタイプかをフォームのフィールドと照合する
+
+/**
+ * グラフの設定の問題の種類
+ * - unknownField: フォームにないフィールドコードを参照している
+ * - groupFieldType: 分類する項目に使えないタイプのフィールド
+ * - groupPer: per がフィールドのタイプに合わない（日付・日時・時刻のフィールドは per が必須、それ以外は指定できない）
+ * - aggregationFieldType: 集計方法に使えないタイプのフィールド
+ * - aggregationField: COUNT 以外の集計方法で code を指定していない
+ */
+export type ReportIssueKind = 'unknownField' | 'groupFieldType' | 'groupPer' | 'aggregationFieldType' | 'aggregationField'
+
+/**
+ * グラフの設定の問題（path はグラフの中の位置（['groups', 0] 等））
+ */
+export interface ReportIssue {
+  report: string
+  kind: ReportIssueKind
+  fieldCode?: string
+  path: ReadonlyArray<string | number>
+  message: string
+}
+
+/**
+ * グラフの設定の検証エラー
+ */
+export class ReportValidationError extends Data.TaggedError('ReportValidationError')<{
+  readonly issues: ReadonlyArray<ReportIssue>
+}> {
+  override get message(): string {
+    return this.issues.map((issue) => issue.message).join('\n')
+  }
+}
+
+type ReportField = KintoneFieldProperties | SubtableField
+
+// 検証するグラフ（取得APIのレスポンスのグラフと変更APIのグラフのどちらも検証できる）
+type ReportSettings = Pick<ReportForUpdate, 'groups' | 'aggregations'>
+
+// 分類する項目に使えるフィールドのタイプ
+const GROUP_FIELD_TYPES: ReadonlySet<string> = new Set([
+  'SINGLE_LINE_TEXT',
+  'NUMBER',
+  'CALC',
+  'RADIO_BUTTON',
+  'CHECK_BOX',
+  'MULTI_SELECT',
+  'DROP_DOWN',
+  'DATE',
+  'TIME',
+  'DATETIME',
+  'LINK',
+  'USER_SELECT',
+  'ORGANIZATION_SELECT',
+  'GROUP_SELECT',
+  'STATUS',
+  'STATUS_ASSIGNEE',
+  'CATEGORY',
+  'CREATOR',
+  'MODIFIER',
+  'CREATED_TIME',
+  'UPDATED_TIME',
+])
+
+// 日付・日時・時刻のフィールドで使える per
+const DATE_PERS: ReadonlyArray<ReportGroupPer> = ['YEAR', 'QUARTER', 'MONTH', 'WEEK', 'DAY']
+const TIME_PERS: ReadonlyArray<ReportGroupPer> = ['HOUR', 'MINUTE']
+const DATETIME_PERS: ReadonlyArray<ReportGroupPer> = [...DATE_PERS, ...TIME_PERS]
+
+// フィールドの値が日付・日時・時刻の場合に、分類に使える per を返す（計算フィールドは表示形式で判定する）
+const getGroupPers = (field: ReportField): ReadonlyArray<ReportGroupPer> | undefined => {
+  const type = field.type === 'CALC' ? field.format : field.type
+  switch (type) {
+    case 'DATE':
+      return DATE_PERS
+    case 'DATETIME':
+    case 'CREATED_TIME':
+    case 'UPDATED_TIME':
+      return DATETIME_PERS
+    case 'TIME':
+      return TIME_PERS
+    default:
+      return undefined
+  }
+}
+
+// 合計・平均に使えるフィールド（数値と、日付・日時・時刻以外の表示形式の計算フィールド）
+const isNumericField = (field: ReportField): boolean => {
+  return field.type === 'NUMBER' || (field.type === 'CALC' && getGroupPers(field) === undefined)
+}
+
+// 最大・最小には、数値に加えて日付・日時・時刻のフィールドも使える
+const isComparableField = (field: ReportField): boolean => {
+  return isNumericField(field) || getGroupPers(field) !== undefined
+}
+
+// フォームのフィールド（テーブル内のフィールドを含む）をフィールドコードごとにまとめる
+const collectReportFields = (formProperties: Readonly<Record<string, KintoneFieldProperties>>): Map<string, ReportField> => {
+  const fields = new Map<string, ReportField>()
+  for (const [code, field] of Object.entries(formProperties)) {
+    fields.set(code, field)
+    if (field.type === 'SUBTABLE') {
+      for (const [columnCode, column] of Object.entries(field.fields)) {
+        fields.set(columnCode, column)
+      }
+    }
+  }
+  return fields
+}
+
+/**
+ * グラフの設定をフォームのフィールドと照合し、問題をすべて返す
+ * locale を省略した場合は setMessageLocale で設定したロケールのメッセージになる
+ *
+ * @example
+ * ```typescript
+ * collectReportIssues(reportsResponse.reports, fieldsResponse.properties)
+ * // [{ report: '月別売上', kind: 'aggregationFieldType', fieldCode: '顧客名', path: ['aggregations', 0], message: 'グラフ "月別売上": SUM では SINGLE_LINE_TEXT フィールド "顧客名" を集計できません' }]
+ * ```
+ */
+export const collectReportIssues = (
+  reports: Readonly<Record<string, ReportSettings>>,
+  formProperties: Readonly<Record<string, KintoneFieldProperties>>,
+  locale?: MessageLocale
+): ReportIssue[] => {
+  const fields = collectReportFields(formProperties)
+  const issues: ReportIssue[] = []
+
+  for (const [name, report] of Object.entries(reports)) {
+    const addIssue = (kind: ReportIssueKind, path: ReadonlyArray<string | number>, message: string, fieldCode?: string): void => {
+      issues.push({
+        report: name,
+        kind,
+        ...(fieldCode !== undefined ? { fieldCode } : {}),
+        path,
+        message,
+      })
+    }
+
+    report.groups.forEach(({ code, per }: ReportGroup, index) => {
+      const path = ['groups', index]
+      const field = fields.get(code)
+      if (!field) {
+        const message = formatMessage('reportUnknownField', { report: name, target: 'group', fieldCode: code }, locale)
+        addIssue('unknownField', path, message, code)
+        return
+      }
+      const target = { report: name, fieldType: field.type, fieldCode: code }
+      if (!GROUP_FIELD_TYPES.has(field.type)) {
+        addIssue('groupFieldType', path, formatMessage('reportGroupFieldType', target, locale), code)
+        return
+      }
+      const pers = getGroupPers(field)
+      if (pers === undefined && per !== undefined) {
+        addIssue('groupPer', path, formatMessage('reportGroupPerNotAllowed', { ...target, per }, locale), code)
+      } else if (pers !== undefined && (per === undefined || !pers.includes(per))) {
+        addIssue('groupPer', path, formatMessage('reportGroupPerRequired', { ...target, pers }, locale), code)
+      }
+    })
+
+    report.aggregations.forEach(({ type, code }: ReportAggregation, index) => {
+      const path = ['aggregations', index]
+      if (type === 'COUNT') {
+        return
+      }
+      if (code === undefined) {
+        addIssue('aggregationField', path, formatMessage('reportAggregationField', { report: name, aggregation: type }, locale))
+        return
+      }
+      const field = fields.get(code)
+      if (!field) {
+        const message = formatMessage('reportUnknownField', { report: name, target: 'aggregation', fieldCode: code }, locale)
+        addIssue('unknownField', path, message, code)
+        return
+      }
+      const allowed = type === 'SUM' || type === 'AVERAGE' ? isNumericField(field) : isComparableField(field)
+      if (!allowed) {
+        const target = { report: name, aggregation: type, fieldType: field.type, fieldCode: code }
+        addIssue('aggregationFieldType', path, formatMessage('reportAggregationFieldType', target, locale), code)
+      }
+    })
+  }
+
+  return issues
+}
+
+/**
+ * グラフの設定をフォームのフィールドと照合し、問題がある場合は ReportValidationError をスローする
+ */
+export const validateReports = (
+  reports: Readonly<Record<string, ReportSettings>>,
+  formProperties: Readonly<Record<string, KintoneFieldProperties>>,
+  locale?: MessageLocale
+): void => {
+  const issues = collectReportIssues(reports, formProperties, locale)
+  if (issues.length > 0) {
+    throw new ReportValidationError({ issues })
+  }
+}
+
+/**
+ * グラフの設定をフォームのフィールドと照合する（Effect版）
+ */
+export const validateReportsEffect = (
+  reports: Readonly<Record<string, ReportSettings>>,
+  formProperties: Readonly<Record<string, KintoneFieldProperties>>,
+  locale?: MessageLocale
+): Effect.Effect<void, ReportValidationError> => {
+  return Effect.suspend(() => {
+    const issues = collectReportIssues(reports, formProperties, locale)
+    return issues.length > 0 ? Effect.fail(new ReportValidationError({ issues })) : Effect.void
+  })
+}
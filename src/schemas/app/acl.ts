@@ -0,0 +1,189 @@
+import { Schema } from 'effect';
+import { KintoneUserSchema, KintoneOrganizationSchema, KintoneGroupSchema } from '../common.js';
+
+// アクセス権の設定API（アプリ: /k/v1/app/acl.json、レコード: /k/v1/record/acl.json、フィールド: /k/v1/field/acl.json）のスキーマ
+// 設定は上にあるものほど優先され、エンティティの判定には AppEntity と同じ { type, code } を使う
+
+// ユーザー・組織・グループのエンティティ（code はユーザー選択等の値の { code, name } と同じコード）
+export const AclUserEntitySchema = Schema.extend(
+  Schema.Struct({ type: Schema.Literal('USER') }),
+  KintoneUserSchema.pipe(Schema.pick('code'))
+);
+
+export const AclOrganizationEntitySchema = Schema.extend(
+  Schema.Struct({ type: Schema.Literal('ORGANIZATION') }),
+  KintoneOrganizationSchema.pipe(Schema.pick('code'))
+);
+
+export const AclGroupEntitySchema = Schema.extend(
+  Schema.Struct({ type: Schema.Literal('GROUP') }),
+  KintoneGroupSchema.pipe(Schema.pick('code'))
+);
+
+// ユーザー選択・組織選択・グループ選択・作成者等のフィールド（code はフィールドコード）
+export const AclFieldEntitySchema = Schema.Struct({
+  type: Schema.Literal('FIELD_ENTITY'),
+  code: Schema.String,
+});
+
+// レコードの作成者
+export const AclCreatorEntitySchema = Schema.Struct({
+  type: Schema.Literal('CREATOR'),
+  code: Schema.Null,
+});
+
+// アプリのアクセス権のエンティティ
+export const AppAclEntitySchema = Schema.Union(
+  AclUserEntitySchema,
+  AclOrganizationEntitySchema,
+  AclGroupEntitySchema,
+  AclCreatorEntitySchema
+);
+
+// レコード・フィールドのアクセス権のエンティティ
+export const RecordAclEntitySchema = Schema.Union(
+  AclUserEntitySchema,
+  AclOrganizationEntitySchema,
+  AclGroupEntitySchema,
+  AclFieldEntitySchema
+);
+
+// アプリのアクセス権（includeSubs は組織の下位組織を含めるか）
+export const AppRightSchema = Schema.Struct({
+  entity: AppAclEntitySchema,
+  includeSubs: Schema.Boolean,
+  appEditable: Schema.Boolean,
+  recordViewable: Schema.Boolean,
+  recordAddable: Schema.Boolean,
+  recordEditable: Schema.Boolean,
+  recordDeletable: Schema.Boolean,
+  recordImportable: Schema.Boolean,
+  recordExportable: Schema.Boolean,
+});
+
+// アプリのアクセス権の取得APIのレスポンススキーマ
+export const GetAppAclResponseSchema = Schema.Struct({
+  rights: Schema.Array(AppRightSchema),
+  revision: Schema.String,
+});
+
+// アプリのアクセス権の変更API（PUT /k/v1/preview/app/acl.json）のリクエストスキーマ（省略した権限は false）
+export const UpdateAppAclRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  rights: Schema.Array(
+    Schema.Struct({
+      entity: AppAclEntitySchema,
+      includeSubs: Schema.optional(Schema.Boolean),
+      appEditable: Schema.optional(Schema.Boolean),
+      recordViewable: Schema.optional(Schema.Boolean),
+      recordAddable: Schema.optional(Schema.Boolean),
+      recordEditable: Schema.optional(Schema.Boolean),
+      recordDeletable: Schema.optional(Schema.Boolean),
+      recordImportable: Schema.optional(Schema.Boolean),
+      recordExportable: Schema.optional(Schema.Boolean),
+    })
+  ),
+  revision: Schema.optional(Schema.String),
+});
+
+// レコードのアクセス権のエンティティごとの権限
+export const RecordRightEntitySchema = Schema.Struct({
+  entity: RecordAclEntitySchema,
+  viewable: Schema.Boolean,
+  editable: Schema.Boolean,
+  deletable: Schema.Boolean,
+  includeSubs: Schema.Boolean,
+});
+
+// レコードのアクセス権（filterCond はアクセス権を適用するレコードの条件、空文字列はすべてのレコード）
+export const RecordRightSchema = Schema.Struct({
+  filterCond: Schema.String,
+  entities: Schema.Array(RecordRightEntitySchema),
+});
+
+// レコードのアクセス権の取得APIのレスポンススキーマ
+export const GetRecordAclResponseSchema = Schema.Struct({
+  rights: Schema.Array(RecordRightSchema),
+  revision: Schema.String,
+});
+
+// レコードのアクセス権の変更API（PUT /k/v1/preview/record/acl.json）のリクエストスキーマ
+export const UpdateRecordAclRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  rights: Schema.Array(
+    Schema.Struct({
+      filterCond: Schema.optional(Schema.String),
+      entities: Schema.Array(
+        Schema.Struct({
+          entity: RecordAclEntitySchema,
+          viewable: Schema.optional(Schema.Boolean),
+          editable: Schema.optional(Schema.Boolean),
+          deletable: Schema.optional(Schema.Boolean),
+          includeSubs: Schema.optional(Schema.Boolean),
+        })
+      ),
+    })
+  ),
+  revision: Schema.optional(Schema.String),
+});
+
+/**
+ * フィールドの権限
+ * - WRITE: 閲覧・編集できる
+ * - READ: 閲覧のみ
+ * - NONE: 閲覧できない
+ */
+export const FieldAccessibilitySchema = Schema.Literal('WRITE', 'READ', 'NONE');
+
+// フィールドのアクセス権のエンティティごとの権限
+export const FieldRightEntitySchema = Schema.Struct({
+  accessibility: FieldAccessibilitySchema,
+  entity: RecordAclEntitySchema,
+  includeSubs: Schema.Boolean,
+});
+
+// フィールドのアクセス権（code はフィールドコード）
+export const FieldRightSchema = Schema.Struct({
+  code: Schema.String,
+  entities: Schema.Array(FieldRightEntitySchema),
+});
+
+// フィールドのアクセス権の取得APIのレスポンススキーマ
+export const GetFieldAclResponseSchema = Schema.Struct({
+  rights: Schema.Array(FieldRightSchema),
+  revision: Schema.String,
+});
+
+// フィールドのアクセス権の変更API（PUT /k/v1/preview/field/acl.json）のリクエストスキーマ
+export const UpdateFieldAclRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  rights: Schema.Array(
+    Schema.Struct({
+      code: Schema.String,
+      entities: Schema.Array(
+        Schema.Struct({
+          accessibility: FieldAccessibilitySchema,
+          entity: RecordAclEntitySchema,
+          includeSubs: Schema.optional(Schema.Boolean),
+        })
+      ),
+    })
+  ),
+  revision: Schema.optional(Schema.String),
+});
+
+// 型定義のエクスポート
+export type AppAclEntity = Schema.Schema.Type<typeof AppAclEntitySchema>;
+export type RecordAclEntity = Schema.Schema.Type<typeof RecordAclEntitySchema>;
+export type AppRight = Schema.Schema.Type<typeof AppRightSchema>;
+export type GetAppAclResponse = Schema.Schema.Type<typeof GetAppAclResponseSchema>;
+export type UpdateAppAclRequest = Schema.Schema.Type<typeof UpdateAppAclRequestSchema>;
+export type RecordRightEntity = Schema.Schema.Type<typeof RecordRightEntitySchema>;
+export type RecordRight = Schema.Schema.Type<typeof RecordRightSchema>;
+export type GetRecordAclResponse = Schema.Schema.Type<typeof GetRecordAclResponseSchema>;
+export type UpdateRecordAclRequest = Schema.Schema.Type<typeof UpdateRecordAclRequestSchema>;
+export type FieldAccessibility = Schema.Schema.Type<typeof FieldAccessibilitySchema>;
+export type FieldRightEntity = Schema.Schema.Type<typeof FieldRightEntitySchema>;
+export type FieldRight = Schema.Schema.Type<typeof FieldRightSchema>;
+export type GetFieldAclResponse = Schema.Schema.Type<typeof GetFieldAclResponseSchema>;
+export type UpdateFieldAclRequest = Schema.Schema.Type<typeof UpdateFieldAclRequestSchema>;
@@ -0,0 +1,27 @@
+import { Schema } from 'effect';
+
+// アプリの設定（プロセス管理、アクセス権等）で使うエンティティ（ユーザー・組織・グループ等）
+
+/**
+ * エンティティのタイプ
+ * - USER / GROUP / ORGANIZATION: ユーザー・グループ（ロール）・組織（code はそれぞれのコード）
+ * - FIELD_ENTITY: ユーザー選択・組織選択・グループ選択・作成者等のフィールド（code はフィールドコード）
+ * - CREATOR: レコードの作成者（code は null）
+ * - CUSTOM_FIELD: カスタマイズで指定する項目（プロセス管理の作業者）
+ */
+export const AppEntityTypeSchema = Schema.Literal(
+  'USER',
+  'GROUP',
+  'ORGANIZATION',
+  'FIELD_ENTITY',
+  'CREATOR',
+  'CUSTOM_FIELD'
+);
+
+export const AppEntitySchema = Schema.Struct({
+  type: AppEntityTypeSchema,
+  code: Schema.NullOr(Schema.String),
+});
+
+export type AppEntityType = Schema.Schema.Type<typeof AppEntityTypeSchema>;
+export type AppEntity = Schema.Schema.Type<typeof AppEntitySchema>;
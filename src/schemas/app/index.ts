@@ -0,0 +1,5 @@
+export * from './entity.js'
+export * from './status.js'
+export * from './views.js'
+export * from './acl.js'
+export * from './reports.js'
\ No newline at end of file
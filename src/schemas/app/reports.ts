@@ -0,0 +1,154 @@
+import { Schema } from 'effect';
+
+// グラフの設定API（GET/PUT /k/v1/app/reports.json）のスキーマ
+
+// グラフの種類
+export const ReportChartTypeSchema = Schema.Literal(
+  'BAR',
+  'COLUMN',
+  'PIE',
+  'LINE',
+  'PIVOT_TABLE',
+  'TABLE',
+  'AREA',
+  'SPLINE',
+  'SPLINE_AREA'
+);
+
+// 表示モード（NORMAL: 集計値、STACKED: 積み上げ、PERCENTAGE: 割合）
+export const ReportChartModeSchema = Schema.Literal('NORMAL', 'STACKED', 'PERCENTAGE');
+
+// 日付・日時・時刻のフィールドで分類する単位
+export const ReportGroupPerSchema = Schema.Literal('YEAR', 'QUARTER', 'MONTH', 'WEEK', 'DAY', 'HOUR', 'MINUTE');
+
+// 分類する項目（最大3つ、code はフィールドコード）
+export const ReportGroupSchema = Schema.Struct({
+  code: Schema.String,
+  per: Schema.optional(ReportGroupPerSchema),
+});
+
+// 集計方法（COUNT はレコード数で、code を指定しない）
+export const ReportAggregationTypeSchema = Schema.Literal('COUNT', 'SUM', 'AVERAGE', 'MAX', 'MIN');
+
+export const ReportAggregationSchema = Schema.Struct({
+  type: ReportAggregationTypeSchema,
+  code: Schema.optional(Schema.String),
+});
+
+// ソート（by は集計値または分類する項目）
+export const ReportSortSchema = Schema.Struct({
+  by: Schema.Literal('TOTAL', 'GROUP1', 'GROUP2', 'GROUP3'),
+  order: Schema.Literal('ASC', 'DESC'),
+});
+
+// 定期レポートの日（"1" 〜 "31" または月末）
+const ReportDayOfMonthSchema = Schema.String;
+
+/**
+ * 定期レポートの集計の間隔
+ * - YEAR: 毎年 month 月 dayOfMonth 日の time
+ * - QUARTER: pattern の月の dayOfMonth 日の time
+ * - MONTH: 毎月 dayOfMonth 日の time
+ * - WEEK: 毎週 dayOfWeek の time
+ * - DAY: 毎日 time
+ * - HOUR: 毎時 minute 分
+ */
+export const PeriodicReportPeriodSchema = Schema.Union(
+  Schema.Struct({
+    every: Schema.Literal('YEAR'),
+    month: Schema.String,
+    dayOfMonth: ReportDayOfMonthSchema,
+    time: Schema.String,
+  }),
+  Schema.Struct({
+    every: Schema.Literal('QUARTER'),
+    pattern: Schema.Literal('JAN_APR_JUL_OCT', 'FEB_MAY_AUG_NOV', 'MAR_JUN_SEP_DEC'),
+    dayOfMonth: ReportDayOfMonthSchema,
+    time: Schema.String,
+  }),
+  Schema.Struct({
+    every: Schema.Literal('MONTH'),
+    dayOfMonth: ReportDayOfMonthSchema,
+    time: Schema.String,
+  }),
+  Schema.Struct({
+    every: Schema.Literal('WEEK'),
+    dayOfWeek: Schema.Literal('SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'),
+    time: Schema.String,
+  }),
+  Schema.Struct({
+    every: Schema.Literal('DAY'),
+    time: Schema.String,
+  }),
+  Schema.Struct({
+    every: Schema.Literal('HOUR'),
+    minute: Schema.String,
+  })
+);
+
+// 定期レポート（active は定期レポートを有効にするか）
+export const PeriodicReportSchema = Schema.Struct({
+  active: Schema.Boolean,
+  period: PeriodicReportPeriodSchema,
+});
+
+// グラフ（chartMode は表・クロス集計表・円グラフ等では返らない、periodicReport は設定していない場合 null）
+export const ReportSchema = Schema.Struct({
+  chartType: ReportChartTypeSchema,
+  chartMode: Schema.optional(ReportChartModeSchema),
+  id: Schema.String,
+  name: Schema.String,
+  index: Schema.String,
+  groups: Schema.Array(ReportGroupSchema).pipe(Schema.maxItems(3)),
+  aggregations: Schema.Array(ReportAggregationSchema),
+  filterCond: Schema.String,
+  sorts: Schema.Array(ReportSortSchema),
+  periodicReport: Schema.optional(Schema.NullOr(PeriodicReportSchema)),
+});
+
+// グラフの設定取得APIのレスポンススキーマ（reports のキーはグラフ名）
+export const GetReportsResponseSchema = Schema.Struct({
+  reports: Schema.Record({
+    key: Schema.String,
+    value: ReportSchema,
+  }),
+  revision: Schema.String,
+});
+
+// 変更APIのグラフ（id は指定しない、index は数値も指定できる）
+export const ReportForUpdateSchema = Schema.Struct({
+  chartType: ReportChartTypeSchema,
+  chartMode: Schema.optional(ReportChartModeSchema),
+  name: Schema.String,
+  index: Schema.Union(Schema.String, Schema.Number),
+  groups: Schema.Array(ReportGroupSchema).pipe(Schema.maxItems(3)),
+  aggregations: Schema.Array(ReportAggregationSchema),
+  filterCond: Schema.optional(Schema.String),
+  sorts: Schema.optional(Schema.Array(ReportSortSchema)),
+  periodicReport: Schema.optional(Schema.NullOr(PeriodicReportSchema)),
+});
+
+// グラフの設定変更API（PUT /k/v1/preview/app/reports.json）のリクエストスキーマ
+export const UpdateReportsRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  reports: Schema.Record({
+    key: Schema.String,
+    value: ReportForUpdateSchema,
+  }),
+  revision: Schema.optional(Schema.String),
+});
+
+// 型定義のエクスポート
+export type ReportChartType = Schema.Schema.Type<typeof ReportChartTypeSchema>;
+export type ReportChartMode = Schema.Schema.Type<typeof ReportChartModeSchema>;
+export type ReportGroupPer = Schema.Schema.Type<typeof ReportGroupPerSchema>;
+export type ReportGroup = Schema.Schema.Type<typeof ReportGroupSchema>;
+export type ReportAggregationType = Schema.Schema.Type<typeof ReportAggregationTypeSchema>;
+export type ReportAggregation = Schema.Schema.Type<typeof ReportAggregationSchema>;
+export type ReportSort = Schema.Schema.Type<typeof ReportSortSchema>;
+export type PeriodicReportPeriod = Schema.Schema.Type<typeof PeriodicReportPeriodSchema>;
+export type PeriodicReport = Schema.Schema.Type<typeof PeriodicReportSchema>;
+export type Report = Schema.Schema.Type<typeof ReportSchema>;
+export type GetReportsResponse = Schema.Schema.Type<typeof GetReportsResponseSchema>;
+export type ReportForUpdate = Schema.Schema.Type<typeof ReportForUpdateSchema>;
+export type UpdateReportsRequest = Schema.Schema.Type<typeof UpdateReportsRequestSchema>;
@@ -0,0 +1,96 @@
+import { Schema } from 'effect';
+import { AppEntitySchema } from './entity.js';
+
+// プロセス管理の設定API（GET/PUT /k/v1/app/status.json）のスキーマ
+
+// 作業者・実行できるユーザーのエンティティ（includeSubs: 下位組織を含む）
+export const ProcessEntitySchema = Schema.Struct({
+  entity: AppEntitySchema,
+  includeSubs: Schema.Boolean,
+});
+
+/**
+ * ステータスの作業者
+ * - ONE: 次のユーザーから作業者を選択（作業者は1人）
+ * - ALL: 次のユーザー全員（全員が実行するまで次のステータスに進まない）
+ * - ANY: 次のユーザーのうち1人
+ */
+export const ProcessAssigneeSchema = Schema.Struct({
+  type: Schema.Literal('ONE', 'ALL', 'ANY'),
+  entities: Schema.Array(ProcessEntitySchema),
+});
+
+// ステータス（index は表示順、APIからは文字列で返る）
+export const ProcessStateSchema = Schema.Struct({
+  name: Schema.String,
+  index: Schema.String,
+  assignee: ProcessAssigneeSchema,
+});
+
+/**
+ * アクション
+ * filterCond はアクションを実行できる条件（レコードのクエリの条件、空文字列は条件なし）
+ * type は PRIMARY（ボタン）・SECONDARY（その他のアクション）、executableUser はアクションを実行できるユーザー
+ */
+export const ProcessActionSchema = Schema.Struct({
+  name: Schema.String,
+  from: Schema.String,
+  to: Schema.String,
+  filterCond: Schema.String,
+  type: Schema.optional(Schema.Literal('PRIMARY', 'SECONDARY')),
+  executableUser: Schema.optional(
+    Schema.Struct({
+      entities: Schema.Array(ProcessEntitySchema),
+    })
+  ),
+});
+
+// プロセス管理の設定取得APIのレスポンススキーマ（一度も設定していないアプリは states / actions が null）
+export const GetProcessManagementResponseSchema = Schema.Struct({
+  enable: Schema.Boolean,
+  states: Schema.NullOr(
+    Schema.Record({
+      key: Schema.String,
+      value: ProcessStateSchema,
+    })
+  ),
+  actions: Schema.NullOr(Schema.Array(ProcessActionSchema)),
+  revision: Schema.String,
+});
+
+// 変更APIのステータス（index は数値も指定でき、assignee は省略できる）
+export const ProcessStateForUpdateSchema = Schema.Struct({
+  name: Schema.optional(Schema.String),
+  index: Schema.Union(Schema.String, Schema.Number),
+  assignee: Schema.optional(ProcessAssigneeSchema),
+});
+
+// 変更APIのアクション（filterCond は省略できる）
+export const ProcessActionForUpdateSchema = Schema.Struct({
+  ...ProcessActionSchema.fields,
+  filterCond: Schema.optional(Schema.String),
+});
+
+// プロセス管理の設定変更API（PUT /k/v1/preview/app/status.json）のリクエストスキーマ
+export const UpdateProcessManagementRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  enable: Schema.optional(Schema.Boolean),
+  states: Schema.optional(
+    Schema.Record({
+      key: Schema.String,
+      value: ProcessStateForUpdateSchema,
+    })
+  ),
+  actions: Schema.optional(Schema.Array(ProcessActionForUpdateSchema)),
+  revision: Schema.optional(Schema.String),
+});
+
+// 型定義のエクスポート
+export type ProcessEntity = Schema.Schema.Type<typeof ProcessEntitySchema>;
+export type ProcessAssignee = Schema.Schema.Type<typeof ProcessAssigneeSchema>;
+export type ProcessState = Schema.Schema.Type<typeof ProcessStateSchema>;
+export type ProcessAction = Schema.Schema.Type<typeof ProcessActionSchema>;
+export type GetProcessManagementResponse = Schema.Schema.Type<typeof GetProcessManagementResponseSchema>;
+export type ProcessStateForUpdate = Schema.Schema.Type<typeof ProcessStateForUpdateSchema>;
+export type ProcessActionForUpdate = Schema.Schema.Type<typeof ProcessActionForUpdateSchema>;
+export type UpdateProcessManagementRequest = Schema.Schema.Type<typeof UpdateProcessManagementRequestSchema>;
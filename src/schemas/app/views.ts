@@ -0,0 +1,101 @@
+import { Schema } from 'effect';
+
+// 一覧の設定API（GET/PUT /k/v1/app/views.json）のスキーマ
+
+// 一覧に共通の設定
+// filterCond は絞り込みの条件（クエリの条件）、sort はソート（"レコード番号 desc, 日付 asc"）、index は表示順
+const BaseViewFields = {
+  name: Schema.String,
+  filterCond: Schema.String,
+  sort: Schema.String,
+  index: Schema.String,
+};
+
+// 表形式の一覧（fields は表示するフィールドのフィールドコード）
+// builtinType はプロセス管理の「（作業者が自分）」の一覧の場合に ASSIGNEE
+export const ListViewSchema = Schema.Struct({
+  ...BaseViewFields,
+  type: Schema.Literal('LIST'),
+  id: Schema.String,
+  builtinType: Schema.optional(Schema.Literal('ASSIGNEE')),
+  fields: Schema.Array(Schema.String),
+});
+
+// カレンダー形式の一覧（date は日付のフィールド、title はタイトルに表示するフィールド）
+export const CalendarViewSchema = Schema.Struct({
+  ...BaseViewFields,
+  type: Schema.Literal('CALENDAR'),
+  id: Schema.String,
+  date: Schema.String,
+  title: Schema.String,
+});
+
+// カスタマイズ形式の一覧（html は表示するHTML、pager はページネーションを表示するか）
+export const CustomViewSchema = Schema.Struct({
+  ...BaseViewFields,
+  type: Schema.Literal('CUSTOM'),
+  id: Schema.String,
+  html: Schema.String,
+  pager: Schema.Boolean,
+  device: Schema.optional(Schema.Literal('DESKTOP', 'ANY')),
+});
+
+// 一覧のUnion
+export const ViewSchema = Schema.Union(ListViewSchema, CalendarViewSchema, CustomViewSchema);
+
+// 一覧の設定取得APIのレスポンススキーマ（views のキーは一覧名）
+export const GetViewsResponseSchema = Schema.Struct({
+  views: Schema.Record({
+    key: Schema.String,
+    value: ViewSchema,
+  }),
+  revision: Schema.String,
+});
+
+// 変更APIの一覧（id は指定しない、filterCond・sort は省略でき、index は数値も指定できる）
+const ViewForUpdateFields = {
+  name: Schema.String,
+  filterCond: Schema.optional(Schema.String),
+  sort: Schema.optional(Schema.String),
+  index: Schema.Union(Schema.String, Schema.Number),
+};
+
+export const ViewForUpdateSchema = Schema.Union(
+  Schema.Struct({
+    ...ViewForUpdateFields,
+    type: Schema.Literal('LIST'),
+    fields: Schema.optional(Schema.Array(Schema.String)),
+  }),
+  Schema.Struct({
+    ...ViewForUpdateFields,
+    type: Schema.Literal('CALENDAR'),
+    date: Schema.optional(Schema.String),
+    title: Schema.optional(Schema.String),
+  }),
+  Schema.Struct({
+    ...ViewForUpdateFields,
+    type: Schema.Literal('CUSTOM'),
+    html: Schema.optional(Schema.String),
+    pager: Schema.optional(Schema.Boolean),
+    device: Schema.optional(Schema.Literal('DESKTOP', 'ANY')),
+  })
+);
+
+// 一覧の設定変更API（PUT /k/v1/preview/app/views.json）のリクエストスキーマ
+export const UpdateViewsRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  views: Schema.Record({
+    key: Schema.String,
+    value: ViewForUpdateSchema,
+  }),
+  revision: Schema.optional(Schema.String),
+});
+
+// 型定義のエクスポート
+export type ListView = Schema.Schema.Type<typeof ListViewSchema>;
+export type CalendarView = Schema.Schema.Type<typeof CalendarViewSchema>;
+export type CustomView = Schema.Schema.Type<typeof CustomViewSchema>;
+export type View = Schema.Schema.Type<typeof ViewSchema>;
+export type GetViewsResponse = Schema.Schema.Type<typeof GetViewsResponseSchema>;
+export type ViewForUpdate = Schema.Schema.Type<typeof ViewForUpdateSchema>;
+export type UpdateViewsRequest = Schema.Schema.Type<typeof UpdateViewsRequestSchema>;
@@ -0,0 +1,287 @@
+import { BigDecimal, DateTime, Option, ParseResult, Schema } from 'effect'
+import {
+  SingleLineTextFieldSchema,
+  MultiLineTextFieldSchema,
+  RichTextFieldSchema,
+  CalcFieldSchema,
+  RadioButtonFieldSchema,
+  CheckBoxFieldSchema,
+  MultiSelectFieldSchema,
+  DropDownFieldSchema,
+  LinkFieldSchema,
+  UserSelectFieldSchema,
+  OrganizationSelectFieldSchema,
+  GroupSelectFieldSchema,
+  RecordNumberFieldSchema,
+  CreatorFieldSchema,
+  ModifierFieldSchema,
+  StatusFieldSchema,
+  StatusAssigneeFieldSchema,
+  CategoryFieldSchema,
+  LookupFieldSchema,
+} from './fields.js'
+
+// ドメイン型レイヤー（オプトイン）
+// kintoneのワイヤーフォーマット（文字列）を実際の値（BigDecimal, DateTime等）にデコードし、
+// encodeでは元のワイヤーフォーマットの文字列に戻す
+
+/**
+ * BigDecimalを小数点以下の桁数を保ったまま文字列化する
+ * （BigDecimal.formatは末尾の0を落とすため、"1.50"を"1.50"のまま書き戻せるようにする）
+ */
+const formatBigDecimal = (n: BigDecimal.BigDecimal): string => {
+  if (n.scale <= 0) {
+    return BigDecimal.format(n)
+  }
+  const negative = n.value < 0n
+  const digits = (negative ? -n.value : n.value).toString().padStart(n.scale + 1, '0')
+  const integerPart = digits.slice(0, digits.length - n.scale)
+  const fractionPart = digits.slice(digits.length - n.scale)
+  return `${negative ? '-' : ''}${integerPart}.${fractionPart}`
+}
+
+// kintoneの数値の形式（指数表記・16進数・前後の空白は受け付けない）
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/
+
+// 数値文字列 ⇔ BigDecimal
+// 指数表記等を受け付けると "1e3" が "1000" に書き戻されるため、kintoneの形式の文字列のみをデコードする
+export const BigDecimalFromKintoneString = Schema.transformOrFail(
+  Schema.String,
+  Schema.BigDecimalFromSelf,
+  {
+    strict: true,
+    decode: (value, _, ast) =>
+      Option.match(NUMBER_PATTERN.test(value) ? BigDecimal.fromString(value) : Option.none(), {
+        onNone: () =>
+          ParseResult.fail(new ParseResult.Type(ast, value, `数値として解釈できません: "${value}"`)),
+        onSome: (n) => ParseResult.succeed(n),
+      }),
+    encode: (n) => ParseResult.succeed(formatBigDecimal(n)),
+  }
+)
+
+// 空の数値（REST APIは "" を返す）⇔ null
+// 0 として書き戻さないよう null にデコードし、encode では書き込み時の空値（null）にする
+const EmptyNumberString = Schema.transform(Schema.Literal(''), Schema.Null, {
+  strict: true,
+  decode: () => null,
+  encode: () => '' as const,
+})
+
+// 日付（YYYY-MM-DD）
+export const CalendarDateSchema = Schema.Struct({
+  year: Schema.Int,
+  month: Schema.Int.pipe(Schema.between(1, 12)),
+  day: Schema.Int.pipe(Schema.between(1, 31)),
+})
+
+// 時刻（HH:mm）
+export const LocalTimeSchema = Schema.Struct({
+  hour: Schema.Int.pipe(Schema.between(0, 23)),
+  minute: Schema.Int.pipe(Schema.between(0, 59)),
+})
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/
+// kintoneの日時の形式（YYYY-MM-DDTHH:mm:ssZ または時差付き、encode の結果を読み戻せるようミリ秒も受け付ける）
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?(Z|[+-]\d{2}:\d{2})$/
+// 整数の形式（符号・16進数・前後の空白は受け付けない）
+const INT_PATTERN = /^\d+$/
+
+const pad = (n: number, length = 2): string => String(n).padStart(length, '0')
+
+// 日付文字列 ⇔ CalendarDate
+export const CalendarDateFromString = Schema.transformOrFail(
+  Schema.String,
+  CalendarDateSchema,
+  {
+    strict: true,
+    decode: (value, _, ast) => {
+      const match = DATE_PATTERN.exec(value)
+      if (match) {
+        const year = Number(match[1])
+        const month = Number(match[2])
+        const day = Number(match[3])
+        // 存在しない日付（2024-02-30など）を除外する
+        const date = new Date(Date.UTC(year, month - 1, day))
+        if (date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+          return ParseResult.succeed({ year, month, day })
+        }
+      }
+      return ParseResult.fail(new ParseResult.Type(ast, value, `日付として解釈できません: "${value}"`))
+    },
+    encode: ({ year, month, day }) =>
+      ParseResult.succeed(`${pad(year, 4)}-${pad(month)}-${pad(day)}`),
+  }
+)
+
+// 時刻文字列 ⇔ LocalTime
+export const LocalTimeFromString = Schema.transformOrFail(
+  Schema.String,
+  LocalTimeSchema,
+  {
+    strict: true,
+    decode: (value, _, ast) => {
+      const match = TIME_PATTERN.exec(value)
+      if (match) {
+        const hour = Number(match[1])
+        const minute = Number(match[2])
+        if (hour <= 23 && minute <= 59) {
+          return ParseResult.succeed({ hour, minute })
+        }
+      }
+      return ParseResult.fail(new ParseResult.Type(ast, value, `時刻として解釈できません: "${value}"`))
+    },
+    encode: ({ hour, minute }) => ParseResult.succeed(`${pad(hour)}:${pad(minute)}`),
+  }
+)
+
+// 日時文字列 ⇔ DateTime.Utc
+// kintoneの日時はミリ秒を含まない形式（2012-01-11T11:30:00Z）のため、encode時もその形式に戻す
+// DateTime.make は "Jan 1 2024" のような形式も受け付けるため、先にkintoneの形式かを確認する
+export const DateTimeUtcFromKintoneString = Schema.transformOrFail(
+  Schema.String,
+  Schema.DateTimeUtcFromSelf,
+  {
+    strict: true,
+    decode: (value, _, ast) =>
+      Option.match(DATETIME_PATTERN.test(value) ? DateTime.make(value) : Option.none(), {
+        onNone: () =>
+          ParseResult.fail(new ParseResult.Type(ast, value, `日時として解釈できません: "${value}"`)),
+        onSome: (dateTime) => ParseResult.succeed(DateTime.toUtc(dateTime)),
+      }),
+    encode: (dateTime) => ParseResult.succeed(DateTime.formatIso(dateTime).replace(/\.000Z$/, 'Z')),
+  }
+)
+
+// 整数文字列 ⇔ number
+export const IntFromKintoneString = Schema.String.pipe(
+  Schema.pattern(INT_PATTERN, { message: () => '整数の文字列ではありません' }),
+  Schema.compose(Schema.NumberFromString),
+  Schema.int()
+)
+
+// ファイル情報（sizeをnumberとして扱う）
+export const DomainKintoneFileSchema = Schema.Struct({
+  contentType: Schema.String,
+  fileKey: Schema.String,
+  name: Schema.String,
+  size: IntFromKintoneString,
+})
+
+// ドメイン型のフィールドスキーマ
+export const DomainNumberFieldSchema = Schema.Struct({
+  type: Schema.Literal('NUMBER'),
+  value: Schema.Union(BigDecimalFromKintoneString, Schema.Null, EmptyNumberString),
+})
+
+export const DomainDateFieldSchema = Schema.Struct({
+  type: Schema.Literal('DATE'),
+  value: Schema.NullOr(CalendarDateFromString),
+})
+
+export const DomainTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('TIME'),
+  value: Schema.NullOr(LocalTimeFromString),
+})
+
+export const DomainDateTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('DATETIME'),
+  value: Schema.NullOr(DateTimeUtcFromKintoneString),
+})
+
+export const DomainFileFieldSchema = Schema.Struct({
+  type: Schema.Literal('FILE'),
+  value: Schema.Array(DomainKintoneFileSchema),
+})
+
+export const DomainCreatedTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('CREATED_TIME'),
+  value: DateTimeUtcFromKintoneString,
+})
+
+export const DomainUpdatedTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('UPDATED_TIME'),
+  value: DateTimeUtcFromKintoneString,
+})
+
+export const DomainRecordIdFieldSchema = Schema.Struct({
+  type: Schema.Literal('RECORD_ID'),
+  value: IntFromKintoneString,
+})
+
+export const DomainRevisionFieldSchema = Schema.Struct({
+  type: Schema.Literal('REVISION'),
+  value: IntFromKintoneString,
+})
+
+// レコード取得APIの $id / $revision
+export const DomainSystemIdFieldSchema = Schema.Struct({
+  type: Schema.Literal('__ID__'),
+  value: IntFromKintoneString,
+})
+
+export const DomainSystemRevisionFieldSchema = Schema.Struct({
+  type: Schema.Literal('__REVISION__'),
+  value: IntFromKintoneString,
+})
+
+// 全フィールドタイプのUnion（ドメイン型を持たないフィールドは通常のスキーマを使用）
+export const DomainKintoneFieldSchema = Schema.Union(
+  SingleLineTextFieldSchema,
+  MultiLineTextFieldSchema,
+  RichTextFieldSchema,
+  DomainNumberFieldSchema,
+  CalcFieldSchema,
+  RadioButtonFieldSchema,
+  CheckBoxFieldSchema,
+  MultiSelectFieldSchema,
+  DropDownFieldSchema,
+  DomainDateFieldSchema,
+  DomainTimeFieldSchema,
+  DomainDateTimeFieldSchema,
+  LinkFieldSchema,
+  UserSelectFieldSchema,
+  OrganizationSelectFieldSchema,
+  GroupSelectFieldSchema,
+  DomainFileFieldSchema,
+  RecordNumberFieldSchema,
+  CreatorFieldSchema,
+  DomainCreatedTimeFieldSchema,
+  ModifierFieldSchema,
+  DomainUpdatedTimeFieldSchema,
+  StatusFieldSchema,
+  StatusAssigneeFieldSchema,
+  CategoryFieldSchema,
+  LookupFieldSchema,
+  DomainRecordIdFieldSchema,
+  DomainRevisionFieldSchema,
+  DomainSystemIdFieldSchema,
+  DomainSystemRevisionFieldSchema,
+)
+
+// サブテーブルのスキーマ
+export const DomainSubtableFieldSchema = Schema.Struct({
+  type: Schema.Literal('SUBTABLE'),
+  value: Schema.Array(
+    Schema.Struct({
+      id: Schema.String,
+      value: Schema.Record({
+        key: Schema.String,
+        value: DomainKintoneFieldSchema,
+      }),
+    })
+  ),
+})
+
+// レコードのスキーマ
+export const DomainKintoneRecordSchema = Schema.Record({
+  key: Schema.String,
+  value: Schema.Union(DomainKintoneFieldSchema, DomainSubtableFieldSchema),
+})
+
+export type CalendarDate = Schema.Schema.Type<typeof CalendarDateSchema>
+export type LocalTime = Schema.Schema.Type<typeof LocalTimeSchema>
+export type DomainKintoneField = Schema.Schema.Type<typeof DomainKintoneFieldSchema>
+export type DomainSubtableField = Schema.Schema.Type<typeof DomainSubtableFieldSchema>
+export type DomainKintoneRecord = Schema.Schema.Type<typeof DomainKintoneRecordSchema>
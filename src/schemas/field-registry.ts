@@ -0,0 +1,419 @@
+import type { Schema } from 'effect'
+import type { KintoneFieldType } from '../types/kintone.js'
+import {
+  SingleLineTextFieldSchema,
+  MultiLineTextFieldSchema,
+  RichTextFieldSchema,
+  NumberFieldSchema,
+  CalcFieldSchema,
+  RadioButtonFieldSchema,
+  CheckBoxFieldSchema,
+  MultiSelectFieldSchema,
+  DropDownFieldSchema,
+  DateFieldSchema,
+  TimeFieldSchema,
+  DateTimeFieldSchema,
+  LinkFieldSchema,
+  UserSelectFieldSchema,
+  OrganizationSelectFieldSchema,
+  GroupSelectFieldSchema,
+  FileFieldSchema,
+  RecordNumberFieldSchema,
+  CreatorFieldSchema,
+  CreatedTimeFieldSchema,
+  ModifierFieldSchema,
+  UpdatedTimeFieldSchema,
+  StatusFieldSchema,
+  StatusAssigneeFieldSchema,
+  CategoryFieldSchema,
+  LookupFieldSchema,
+  RecordIdFieldSchema,
+  RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
+} from './fields.js'
+import { SubtableFieldSchema } from './record.js'
+import {
+  SingleLineTextWriteSchema,
+  MultiLineTextWriteSchema,
+  RichTextWriteSchema,
+  NumberWriteSchema,
+  RadioButtonWriteSchema,
+  CheckBoxWriteSchema,
+  MultiSelectWriteSchema,
+  DropDownWriteSchema,
+  DateWriteSchema,
+  TimeWriteSchema,
+  DateTimeWriteSchema,
+  LinkWriteSchema,
+  UserSelectWriteSchema,
+  OrganizationSelectWriteSchema,
+  GroupSelectWriteSchema,
+  FileWriteSchema,
+  SubtableWriteSchema,
+} from './write-fields.js'
+import {
+  SingleLineTextFieldPropertiesSchema,
+  MultiLineTextFieldPropertiesSchema,
+  RichTextFieldPropertiesSchema,
+  NumberFieldPropertiesSchema,
+  CalcFieldPropertiesSchema,
+  RadioButtonFieldPropertiesSchema,
+  CheckBoxFieldPropertiesSchema,
+  MultiSelectFieldPropertiesSchema,
+  DropDownFieldPropertiesSchema,
+  DateFieldPropertiesSchema,
+  TimeFieldPropertiesSchema,
+  DateTimeFieldPropertiesSchema,
+  LinkFieldPropertiesSchema,
+  UserSelectFieldPropertiesSchema,
+  OrganizationSelectFieldPropertiesSchema,
+  GroupSelectFieldPropertiesSchema,
+  FileFieldPropertiesSchema,
+  ReferenceTableFieldPropertiesSchema,
+  RecordNumberFieldPropertiesSchema,
+  CreatorFieldPropertiesSchema,
+  CreatedTimeFieldPropertiesSchema,
+  ModifierFieldPropertiesSchema,
+  UpdatedTimeFieldPropertiesSchema,
+  StatusFieldPropertiesSchema,
+  StatusAssigneeFieldPropertiesSchema,
+  CategoryFieldPropertiesSchema,
+  SubtableFieldPropertiesSchema,
+  GroupFieldPropertiesSchema,
+  RecordIdFieldPropertiesSchema,
+  RevisionFieldPropertiesSchema,
+  SystemIdFieldPropertiesSchema,
+  SystemRevisionFieldPropertiesSchema,
+  SpacerFieldPropertiesSchema,
+  LabelFieldPropertiesSchema,
+  SubtableSingleLineTextFieldPropertiesSchema,
+  SubtableMultiLineTextFieldPropertiesSchema,
+  SubtableRichTextFieldPropertiesSchema,
+  SubtableNumberFieldPropertiesSchema,
+  SubtableCalcFieldPropertiesSchema,
+  SubtableRadioButtonFieldPropertiesSchema,
+  SubtableCheckBoxFieldPropertiesSchema,
+  SubtableMultiSelectFieldPropertiesSchema,
+  SubtableDropDownFieldPropertiesSchema,
+  SubtableDateFieldPropertiesSchema,
+  SubtableTimeFieldPropertiesSchema,
+  SubtableDateTimeFieldPropertiesSchema,
+  SubtableLinkFieldPropertiesSchema,
+  SubtableUserSelectFieldPropertiesSchema,
+  SubtableOrganizationSelectFieldPropertiesSchema,
+  SubtableGroupSelectFieldPropertiesSchema,
+  SubtableFileFieldPropertiesSchema,
+} from './form/fields.js'
+
+// フィールドタイプのレジストリ
+// フィールドタイプごとのスキーマ（レコード・フォーム設定・サブテーブル内のフォーム設定・書き込み）と
+// 空値・読み取り専用などの性質を1か所で定義し、デコード・バリデーション・フォームからの変換はここを参照する
+
+/**
+ * フィールドの空値（書き込み時・デコード時の正規化で使う）
+ */
+export type FieldEmptyValue = '' | null | readonly []
+
+/**
+ * フィールドタイプの定義
+ */
+export interface FieldTypeDefinition {
+  /** レコードのフィールドスキーマ（レコードに含まれないタイプは undefined） */
+  readonly recordSchema: Schema.Schema.AnyNoContext | undefined
+  /** フォームフィールド取得APIの properties のスキーマ（フォームに現れないタイプは undefined） */
+  readonly propertiesSchema: Schema.Schema.AnyNoContext | undefined
+  /** サブテーブル内のフィールドの properties のスキーマ（サブテーブルに置けないタイプは undefined） */
+  readonly subtablePropertiesSchema: Schema.Schema.AnyNoContext | undefined
+  /** レコード追加/更新APIの value のスキーマ（書き込めないタイプは undefined） */
+  readonly writeSchema: Schema.Schema.AnyNoContext | undefined
+  /** 書き込み時の空値 */
+  readonly emptyValue: FieldEmptyValue
+  /** デコード時に emptyValue に正規化する値（APIが空の場合に返す値） */
+  readonly emptyInputs: ReadonlyArray<unknown>
+  /** レコード追加/更新APIで値を設定できない */
+  readonly readOnly: boolean
+  /** 空値を設定できない */
+  readonly nonEmpty: boolean
+}
+
+const defineFieldType = (definition: Partial<FieldTypeDefinition>): FieldTypeDefinition => ({
+  recordSchema: undefined,
+  propertiesSchema: undefined,
+  subtablePropertiesSchema: undefined,
+  writeSchema: undefined,
+  emptyValue: '',
+  emptyInputs: [],
+  readOnly: false,
+  nonEmpty: false,
+  ...definition,
+})
+
+// APIが空の場合に返す値
+const UNDEFINED_ONLY: ReadonlyArray<unknown> = [undefined]
+const UNDEFINED_OR_EMPTY_STRING: ReadonlyArray<unknown> = [undefined, '']
+const UNDEFINED_OR_NULL: ReadonlyArray<unknown> = [undefined, null]
+
+/**
+ * フィールドタイプのレジストリ（KintoneFieldType のすべてのタイプを持つ）
+ */
+export const KintoneFieldTypeRegistry: { readonly [T in KintoneFieldType]: FieldTypeDefinition } = {
+  // 文字列系
+  SINGLE_LINE_TEXT: defineFieldType({
+    recordSchema: SingleLineTextFieldSchema,
+    propertiesSchema: SingleLineTextFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableSingleLineTextFieldPropertiesSchema,
+    writeSchema: SingleLineTextWriteSchema,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+  MULTI_LINE_TEXT: defineFieldType({
+    recordSchema: MultiLineTextFieldSchema,
+    propertiesSchema: MultiLineTextFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableMultiLineTextFieldPropertiesSchema,
+    writeSchema: MultiLineTextWriteSchema,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+  // リッチテキストは正規化しない
+  RICH_TEXT: defineFieldType({
+    recordSchema: RichTextFieldSchema,
+    propertiesSchema: RichTextFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableRichTextFieldPropertiesSchema,
+    writeSchema: RichTextWriteSchema,
+  }),
+  LINK: defineFieldType({
+    recordSchema: LinkFieldSchema,
+    propertiesSchema: LinkFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableLinkFieldPropertiesSchema,
+    writeSchema: LinkWriteSchema,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+  // ルックアップはフォーム上では SINGLE_LINE_TEXT または NUMBER の lookup プロパティとして定義される
+  LOOKUP: defineFieldType({
+    recordSchema: LookupFieldSchema,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+
+  // 数値・計算
+  NUMBER: defineFieldType({
+    recordSchema: NumberFieldSchema,
+    propertiesSchema: NumberFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableNumberFieldPropertiesSchema,
+    writeSchema: NumberWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_OR_EMPTY_STRING,
+  }),
+  CALC: defineFieldType({
+    recordSchema: CalcFieldSchema,
+    propertiesSchema: CalcFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableCalcFieldPropertiesSchema,
+    readOnly: true,
+  }),
+
+  // 選択系
+  RADIO_BUTTON: defineFieldType({
+    recordSchema: RadioButtonFieldSchema,
+    propertiesSchema: RadioButtonFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableRadioButtonFieldPropertiesSchema,
+    writeSchema: RadioButtonWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_OR_EMPTY_STRING,
+    nonEmpty: true,
+  }),
+  CHECK_BOX: defineFieldType({
+    recordSchema: CheckBoxFieldSchema,
+    propertiesSchema: CheckBoxFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableCheckBoxFieldPropertiesSchema,
+    writeSchema: CheckBoxWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+  MULTI_SELECT: defineFieldType({
+    recordSchema: MultiSelectFieldSchema,
+    propertiesSchema: MultiSelectFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableMultiSelectFieldPropertiesSchema,
+    writeSchema: MultiSelectWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+  DROP_DOWN: defineFieldType({
+    recordSchema: DropDownFieldSchema,
+    propertiesSchema: DropDownFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableDropDownFieldPropertiesSchema,
+    writeSchema: DropDownWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_OR_EMPTY_STRING,
+  }),
+
+  // 日付・時刻
+  DATE: defineFieldType({
+    recordSchema: DateFieldSchema,
+    propertiesSchema: DateFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableDateFieldPropertiesSchema,
+    writeSchema: DateWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+  TIME: defineFieldType({
+    recordSchema: TimeFieldSchema,
+    propertiesSchema: TimeFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableTimeFieldPropertiesSchema,
+    writeSchema: TimeWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_ONLY,
+  }),
+  DATETIME: defineFieldType({
+    recordSchema: DateTimeFieldSchema,
+    propertiesSchema: DateTimeFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableDateTimeFieldPropertiesSchema,
+    writeSchema: DateTimeWriteSchema,
+    emptyValue: null,
+    emptyInputs: UNDEFINED_OR_EMPTY_STRING,
+  }),
+
+  // ユーザー・組織・グループ選択、添付ファイル
+  USER_SELECT: defineFieldType({
+    recordSchema: UserSelectFieldSchema,
+    propertiesSchema: UserSelectFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableUserSelectFieldPropertiesSchema,
+    writeSchema: UserSelectWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+  ORGANIZATION_SELECT: defineFieldType({
+    recordSchema: OrganizationSelectFieldSchema,
+    propertiesSchema: OrganizationSelectFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableOrganizationSelectFieldPropertiesSchema,
+    writeSchema: OrganizationSelectWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+  GROUP_SELECT: defineFieldType({
+    recordSchema: GroupSelectFieldSchema,
+    propertiesSchema: GroupSelectFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableGroupSelectFieldPropertiesSchema,
+    writeSchema: GroupSelectWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+  FILE: defineFieldType({
+    recordSchema: FileFieldSchema,
+    propertiesSchema: FileFieldPropertiesSchema,
+    subtablePropertiesSchema: SubtableFileFieldPropertiesSchema,
+    writeSchema: FileWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+
+  // システムフィールド（読み取り専用）
+  RECORD_NUMBER: defineFieldType({
+    recordSchema: RecordNumberFieldSchema,
+    propertiesSchema: RecordNumberFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  CREATOR: defineFieldType({
+    recordSchema: CreatorFieldSchema,
+    propertiesSchema: CreatorFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  CREATED_TIME: defineFieldType({
+    recordSchema: CreatedTimeFieldSchema,
+    propertiesSchema: CreatedTimeFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  MODIFIER: defineFieldType({
+    recordSchema: ModifierFieldSchema,
+    propertiesSchema: ModifierFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  UPDATED_TIME: defineFieldType({
+    recordSchema: UpdatedTimeFieldSchema,
+    propertiesSchema: UpdatedTimeFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  STATUS: defineFieldType({
+    recordSchema: StatusFieldSchema,
+    propertiesSchema: StatusFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  // 作業者とカテゴリーは空配列を設定できない
+  STATUS_ASSIGNEE: defineFieldType({
+    recordSchema: StatusAssigneeFieldSchema,
+    propertiesSchema: StatusAssigneeFieldPropertiesSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+    readOnly: true,
+    nonEmpty: true,
+  }),
+  CATEGORY: defineFieldType({
+    recordSchema: CategoryFieldSchema,
+    propertiesSchema: CategoryFieldPropertiesSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+    readOnly: true,
+    nonEmpty: true,
+  }),
+  RECORD_ID: defineFieldType({
+    recordSchema: RecordIdFieldSchema,
+    propertiesSchema: RecordIdFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  REVISION: defineFieldType({
+    recordSchema: RevisionFieldSchema,
+    propertiesSchema: RevisionFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  __ID__: defineFieldType({
+    recordSchema: SystemIdFieldSchema,
+    propertiesSchema: SystemIdFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  __REVISION__: defineFieldType({
+    recordSchema: SystemRevisionFieldSchema,
+    propertiesSchema: SystemRevisionFieldPropertiesSchema,
+    readOnly: true,
+  }),
+
+  // サブテーブル（各行のセルは各フィールドタイプの定義で正規化する）
+  SUBTABLE: defineFieldType({
+    recordSchema: SubtableFieldSchema,
+    propertiesSchema: SubtableFieldPropertiesSchema,
+    writeSchema: SubtableWriteSchema,
+    emptyValue: [],
+    emptyInputs: UNDEFINED_OR_NULL,
+  }),
+
+  // レコードに値を持たないフォームの要素
+  REFERENCE_TABLE: defineFieldType({
+    propertiesSchema: ReferenceTableFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  GROUP: defineFieldType({
+    propertiesSchema: GroupFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  SPACER: defineFieldType({
+    propertiesSchema: SpacerFieldPropertiesSchema,
+    readOnly: true,
+  }),
+  LABEL: defineFieldType({
+    propertiesSchema: LabelFieldPropertiesSchema,
+    readOnly: true,
+  }),
+}
+
+/**
+ * フィールドタイプの定義を返す（未知のタイプは undefined）
+ */
+export const getFieldTypeDefinition = (type: string): FieldTypeDefinition | undefined => {
+  return Object.hasOwn(KintoneFieldTypeRegistry, type)
+    ? KintoneFieldTypeRegistry[type as KintoneFieldType]
+    : undefined
+}
+
+/**
+ * フィールドタイプの空値を返す（配列は呼び出しごとに新しい配列を返す）
+ */
+export const getFieldEmptyValue = (type: KintoneFieldType): string | null | never[] => {
+  const { emptyValue } = KintoneFieldTypeRegistry[type]
+  return Array.isArray(emptyValue) ? [] : (emptyValue as string | null)
+}
@@ -1,145 +1,158 @@
 import { Schema } from 'effect'
 import { KintoneUserSchema, KintoneOrganizationSchema, KintoneGroupSchema, KintoneFileSchema } from './common.js'
+import { fieldValueMessage } from '../messages.js'
 
 // 基本的なフィールドスキーマの定義
+// value の検証に失敗した場合は、メッセージのカタログ（messages.ts）の文言でエラーを報告する
 export const SingleLineTextFieldSchema = Schema.Struct({
   type: Schema.Literal('SINGLE_LINE_TEXT'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('SINGLE_LINE_TEXT')),
 })
 
 export const MultiLineTextFieldSchema = Schema.Struct({
   type: Schema.Literal('MULTI_LINE_TEXT'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('MULTI_LINE_TEXT')),
 })
 
 export const RichTextFieldSchema = Schema.Struct({
   type: Schema.Literal('RICH_TEXT'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('RICH_TEXT')),
 })
 
 export const NumberFieldSchema = Schema.Struct({
   type: Schema.Literal('NUMBER'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('NUMBER')),
 })
 
 export const CalcFieldSchema = Schema.Struct({
   type: Schema.Literal('CALC'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('CALC')),
 })
 
 export const RadioButtonFieldSchema = Schema.Struct({
   type: Schema.Literal('RADIO_BUTTON'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('RADIO_BUTTON')),
 })
 
 export const CheckBoxFieldSchema = Schema.Struct({
   type: Schema.Literal('CHECK_BOX'),
-  value: Schema.Array(Schema.String),
+  value: Schema.Array(Schema.String).annotations(fieldValueMessage('CHECK_BOX')),
 })
 
 export const MultiSelectFieldSchema = Schema.Struct({
   type: Schema.Literal('MULTI_SELECT'),
-  value: Schema.Array(Schema.String),
+  value: Schema.Array(Schema.String).annotations(fieldValueMessage('MULTI_SELECT')),
 })
 
 export const DropDownFieldSchema = Schema.Struct({
   type: Schema.Literal('DROP_DOWN'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('DROP_DOWN')),
 })
 
 export const DateFieldSchema = Schema.Struct({
   type: Schema.Literal('DATE'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('DATE')),
 })
 
 export const TimeFieldSchema = Schema.Struct({
   type: Schema.Literal('TIME'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('TIME')),
 })
 
 export const DateTimeFieldSchema = Schema.Struct({
   type: Schema.Literal('DATETIME'),
-  value: Schema.Union(Schema.String, Schema.Null),
+  value: Schema.Union(Schema.String, Schema.Null).annotations(fieldValueMessage('DATETIME')),
 })
 
 export const LinkFieldSchema = Schema.Struct({
   type: Schema.Literal('LINK'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('LINK')),
 })
 
 export const UserSelectFieldSchema = Schema.Struct({
   type: Schema.Literal('USER_SELECT'),
-  value: Schema.Array(KintoneUserSchema),
+  value: Schema.Array(KintoneUserSchema).annotations(fieldValueMessage('USER_SELECT')),
 })
 
 export const OrganizationSelectFieldSchema = Schema.Struct({
   type: Schema.Literal('ORGANIZATION_SELECT'),
-  value: Schema.Array(KintoneOrganizationSchema),
+  value: Schema.Array(KintoneOrganizationSchema).annotations(fieldValueMessage('ORGANIZATION_SELECT')),
 })
 
 export const GroupSelectFieldSchema = Schema.Struct({
   type: Schema.Literal('GROUP_SELECT'),
-  value: Schema.Array(KintoneGroupSchema),
+  value: Schema.Array(KintoneGroupSchema).annotations(fieldValueMessage('GROUP_SELECT')),
 })
 
 export const FileFieldSchema = Schema.Struct({
   type: Schema.Literal('FILE'),
-  value: Schema.Array(KintoneFileSchema),
+  value: Schema.Array(KintoneFileSchema).annotations(fieldValueMessage('FILE')),
 })
 
 export const RecordNumberFieldSchema = Schema.Struct({
   type: Schema.Literal('RECORD_NUMBER'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('RECORD_NUMBER')),
 })
 
 export const CreatorFieldSchema = Schema.Struct({
   type: Schema.Literal('CREATOR'),
-  value: KintoneUserSchema,
+  value: KintoneUserSchema.annotations(fieldValueMessage('CREATOR')),
 })
 
 export const CreatedTimeFieldSchema = Schema.Struct({
   type: Schema.Literal('CREATED_TIME'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('CREATED_TIME')),
 })
 
 export const ModifierFieldSchema = Schema.Struct({
   type: Schema.Literal('MODIFIER'),
-  value: KintoneUserSchema,
+  value: KintoneUserSchema.annotations(fieldValueMessage('MODIFIER')),
 })
 
 export const UpdatedTimeFieldSchema = Schema.Struct({
   type: Schema.Literal('UPDATED_TIME'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('UPDATED_TIME')),
 })
 
 export const StatusFieldSchema = Schema.Struct({
   type: Schema.Literal('STATUS'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('STATUS')),
 })
 
 export const StatusAssigneeFieldSchema = Schema.Struct({
   type: Schema.Literal('STATUS_ASSIGNEE'),
-  value: Schema.Array(KintoneUserSchema),
+  value: Schema.Array(KintoneUserSchema).annotations(fieldValueMessage('STATUS_ASSIGNEE')),
 })
 
 export const CategoryFieldSchema = Schema.Struct({
   type: Schema.Literal('CATEGORY'),
-  value: Schema.Array(Schema.String),
+  value: Schema.Array(Schema.String).annotations(fieldValueMessage('CATEGORY')),
 })
 
 export const LookupFieldSchema = Schema.Struct({
   type: Schema.Literal('LOOKUP'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('LOOKUP')),
 })
 
 export const RecordIdFieldSchema = Schema.Struct({
   type: Schema.Literal('RECORD_ID'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('RECORD_ID')),
 })
 
 export const RevisionFieldSchema = Schema.Struct({
   type: Schema.Literal('REVISION'),
-  value: Schema.String,
+  value: Schema.String.annotations(fieldValueMessage('REVISION')),
+})
+
+// レコード取得APIが $id, $revision に返すフィールド
+export const SystemIdFieldSchema = Schema.Struct({
+  type: Schema.Literal('__ID__'),
+  value: Schema.String.annotations(fieldValueMessage('__ID__')),
+})
+
+export const SystemRevisionFieldSchema = Schema.Struct({
+  type: Schema.Literal('__REVISION__'),
+  value: Schema.String.annotations(fieldValueMessage('__REVISION__')),
 })
 
 // 全フィールドタイプのUnion
@@ -172,4 +185,6 @@ export const KintoneFieldSchema = Schema.Union(
   LookupFieldSchema,
   RecordIdFieldSchema,
   RevisionFieldSchema,
-)
\ No newline at end of file
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
+)
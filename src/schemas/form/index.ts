@@ -1 +1,2 @@
-export * from './fields.js'
\ No newline at end of file
+export * from './fields.js'
+export * from './layout.js'
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { Schema } from 'effect';
+
+// フォームのレイアウト取得API（GET /k/v1/app/form/layout.json）のスキーマ
+// レイアウトは行（ROW）、テーブル（SUBTABLE）、グループ（GROUP）の配列で、
+// グループはその中に行のレイアウトを持つ
+
+// サイズはAPIからは文字列（"193"）で返り、更新時は数値も指定できる
+const LayoutSizeValueSchema = Schema.Union(Schema.String, Schema.Number);
+
+/**
+ * フィールドの大きさ
+ * - width: 幅
+ * - height: 高さ（スペース）
+ * - innerHeight: 入力欄の高さ（文字列（複数行）、リッチエディター）
+ */
+export const LayoutFieldSizeSchema = Schema.Struct({
+  width: Schema.optional(LayoutSizeValueSchema),
+  height: Schema.optional(LayoutSizeValueSchema),
+  innerHeight: Schema.optional(LayoutSizeValueSchema),
+});
+
+// レイアウトに配置できるフィールドのタイプ
+export const LayoutFieldTypeSchema = Schema.Literal(
+  'SINGLE_LINE_TEXT',
+  'MULTI_LINE_TEXT',
+  'RICH_TEXT',
+  'NUMBER',
+  'CALC',
+  'RADIO_BUTTON',
+  'CHECK_BOX',
+  'MULTI_SELECT',
+  'DROP_DOWN',
+  'DATE',
+  'TIME',
+  'DATETIME',
+  'LINK',
+  'USER_SELECT',
+  'ORGANIZATION_SELECT',
+  'GROUP_SELECT',
+  'FILE',
+  'REFERENCE_TABLE',
+  'RECORD_NUMBER',
+  'CREATOR',
+  'CREATED_TIME',
+  'MODIFIER',
+  'UPDATED_TIME'
+);
+
+// フィールド
+export const LayoutFieldElementSchema = Schema.Struct({
+  type: LayoutFieldTypeSchema,
+  code: Schema.String,
+  size: Schema.optional(LayoutFieldSizeSchema),
+});
+
+// ラベル（label はHTML）
+export const LayoutLabelElementSchema = Schema.Struct({
+  type: Schema.Literal('LABEL'),
+  label: Schema.String,
+  size: Schema.optional(LayoutFieldSizeSchema),
+});
+
+// スペース（elementId はカスタマイズで kintone.app.record.getSpaceElement に指定する要素ID）
+export const LayoutSpacerElementSchema = Schema.Struct({
+  type: Schema.Literal('SPACER'),
+  elementId: Schema.String,
+  size: Schema.optional(LayoutFieldSizeSchema),
+});
+
+// 罫線
+export const LayoutHrElementSchema = Schema.Struct({
+  type: Schema.Literal('HR'),
+  size: Schema.optional(LayoutFieldSizeSchema),
+});
+
+// 行に配置できる要素のUnion
+export const LayoutElementSchema = Schema.Union(
+  LayoutFieldElementSchema,
+  LayoutLabelElementSchema,
+  LayoutSpacerElementSchema,
+  LayoutHrElementSchema
+);
+
+// 行のレイアウト
+export const RowLayoutSchema = Schema.Struct({
+  type: Schema.Literal('ROW'),
+  fields: Schema.Array(LayoutElementSchema),
+});
+
+// テーブルのレイアウト（fields はテーブル内のフィールド）
+export const SubtableLayoutSchema = Schema.Struct({
+  type: Schema.Literal('SUBTABLE'),
+  code: Schema.String,
+  fields: Schema.Array(LayoutFieldElementSchema),
+});
+
+// グループのレイアウト（グループの中には行のみを配置できる）
+export const GroupLayoutSchema = Schema.Struct({
+  type: Schema.Literal('GROUP'),
+  code: Schema.String,
+  layout: Schema.Array(RowLayoutSchema),
+});
+
+// フォームのレイアウトの要素のUnion
+export const FormLayoutSchema = Schema.Union(RowLayoutSchema, SubtableLayoutSchema, GroupLayoutSchema);
+
+// フォームのレイアウト取得APIのレスポンススキーマ
+export const GetFormLayoutResponseSchema = Schema.Struct({
+  layout: Schema.Array(FormLayoutSchema),
+  revision: Schema.String,
+});
+
+// フォームのレイアウト変更API（PUT /k/v1/preview/app/form/layout.json）のリクエストスキーマ
+export const UpdateFormLayoutRequestSchema = Schema.Struct({
+  app: Schema.Union(Schema.String, Schema.Number),
+  layout: Schema.Array(FormLayoutSchema),
+  revision: Schema.optional(Schema.String),
+});
+
+// 型定義のエクスポート
+export type LayoutFieldSize = Schema.Schema.Type<typeof LayoutFieldSizeSchema>;
+export type LayoutFieldType = Schema.Schema.Type<typeof LayoutFieldTypeSchema>;
+export type LayoutFieldElement = Schema.Schema.Type<typeof LayoutFieldElementSchema>;
+export type LayoutLabelElement = Schema.Schema.Type<typeof LayoutLabelElementSchema>;
+export type LayoutSpacerElement = Schema.Schema.Type<typeof LayoutSpacerElementSchema>;
+export type LayoutHrElement = Schema.Schema.Type<typeof LayoutHrElementSchema>;
+export type LayoutElement = Schema.Schema.Type<typeof LayoutElementSchema>;
+export type RowLayout = Schema.Schema.Type<typeof RowLayoutSchema>;
+export type SubtableLayout = Schema.Schema.Type<typeof SubtableLayoutSchema>;
+export type GroupLayout = Schema.Schema.Type<typeof GroupLayoutSchema>;
+export type FormLayout = Schema.Schema.Type<typeof FormLayoutSchema>;
+export type GetFormLayoutResponse = Schema.Schema.Type<typeof GetFormLayoutResponseSchema>;
+export type UpdateFormLayoutRequest = Schema.Schema.Type<typeof UpdateFormLayoutRequestSchema>;
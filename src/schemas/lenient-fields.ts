@@ -0,0 +1,203 @@
+import { ParseResult, Schema } from 'effect'
+import type { KintoneFieldType } from '../types/kintone.js'
+import { KintoneFieldTypeRegistry, getFieldEmptyValue } from './field-registry.js'
+import { KintoneUserSchema, KintoneOrganizationSchema, KintoneGroupSchema, KintoneFileSchema } from './common.js'
+import {
+  CalcFieldSchema,
+  RecordNumberFieldSchema,
+  CreatorFieldSchema,
+  CreatedTimeFieldSchema,
+  ModifierFieldSchema,
+  UpdatedTimeFieldSchema,
+  StatusFieldSchema,
+  RecordIdFieldSchema,
+  RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
+} from './fields.js'
+
+// 寛容な入力を受け付けるフィールドスキーマ
+// decode: JS APIなどが返す空値のゆれを、フィールドタイプのレジストリの emptyInputs / emptyValue で正規化する（normalizeFieldValue と同じ規則）
+// encode: 正規化された値をそのまま返す（REST APIの書き込み時の空値と一致する）。空値を設定できないフィールドの空値はエラーにする
+
+const isEmptyValue = (value: unknown): boolean => value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+// emptyInputs に含まれる値を受け付けるスキーマ
+const emptyInputSchema = (input: unknown): Schema.Schema.AnyNoContext => {
+  if (input === undefined) {
+    return Schema.Undefined
+  }
+  return input === null ? Schema.Null : Schema.Literal(input as string)
+}
+
+// フィールドタイプの value を寛容にするスキーマ
+// 読み取り専用のフィールドは書き込まないため、空値を設定できない（nonEmpty）チェックは書き込めるフィールドのみに適用する
+const lenientValue = <A, I>(type: KintoneFieldType, value: Schema.Schema<A, I>) => {
+  const { emptyInputs, nonEmpty, readOnly } = KintoneFieldTypeRegistry[type]
+  return Schema.transformOrFail(
+    Schema.Union(value, ...emptyInputs.map(emptyInputSchema)),
+    Schema.typeSchema(value),
+    {
+      strict: false,
+      decode: (input) =>
+        ParseResult.succeed(emptyInputs.includes(input) ? getFieldEmptyValue(type) : input),
+      encode: (output, _, ast) =>
+        nonEmpty && !readOnly && isEmptyValue(output)
+          ? ParseResult.fail(new ParseResult.Type(ast, output, `${type} cannot be empty when writing`))
+          : ParseResult.succeed(output),
+    }
+  )
+}
+
+const lenientArrayValue = <A, I>(type: KintoneFieldType, item: Schema.Schema<A, I>) =>
+  lenientValue(type, Schema.Array(item))
+
+export const LenientSingleLineTextFieldSchema = Schema.Struct({
+  type: Schema.Literal('SINGLE_LINE_TEXT'),
+  value: lenientValue('SINGLE_LINE_TEXT', Schema.String),
+})
+
+export const LenientMultiLineTextFieldSchema = Schema.Struct({
+  type: Schema.Literal('MULTI_LINE_TEXT'),
+  value: lenientValue('MULTI_LINE_TEXT', Schema.String),
+})
+
+export const LenientRichTextFieldSchema = Schema.Struct({
+  type: Schema.Literal('RICH_TEXT'),
+  value: lenientValue('RICH_TEXT', Schema.String),
+})
+
+export const LenientNumberFieldSchema = Schema.Struct({
+  type: Schema.Literal('NUMBER'),
+  value: lenientValue('NUMBER', Schema.NullOr(Schema.String)),
+})
+
+export const LenientRadioButtonFieldSchema = Schema.Struct({
+  type: Schema.Literal('RADIO_BUTTON'),
+  value: lenientValue('RADIO_BUTTON', Schema.NullOr(Schema.String)),
+})
+
+export const LenientCheckBoxFieldSchema = Schema.Struct({
+  type: Schema.Literal('CHECK_BOX'),
+  value: lenientArrayValue('CHECK_BOX', Schema.String),
+})
+
+export const LenientMultiSelectFieldSchema = Schema.Struct({
+  type: Schema.Literal('MULTI_SELECT'),
+  value: lenientArrayValue('MULTI_SELECT', Schema.String),
+})
+
+export const LenientDropDownFieldSchema = Schema.Struct({
+  type: Schema.Literal('DROP_DOWN'),
+  value: lenientValue('DROP_DOWN', Schema.NullOr(Schema.String)),
+})
+
+export const LenientDateFieldSchema = Schema.Struct({
+  type: Schema.Literal('DATE'),
+  value: lenientValue('DATE', Schema.NullOr(Schema.String)),
+})
+
+export const LenientTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('TIME'),
+  value: lenientValue('TIME', Schema.NullOr(Schema.String)),
+})
+
+export const LenientDateTimeFieldSchema = Schema.Struct({
+  type: Schema.Literal('DATETIME'),
+  value: lenientValue('DATETIME', Schema.NullOr(Schema.String)),
+})
+
+export const LenientLinkFieldSchema = Schema.Struct({
+  type: Schema.Literal('LINK'),
+  value: lenientValue('LINK', Schema.String),
+})
+
+export const LenientUserSelectFieldSchema = Schema.Struct({
+  type: Schema.Literal('USER_SELECT'),
+  value: lenientArrayValue('USER_SELECT', KintoneUserSchema),
+})
+
+export const LenientOrganizationSelectFieldSchema = Schema.Struct({
+  type: Schema.Literal('ORGANIZATION_SELECT'),
+  value: lenientArrayValue('ORGANIZATION_SELECT', KintoneOrganizationSchema),
+})
+
+export const LenientGroupSelectFieldSchema = Schema.Struct({
+  type: Schema.Literal('GROUP_SELECT'),
+  value: lenientArrayValue('GROUP_SELECT', KintoneGroupSchema),
+})
+
+export const LenientFileFieldSchema = Schema.Struct({
+  type: Schema.Literal('FILE'),
+  value: lenientArrayValue('FILE', KintoneFileSchema),
+})
+
+export const LenientStatusAssigneeFieldSchema = Schema.Struct({
+  type: Schema.Literal('STATUS_ASSIGNEE'),
+  value: lenientArrayValue('STATUS_ASSIGNEE', KintoneUserSchema),
+})
+
+export const LenientCategoryFieldSchema = Schema.Struct({
+  type: Schema.Literal('CATEGORY'),
+  value: lenientArrayValue('CATEGORY', Schema.String),
+})
+
+export const LenientLookupFieldSchema = Schema.Struct({
+  type: Schema.Literal('LOOKUP'),
+  value: lenientValue('LOOKUP', Schema.String),
+})
+
+// 全フィールドタイプのUnion（空値の概念がない読み取り専用フィールドは通常のスキーマを使用）
+export const LenientKintoneFieldSchema = Schema.Union(
+  LenientSingleLineTextFieldSchema,
+  LenientMultiLineTextFieldSchema,
+  LenientRichTextFieldSchema,
+  LenientNumberFieldSchema,
+  CalcFieldSchema,
+  LenientRadioButtonFieldSchema,
+  LenientCheckBoxFieldSchema,
+  LenientMultiSelectFieldSchema,
+  LenientDropDownFieldSchema,
+  LenientDateFieldSchema,
+  LenientTimeFieldSchema,
+  LenientDateTimeFieldSchema,
+  LenientLinkFieldSchema,
+  LenientUserSelectFieldSchema,
+  LenientOrganizationSelectFieldSchema,
+  LenientGroupSelectFieldSchema,
+  LenientFileFieldSchema,
+  RecordNumberFieldSchema,
+  CreatorFieldSchema,
+  CreatedTimeFieldSchema,
+  ModifierFieldSchema,
+  UpdatedTimeFieldSchema,
+  StatusFieldSchema,
+  LenientStatusAssigneeFieldSchema,
+  LenientCategoryFieldSchema,
+  LenientLookupFieldSchema,
+  RecordIdFieldSchema,
+  RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
+)
+
+// サブテーブル: 行の空値はレジストリの定義（undefined/null → []）で正規化し、各セルは寛容なスキーマで正規化
+export const LenientSubtableFieldSchema = Schema.Struct({
+  type: Schema.Literal('SUBTABLE'),
+  value: lenientArrayValue(
+    'SUBTABLE',
+    Schema.Struct({
+      id: Schema.String,
+      value: Schema.Record({
+        key: Schema.String,
+        value: LenientKintoneFieldSchema,
+      }),
+    })
+  ),
+})
+
+// レコードのスキーマ（decodeで正規化、encodeで書き込み用の空値の形に戻す）
+export const LenientKintoneRecordSchema = Schema.Record({
+  key: Schema.String,
+  value: Schema.Union(LenientKintoneFieldSchema, LenientSubtableFieldSchema),
+})
@@ -0,0 +1,123 @@
+import { Schema } from 'effect'
+
+// レコード追加/更新API用のフィールドスキーマ
+// 読み取り用のスキーマ（fields.ts）と異なり type を持たず、APIが受け付ける value の形のみを定義する
+// 読み取り専用のフィールド（CALC, RECORD_NUMBER, CREATOR, STATUS 等）は書き込めないため定義しない
+
+// ユーザー・組織・グループはコードのみを指定する
+export const KintoneEntityCodeSchema = Schema.Struct({
+  code: Schema.String,
+})
+
+// 添付ファイルはアップロードしたファイルのfileKeyのみを指定する
+export const KintoneFileKeySchema = Schema.Struct({
+  fileKey: Schema.String,
+})
+
+export const SingleLineTextWriteSchema = Schema.Struct({
+  value: Schema.String,
+})
+
+export const MultiLineTextWriteSchema = Schema.Struct({
+  value: Schema.String,
+})
+
+export const RichTextWriteSchema = Schema.Struct({
+  value: Schema.String,
+})
+
+export const NumberWriteSchema = Schema.Struct({
+  value: Schema.NullOr(Schema.String),
+})
+
+// ラジオボタンは空値を設定できない
+export const RadioButtonWriteSchema = Schema.Struct({
+  value: Schema.String,
+})
+
+export const CheckBoxWriteSchema = Schema.Struct({
+  value: Schema.Array(Schema.String),
+})
+
+export const MultiSelectWriteSchema = Schema.Struct({
+  value: Schema.Array(Schema.String),
+})
+
+export const DropDownWriteSchema = Schema.Struct({
+  value: Schema.NullOr(Schema.String),
+})
+
+export const DateWriteSchema = Schema.Struct({
+  value: Schema.NullOr(Schema.String),
+})
+
+export const TimeWriteSchema = Schema.Struct({
+  value: Schema.NullOr(Schema.String),
+})
+
+export const DateTimeWriteSchema = Schema.Struct({
+  value: Schema.NullOr(Schema.String),
+})
+
+export const LinkWriteSchema = Schema.Struct({
+  value: Schema.String,
+})
+
+export const UserSelectWriteSchema = Schema.Struct({
+  value: Schema.Array(KintoneEntityCodeSchema),
+})
+
+export const OrganizationSelectWriteSchema = Schema.Struct({
+  value: Schema.Array(KintoneEntityCodeSchema),
+})
+
+export const GroupSelectWriteSchema = Schema.Struct({
+  value: Schema.Array(KintoneEntityCodeSchema),
+})
+
+export const FileWriteSchema = Schema.Struct({
+  value: Schema.Array(KintoneFileKeySchema),
+})
+
+// 書き込み可能な全フィールドのUnion
+export const KintoneFieldWriteSchema = Schema.Union(
+  SingleLineTextWriteSchema,
+  MultiLineTextWriteSchema,
+  RichTextWriteSchema,
+  NumberWriteSchema,
+  RadioButtonWriteSchema,
+  CheckBoxWriteSchema,
+  MultiSelectWriteSchema,
+  DropDownWriteSchema,
+  DateWriteSchema,
+  TimeWriteSchema,
+  DateTimeWriteSchema,
+  LinkWriteSchema,
+  UserSelectWriteSchema,
+  OrganizationSelectWriteSchema,
+  GroupSelectWriteSchema,
+  FileWriteSchema,
+)
+
+// サブテーブル（idを指定した行は更新、省略した行は追加される）
+export const SubtableWriteSchema = Schema.Struct({
+  value: Schema.Array(
+    Schema.Struct({
+      id: Schema.optional(Schema.String),
+      value: Schema.Record({
+        key: Schema.String,
+        value: KintoneFieldWriteSchema,
+      }),
+    })
+  ),
+})
+
+// レコード追加/更新APIの record パラメータ
+export const KintoneRecordWriteSchema = Schema.Record({
+  key: Schema.String,
+  value: Schema.Union(KintoneFieldWriteSchema, SubtableWriteSchema),
+})
+
+export type KintoneFieldWrite = Schema.Schema.Type<typeof KintoneFieldWriteSchema>
+export type SubtableWrite = Schema.Schema.Type<typeof SubtableWriteSchema>
+export type KintoneRecordWrite = Schema.Schema.Type<typeof KintoneRecordWriteSchema>
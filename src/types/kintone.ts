@@ -27,7 +27,11 @@ export type KintoneFieldType =
   | 'LOOKUP'
   | 'RECORD_ID'
   | 'REVISION'
+  | '__ID__'
+  | '__REVISION__'
   | 'SUBTABLE'
+  | 'REFERENCE_TABLE'
+  | 'GROUP'
   | 'SPACER'
   | 'LABEL'
 
@@ -3,6 +3,11 @@ import type {
   SubtableFieldProperties,
   KintoneFieldProperties,
 } from '../schemas/form/fields.js';
+import {
+  checkFieldConstraints,
+  type ConstrainedFieldProperties,
+} from '../constraints.js';
+import { getFieldTypeDefinition } from '../schemas/field-registry.js';
 
 import {
   SingleLineTextFieldSchema,
@@ -10,10 +15,6 @@ import {
   RichTextFieldSchema,
   NumberFieldSchema,
   CalcFieldSchema,
-  RadioButtonFieldSchema,
-  CheckBoxFieldSchema,
-  MultiSelectFieldSchema,
-  DropDownFieldSchema,
   DateFieldSchema,
   TimeFieldSchema,
   DateTimeFieldSchema,
@@ -32,7 +33,23 @@ import {
   CategoryFieldSchema,
   RecordIdFieldSchema,
   RevisionFieldSchema,
+  SystemIdFieldSchema,
+  SystemRevisionFieldSchema,
 } from '../schemas/fields.js';
+import {
+  SingleLineTextWriteSchema,
+  MultiLineTextWriteSchema,
+  RichTextWriteSchema,
+  NumberWriteSchema,
+  DateWriteSchema,
+  TimeWriteSchema,
+  DateTimeWriteSchema,
+  LinkWriteSchema,
+  UserSelectWriteSchema,
+  OrganizationSelectWriteSchema,
+  GroupSelectWriteSchema,
+  FileWriteSchema,
+} from '../schemas/write-fields.js';
 
 /**
  * Form field properties to record field schema converter
@@ -41,6 +58,7 @@ import {
  * This is a pure function with no side effects.
  * 
  * @param formField - Form field properties from Form Fields API
+ * @param options - Converter options (`strict` to enforce field constraints)
  * @returns Record field schema or undefined for non-data fields
  * 
  * @example
@@ -58,118 +76,147 @@ import {
  * ```
  */
 export function convertFormFieldToRecordSchema(
+  formField: KintoneFieldProperties | SubtableFieldProperties,
+  options?: RecordSchemaOptions
+) {
+  const recordSchema = convertFormFieldToBaseRecordSchema(formField);
+  if (!recordSchema || options?.strict !== true) {
+    return recordSchema;
+  }
+  return withFieldConstraints(recordSchema as Schema.Schema<unknown>, formField);
+}
+
+/**
+ * Options for the form to record schema converters
+ */
+export type RecordSchemaOptions = {
+  /**
+   * Turn the field properties into refinements on the record value:
+   * `required`, `minLength`/`maxLength` (SINGLE_LINE_TEXT, LINK),
+   * `minValue`/`maxValue` (NUMBER) and `protocol` (LINK).
+   * Subtable columns are checked row by row.
+   */
+  strict?: boolean;
+};
+
+/**
+ * Refine a record field schema with the constraints from its field properties
+ *
+ * Error messages name the field code and the violated constraint, and the issue path
+ * points at the offending value (`value` or `value[row].value[column].value` for subtables).
+ */
+function withFieldConstraints<A, I>(
+  schema: Schema.Schema<A, I>,
+  formField: KintoneFieldProperties | SubtableFieldProperties
+): Schema.Schema<A, I> {
+  return schema.pipe(
+    Schema.filter((field) => {
+      const issues = collectConstraintIssues(formField, field);
+      return issues.length === 0 ? true : issues;
+    })
+  );
+}
+
+function collectConstraintIssues(
+  formField: KintoneFieldProperties | SubtableFieldProperties,
+  field: unknown
+): Schema.FilterIssue[] {
+  const value = (field as { value?: unknown }).value;
+
+  if (formField.type !== 'SUBTABLE') {
+    return checkFieldConstraints(formField, value).map((violation) => ({
+      path: ['value'],
+      message: violation.message,
+    }));
+  }
+
+  const rows = Array.isArray(value) ? (value as { value?: Record<string, { value?: unknown }> }[]) : [];
+  return rows.flatMap((row, rowIndex) =>
+    Object.entries(formField.fields).flatMap(([columnCode, columnProps]) =>
+      checkFieldConstraints(
+        columnProps as ConstrainedFieldProperties,
+        row.value?.[columnCode]?.value
+      ).map((violation) => ({
+        path: ['value', rowIndex, 'value', columnCode, 'value'],
+        message: violation.message,
+      }))
+    )
+  );
+}
+
+/**
+ * Convert a form field to its record schema without constraint refinements
+ */
+function convertFormFieldToBaseRecordSchema(
   formField: KintoneFieldProperties | SubtableFieldProperties
 ) {
   switch (formField.type) {
-    // Text fields
-    case 'SINGLE_LINE_TEXT':
-      return SingleLineTextFieldSchema;
-    
-    case 'MULTI_LINE_TEXT':
-      return MultiLineTextFieldSchema;
-    
-    case 'RICH_TEXT':
-      return RichTextFieldSchema;
-    
-    // Number and calculation fields
-    case 'NUMBER':
-      return NumberFieldSchema;
-    
-    case 'CALC':
-      return CalcFieldSchema;
-    
-    // Selection fields
+    // Selection fields (value restricted to the option labels)
     case 'RADIO_BUTTON':
-      return RadioButtonFieldSchema;
-    
     case 'CHECK_BOX':
-      return CheckBoxFieldSchema;
-    
     case 'MULTI_SELECT':
-      return MultiSelectFieldSchema;
-    
     case 'DROP_DOWN':
-      return DropDownFieldSchema;
-    
-    // Date and time fields
-    case 'DATE':
-      return DateFieldSchema;
-    
-    case 'TIME':
-      return TimeFieldSchema;
-    
-    case 'DATETIME':
-      return DateTimeFieldSchema;
-    
-    // Link field
-    case 'LINK':
-      return LinkFieldSchema;
-    
-    // User/Organization/Group selection fields
-    case 'USER_SELECT':
-      return UserSelectFieldSchema;
-    
-    case 'ORGANIZATION_SELECT':
-      return OrganizationSelectFieldSchema;
-    
-    case 'GROUP_SELECT':
-      return GroupSelectFieldSchema;
-    
-    // File field
-    case 'FILE':
-      return FileFieldSchema;
-    
-    // Reference table (not included in record data directly)
-    case 'REFERENCE_TABLE':
-      // Reference tables are not included in record data
-      return undefined;
-    
-    // System fields
-    case 'RECORD_NUMBER':
-      return RecordNumberFieldSchema;
-    
-    case 'CREATOR':
-      return CreatorFieldSchema;
-    
-    case 'CREATED_TIME':
-      return CreatedTimeFieldSchema;
-    
-    case 'MODIFIER':
-      return ModifierFieldSchema;
-    
-    case 'UPDATED_TIME':
-      return UpdatedTimeFieldSchema;
-    
-    case 'STATUS':
-      return StatusFieldSchema;
-    
-    case 'STATUS_ASSIGNEE':
-      return StatusAssigneeFieldSchema;
-    
-    case 'CATEGORY':
-      return CategoryFieldSchema;
-    
-    // Special ID fields
-    case 'RECORD_ID':
-      return RecordIdFieldSchema;
-    
-    case 'REVISION':
-      return RevisionFieldSchema;
+      return convertOptionFieldToRecordSchema(formField.type, formField.options);
     
     // Subtable (special handling)
     case 'SUBTABLE':
       return convertSubtableFormToRecordSchema(formField);
     
-    // Layout fields (not included in record data)
-    case 'GROUP':
-      return undefined;
-    
+    // Other fields use the record schema from the field type registry
+    // (undefined for fields that are not included in record data, e.g. REFERENCE_TABLE and GROUP)
     default:
-      // Unknown field type
-      return undefined;
+      return getFieldTypeDefinition(formField.type)?.recordSchema;
+  }
+}
+
+/**
+ * Convert a selection field to a record schema whose value is restricted to the option labels
+ *
+ * RADIO_BUTTON and DROP_DOWN accept one of the labels (or null),
+ * CHECK_BOX and MULTI_SELECT accept an array of the labels.
+ *
+ * @param type - Selection field type
+ * @param options - Options from the field properties (keyed by label)
+ * @returns Record field schema
+ */
+function convertOptionFieldToRecordSchema(
+  type: 'RADIO_BUTTON' | 'CHECK_BOX' | 'MULTI_SELECT' | 'DROP_DOWN',
+  options: Record<string, { label: string }>
+) {
+  const label = convertOptionsToLabelSchema(options);
+
+  switch (type) {
+    case 'RADIO_BUTTON':
+    case 'DROP_DOWN':
+      return Schema.Struct({
+        type: Schema.Literal(type),
+        value: Schema.NullOr(label),
+      });
+
+    case 'CHECK_BOX':
+    case 'MULTI_SELECT':
+      return Schema.Struct({
+        type: Schema.Literal(type),
+        value: Schema.Array(label),
+      });
   }
 }
 
+/**
+ * Convert the options of a selection field to a schema accepting one of the option labels
+ */
+function convertOptionsToLabelSchema(
+  options: Record<string, { label: string }>
+): Schema.Schema<string> {
+  const labels = Object.values(options).map((option) => option.label);
+  // A field without options accepts no label at all
+  return isNonEmptyLabels(labels)
+    ? Schema.Literal(...labels)
+    : Schema.String.pipe(Schema.filter(() => false, { message: () => 'The field has no options' }));
+}
+
+const isNonEmptyLabels = (labels: string[]): labels is [string, ...string[]] => labels.length > 0;
+
 /**
  * Convert subtable field to record schema
  * 
@@ -183,42 +230,19 @@ function convertSubtableFieldToRecordSchema(
   const field = fieldProps as { type: string };
   
   switch (field.type) {
-    case 'SINGLE_LINE_TEXT':
-      return SingleLineTextFieldSchema;
-    case 'MULTI_LINE_TEXT':
-      return MultiLineTextFieldSchema;
-    case 'RICH_TEXT':
-      return RichTextFieldSchema;
-    case 'NUMBER':
-      return NumberFieldSchema;
-    case 'CALC':
-      return CalcFieldSchema;
     case 'RADIO_BUTTON':
-      return RadioButtonFieldSchema;
     case 'CHECK_BOX':
-      return CheckBoxFieldSchema;
     case 'MULTI_SELECT':
-      return MultiSelectFieldSchema;
     case 'DROP_DOWN':
-      return DropDownFieldSchema;
-    case 'DATE':
-      return DateFieldSchema;
-    case 'TIME':
-      return TimeFieldSchema;
-    case 'DATETIME':
-      return DateTimeFieldSchema;
-    case 'LINK':
-      return LinkFieldSchema;
-    case 'USER_SELECT':
-      return UserSelectFieldSchema;
-    case 'ORGANIZATION_SELECT':
-      return OrganizationSelectFieldSchema;
-    case 'GROUP_SELECT':
-      return GroupSelectFieldSchema;
-    case 'FILE':
-      return FileFieldSchema;
-    default:
-      return undefined;
+      return convertOptionFieldToRecordSchema(
+        field.type,
+        (fieldProps as { options?: Record<string, { label: string }> }).options ?? {}
+      );
+    default: {
+      // Only the field types that can be placed in a subtable
+      const definition = getFieldTypeDefinition(field.type);
+      return definition?.subtablePropertiesSchema ? definition.recordSchema : undefined;
+    }
   }
 }
 
@@ -267,6 +291,7 @@ function convertSubtableFormToRecordSchema(
  * Convert entire form fields response to record schema
  * 
  * @param formFields - Form fields properties object (from GetFormFieldsResponse.properties)
+ * @param options - Converter options (`strict` to enforce field constraints)
  * @returns Record schema object with field codes as keys
  * 
  * @example
@@ -280,12 +305,13 @@ function convertSubtableFormToRecordSchema(
  * ```
  */
 export function convertFormFieldsToRecordSchema(
-  formFields: Record<string, KintoneFieldProperties | SubtableFieldProperties>
+  formFields: Record<string, KintoneFieldProperties | SubtableFieldProperties>,
+  options?: RecordSchemaOptions
 ) {
   const recordSchemas: Record<string, Schema.Schema<unknown>> = {};
   
   for (const [fieldCode, fieldProps] of Object.entries(formFields)) {
-    const recordSchema = convertFormFieldToRecordSchema(fieldProps);
+    const recordSchema = convertFormFieldToRecordSchema(fieldProps, options);
     if (recordSchema) {
       recordSchemas[fieldCode] = recordSchema as Schema.Schema<unknown>;
     }
@@ -340,50 +366,340 @@ export function createRecordSchemaFromForm(
 }
 
 /**
- * Get field type mapping from form to record
- * 
- * @param formFieldType - Form field type
- * @returns Corresponding record field type or undefined
+ * Record field type for each form field type
  */
-export function getRecordFieldType(formFieldType: string): string | undefined {
-  switch (formFieldType) {
-    // Most types are the same
-    case 'SINGLE_LINE_TEXT':
-    case 'MULTI_LINE_TEXT':
-    case 'RICH_TEXT':
-    case 'NUMBER':
-    case 'CALC':
+type RecordFieldTypeMap = {
+  SINGLE_LINE_TEXT: Schema.Schema.Type<typeof SingleLineTextFieldSchema>;
+  MULTI_LINE_TEXT: Schema.Schema.Type<typeof MultiLineTextFieldSchema>;
+  RICH_TEXT: Schema.Schema.Type<typeof RichTextFieldSchema>;
+  NUMBER: Schema.Schema.Type<typeof NumberFieldSchema>;
+  CALC: Schema.Schema.Type<typeof CalcFieldSchema>;
+  DATE: Schema.Schema.Type<typeof DateFieldSchema>;
+  TIME: Schema.Schema.Type<typeof TimeFieldSchema>;
+  DATETIME: Schema.Schema.Type<typeof DateTimeFieldSchema>;
+  LINK: Schema.Schema.Type<typeof LinkFieldSchema>;
+  USER_SELECT: Schema.Schema.Type<typeof UserSelectFieldSchema>;
+  ORGANIZATION_SELECT: Schema.Schema.Type<typeof OrganizationSelectFieldSchema>;
+  GROUP_SELECT: Schema.Schema.Type<typeof GroupSelectFieldSchema>;
+  FILE: Schema.Schema.Type<typeof FileFieldSchema>;
+  RECORD_NUMBER: Schema.Schema.Type<typeof RecordNumberFieldSchema>;
+  CREATOR: Schema.Schema.Type<typeof CreatorFieldSchema>;
+  CREATED_TIME: Schema.Schema.Type<typeof CreatedTimeFieldSchema>;
+  MODIFIER: Schema.Schema.Type<typeof ModifierFieldSchema>;
+  UPDATED_TIME: Schema.Schema.Type<typeof UpdatedTimeFieldSchema>;
+  STATUS: Schema.Schema.Type<typeof StatusFieldSchema>;
+  STATUS_ASSIGNEE: Schema.Schema.Type<typeof StatusAssigneeFieldSchema>;
+  CATEGORY: Schema.Schema.Type<typeof CategoryFieldSchema>;
+  RECORD_ID: Schema.Schema.Type<typeof RecordIdFieldSchema>;
+  REVISION: Schema.Schema.Type<typeof RevisionFieldSchema>;
+  __ID__: Schema.Schema.Type<typeof SystemIdFieldSchema>;
+  __REVISION__: Schema.Schema.Type<typeof SystemRevisionFieldSchema>;
+};
+
+/**
+ * Union of the option labels of a selection field (`string` if the labels are not literal types)
+ */
+export type OptionLabelOf<F> = F extends { readonly options: infer O }
+  ? O[keyof O] extends { readonly label: infer L extends string }
+    ? L
+    : string
+  : string;
+
+/**
+ * Record field type derived from a single form field properties type
+ * (`never` for fields that do not exist in record data, e.g. GROUP)
+ */
+export type RecordFieldOf<F> = F extends { readonly type: 'SUBTABLE'; readonly fields: infer Fields }
+  ? {
+      readonly type: 'SUBTABLE';
+      readonly value: ReadonlyArray<{ readonly id: string; readonly value: RecordStructType<Fields> }>;
+    }
+  : F extends { readonly type: infer T extends 'RADIO_BUTTON' | 'DROP_DOWN' }
+    ? { readonly type: T; readonly value: OptionLabelOf<F> | null }
+  : F extends { readonly type: infer T extends 'CHECK_BOX' | 'MULTI_SELECT' }
+    ? { readonly type: T; readonly value: ReadonlyArray<OptionLabelOf<F>> }
+  : F extends { readonly type: infer T extends keyof RecordFieldTypeMap }
+    ? RecordFieldTypeMap[T]
+    : never;
+
+/**
+ * Record field schema derived from a single form field properties type
+ */
+export type RecordFieldSchemaOf<F> = Schema.Schema<RecordFieldOf<F>>;
+
+/**
+ * Record type keyed by field code, derived from form properties
+ */
+export type RecordStructType<P> = {
+  readonly [K in keyof P as [RecordFieldOf<P[K]>] extends [never] ? never : K]: RecordFieldOf<P[K]>;
+};
+
+/**
+ * Struct fields keyed by field code, derived from form properties
+ */
+export type RecordStructFields<P> = {
+  [K in keyof P as [RecordFieldOf<P[K]>] extends [never] ? never : K]: RecordFieldSchemaOf<P[K]>;
+};
+
+/**
+ * Options for {@link createRecordStructFromForm}
+ */
+export type RecordStructOptions = RecordSchemaOptions & {
+  /**
+   * How to handle field codes that are not in the form properties.
+   * Defaults to `'error'` so that unknown codes fail decoding.
+   */
+  onExcessProperty?: 'error' | 'ignore';
+};
+
+/**
+ * Convert a form field to the struct property schema used by {@link createRecordStructFromForm}
+ */
+function convertFormFieldToRecordStructField(
+  formField: KintoneFieldProperties | SubtableFieldProperties,
+  options: RecordStructOptions | undefined
+): Schema.Schema.Any | undefined {
+  if (formField.type !== 'SUBTABLE') {
+    return convertFormFieldToRecordSchema(formField, options) as Schema.Schema.Any | undefined;
+  }
+
+  const columns: Record<string, Schema.Schema<unknown>> = {};
+  for (const [fieldCode, fieldProps] of Object.entries(formField.fields)) {
+    const columnSchema = convertSubtableFieldToRecordSchema(fieldProps);
+    if (columnSchema) {
+      columns[fieldCode] = columnSchema as Schema.Schema<unknown>;
+    }
+  }
+
+  const subtableSchema = Schema.Struct({
+    type: Schema.Literal('SUBTABLE'),
+    value: Schema.Array(
+      Schema.Struct({
+        id: Schema.String,
+        value: withExcessPropertyOption(Schema.Struct(columns), options),
+      })
+    ),
+  });
+  return options?.strict === true
+    ? withFieldConstraints(subtableSchema as Schema.Schema<unknown>, formField)
+    : subtableSchema;
+}
+
+function withExcessPropertyOption<Fields extends Schema.Struct.Fields>(
+  schema: Schema.Struct<Fields>,
+  options: RecordStructOptions | undefined
+): Schema.Struct<Fields> {
+  return schema.annotations({
+    parseOptions: { onExcessProperty: options?.onExcessProperty ?? 'error' },
+  });
+}
+
+/**
+ * Create a per-app record schema from form fields as a `Schema.Struct`
+ *
+ * Unlike {@link createRecordSchemaFromForm}, every field code becomes its own
+ * property with the exact field schema, subtables get an exact struct per row,
+ * and missing fields or unknown field codes fail decoding.
+ *
+ * @param formFields - Form fields properties object (use `as const` to keep literal types)
+ * @param options - Struct options
+ * @returns Record struct schema keyed by field code
+ *
+ * @example
+ * ```typescript
+ * const OrderRecord = createRecordStructFromForm({
+ *   price: { type: 'NUMBER', code: 'price', label: 'Price', ... },
+ * } as const);
+ *
+ * const record = Schema.decodeUnknownSync(OrderRecord)(apiRecord);
+ * record.price.value; // string | null
+ * ```
+ */
+export function createRecordStructFromForm<
+  const P extends Record<string, KintoneFieldProperties | SubtableFieldProperties>
+>(
+  formFields: P,
+  options?: RecordStructOptions
+): Schema.Struct<RecordStructFields<P>> {
+  const fields: Record<string, Schema.Schema.Any> = {};
+
+  for (const [fieldCode, fieldProps] of Object.entries(formFields)) {
+    const fieldSchema = convertFormFieldToRecordStructField(fieldProps, options);
+    if (fieldSchema) {
+      fields[fieldCode] = fieldSchema;
+    }
+  }
+
+  return withExcessPropertyOption(Schema.Struct(fields), options) as unknown as Schema.Struct<
+    RecordStructFields<P>
+  >;
+}
+
+/**
+ * Write value type for each writable form field type
+ */
+type RecordWriteFieldTypeMap = {
+  SINGLE_LINE_TEXT: Schema.Schema.Type<typeof SingleLineTextWriteSchema>;
+  MULTI_LINE_TEXT: Schema.Schema.Type<typeof MultiLineTextWriteSchema>;
+  RICH_TEXT: Schema.Schema.Type<typeof RichTextWriteSchema>;
+  NUMBER: Schema.Schema.Type<typeof NumberWriteSchema>;
+  DATE: Schema.Schema.Type<typeof DateWriteSchema>;
+  TIME: Schema.Schema.Type<typeof TimeWriteSchema>;
+  DATETIME: Schema.Schema.Type<typeof DateTimeWriteSchema>;
+  LINK: Schema.Schema.Type<typeof LinkWriteSchema>;
+  USER_SELECT: Schema.Schema.Type<typeof UserSelectWriteSchema>;
+  ORGANIZATION_SELECT: Schema.Schema.Type<typeof OrganizationSelectWriteSchema>;
+  GROUP_SELECT: Schema.Schema.Type<typeof GroupSelectWriteSchema>;
+  FILE: Schema.Schema.Type<typeof FileWriteSchema>;
+};
+
+/**
+ * Write value type derived from a single form field properties type
+ * (`never` for read-only fields and fields that do not exist in record data)
+ */
+export type RecordWriteFieldOf<F> = F extends { readonly type: 'SUBTABLE'; readonly fields: infer Fields }
+  ? {
+      readonly value: ReadonlyArray<{ readonly id?: string; readonly value: RecordWriteStructType<Fields> }>;
+    }
+  : F extends { readonly type: 'RADIO_BUTTON' }
+    ? { readonly value: OptionLabelOf<F> }
+  : F extends { readonly type: 'DROP_DOWN' }
+    ? { readonly value: OptionLabelOf<F> | null }
+  : F extends { readonly type: 'CHECK_BOX' | 'MULTI_SELECT' }
+    ? { readonly value: ReadonlyArray<OptionLabelOf<F>> }
+  : F extends { readonly type: infer T extends keyof RecordWriteFieldTypeMap }
+    ? RecordWriteFieldTypeMap[T]
+    : never;
+
+/**
+ * Write record type keyed by field code, derived from form properties (every field is optional)
+ */
+export type RecordWriteStructType<P> = {
+  readonly [K in keyof P as [RecordWriteFieldOf<P[K]>] extends [never] ? never : K]?: RecordWriteFieldOf<P[K]>;
+};
+
+/**
+ * Write struct fields keyed by field code, derived from form properties
+ */
+export type RecordWriteStructFields<P> = {
+  [K in keyof P as [RecordWriteFieldOf<P[K]>] extends [never] ? never : K]: Schema.optional<
+    Schema.Schema<RecordWriteFieldOf<P[K]>>
+  >;
+};
+
+/**
+ * Options for {@link createRecordWriteStructFromForm}
+ */
+export type RecordWriteStructOptions = Pick<RecordStructOptions, 'onExcessProperty'>;
+
+/**
+ * Convert a form field (or subtable column) to its write schema
+ *
+ * Selection fields are restricted to the option labels like the record schemas.
+ *
+ * @param fieldProps - Field properties
+ * @returns Write schema or undefined for read-only and non-data fields
+ */
+function convertFieldToWriteSchema(fieldProps: unknown): Schema.Schema.Any | undefined {
+  const field = fieldProps as { type: string; options?: Record<string, { label: string }> };
+
+  switch (field.type) {
     case 'RADIO_BUTTON':
+      // RADIO_BUTTON cannot be emptied, so null is not accepted on write
+      return Schema.Struct({ value: convertOptionsToLabelSchema(field.options ?? {}) });
+    case 'DROP_DOWN':
+      return Schema.Struct({ value: Schema.NullOr(convertOptionsToLabelSchema(field.options ?? {})) });
     case 'CHECK_BOX':
     case 'MULTI_SELECT':
-    case 'DROP_DOWN':
-    case 'DATE':
-    case 'TIME':
-    case 'DATETIME':
-    case 'LINK':
-    case 'USER_SELECT':
-    case 'ORGANIZATION_SELECT':
-    case 'GROUP_SELECT':
-    case 'FILE':
-    case 'RECORD_NUMBER':
-    case 'CREATOR':
-    case 'CREATED_TIME':
-    case 'MODIFIER':
-    case 'UPDATED_TIME':
-    case 'STATUS':
-    case 'STATUS_ASSIGNEE':
-    case 'CATEGORY':
+      return Schema.Struct({ value: Schema.Array(convertOptionsToLabelSchema(field.options ?? {})) });
+    // Subtables are converted by convertSubtableFieldToWriteSchema
     case 'SUBTABLE':
-    case 'RECORD_ID':
-    case 'REVISION':
-      return formFieldType;
-    
-    // Layout fields don't exist in records
-    case 'REFERENCE_TABLE':
-    case 'GROUP':
       return undefined;
-    
     default:
-      return undefined;
+      return getFieldTypeDefinition(field.type)?.writeSchema;
+  }
+}
+
+/**
+ * Convert a subtable form field to its write schema (row `id` is optional, every column is optional)
+ */
+function convertSubtableFieldToWriteSchema(
+  subtableField: SubtableFieldProperties,
+  options: RecordWriteStructOptions | undefined
+): Schema.Schema.Any {
+  const columns: Record<string, Schema.optional<Schema.Schema.Any>> = {};
+  for (const [fieldCode, fieldProps] of Object.entries(subtableField.fields)) {
+    const columnSchema = convertFieldToWriteSchema(fieldProps);
+    if (columnSchema) {
+      columns[fieldCode] = Schema.optional(columnSchema);
+    }
   }
-}
\ No newline at end of file
+
+  return Schema.Struct({
+    value: Schema.Array(
+      Schema.Struct({
+        id: Schema.optional(Schema.String),
+        value: withExcessPropertyOption(Schema.Struct(columns), options),
+      })
+    ),
+  });
+}
+
+/**
+ * Create a per-app write record schema (the `record` parameter of the add/update record APIs)
+ * from form fields as a `Schema.Struct`
+ *
+ * Every writable field becomes an optional property with its write value shape
+ * (`{ code }[]` for USER_SELECT, `{ fileKey }[]` for FILE, option labels for selection fields).
+ * Read-only fields (CALC, RECORD_NUMBER, CREATOR, STATUS, ...) are left out,
+ * so passing them fails decoding and the inferred type rejects them.
+ *
+ * @param formFields - Form fields properties object (use `as const` to keep literal types)
+ * @param options - Struct options
+ * @returns Write record struct schema keyed by field code
+ *
+ * @example
+ * ```typescript
+ * const OrderWrite = createRecordWriteStructFromForm(appForm.properties);
+ * type OrderWrite = typeof OrderWrite.Type;
+ *
+ * const record: OrderWrite = {
+ *   customer: { value: 'ACME' },
+ *   owner: { value: [{ code: 'user1' }] },
+ * };
+ * ```
+ */
+export function createRecordWriteStructFromForm<
+  const P extends Record<string, KintoneFieldProperties | SubtableFieldProperties>
+>(
+  formFields: P,
+  options?: RecordWriteStructOptions
+): Schema.Struct<RecordWriteStructFields<P>> {
+  const fields: Record<string, Schema.optional<Schema.Schema.Any>> = {};
+
+  for (const [fieldCode, fieldProps] of Object.entries(formFields)) {
+    const fieldSchema = fieldProps.type === 'SUBTABLE'
+      ? convertSubtableFieldToWriteSchema(fieldProps, options)
+      : convertFieldToWriteSchema(fieldProps);
+    if (fieldSchema) {
+      fields[fieldCode] = Schema.optional(fieldSchema);
+    }
+  }
+
+  return withExcessPropertyOption(Schema.Struct(fields), options) as unknown as Schema.Struct<
+    RecordWriteStructFields<P>
+  >;
+}
+
+/**
+ * Get field type mapping from form to record
+ * 
+ * @param formFieldType - Form field type
+ * @returns Corresponding record field type or undefined
+ */
+export function getRecordFieldType(formFieldType: string): string | undefined {
+  // Form field types that have a record schema keep the same type in record data;
+  // layout fields (REFERENCE_TABLE, GROUP, SPACER, LABEL) don't exist in records
+  const definition = getFieldTypeDefinition(formFieldType);
+  return definition?.recordSchema && definition.propertiesSchema ? formFieldType : undefined;
+}
@@ -1,119 +1,388 @@
+import { Data, Effect } from 'effect'
 import type { KintoneFieldType } from './types/kintone.js'
+import type { GetFormFieldsResponse } from './schemas/form/fields.js'
+import {
+  checkFieldConstraints,
+  isEmptyFieldValue,
+  type ConstrainedFieldProperties,
+  type FieldConstraint,
+} from './constraints.js'
+import { getFieldEmptyValue, getFieldTypeDefinition } from './schemas/field-registry.js'
+import {
+  ConstraintViolation,
+  EmptyValueNotAllowed,
+  OptionNotFound,
+  ReadOnlyField,
+  UnknownFieldCode,
+  formatValidationErrorMessage,
+  type FieldPath,
+  type KintoneValidationError,
+} from './errors.js'
+import type { MessageLocale } from './messages.js'
 
-export class KintoneValidationError extends Error {
-  constructor(
-    public fieldType: KintoneFieldType,
-    message: string
-  ) {
-    super(message)
-    this.name = 'KintoneValidationError'
+/**
+ * 書き込みバリデーションのルール
+ * - nonEmpty: 空値を設定できないフィールドが空
+ * - readOnly: 読み取り専用・システムフィールドが含まれている（onReadOnlyField: 'error' の場合）
+ * - unknownField: フォームに存在しないフィールドが含まれている（onUnknownField: 'error' の場合）
+ * - その他: フォームの設定による制約（required, maxLength, option 等）
+ */
+export type WriteValidationRule = 'nonEmpty' | 'readOnly' | 'unknownField' | FieldConstraint
+
+/**
+ * 書き込みバリデーションで見つかった問題
+ * サブテーブル内のフィールドの場合は subtableCode と rowIndex（0始まり）を持つ
+ */
+export interface WriteValidationIssue {
+  fieldCode: string
+  subtableCode?: string
+  rowIndex?: number
+  path: FieldPath
+  fieldType: KintoneFieldType
+  rule: WriteValidationRule
+  /** 制約で期待される値（文字数・値の範囲・選択肢のラベル等） */
+  expected?: unknown
+  actual?: unknown
+  message: string
+}
+
+/**
+ * 書き込みバリデーションのオプション
+ */
+export interface WriteValidationOptions {
+  /**
+   * フォームに存在しないフィールドの扱い（formProperties を指定した場合のみ）
+   * デフォルトは 'ignore'（チェックしない）
+   */
+  onUnknownField?: 'ignore' | 'error'
+  /**
+   * 読み取り専用・システムフィールド（CALC, RECORD_NUMBER, STATUS 等）の扱い
+   * デフォルトは 'ignore'（取得したレコードをそのまま検証できるよう、書き込み時と同じ空値のチェックのみ行う）。
+   * 書き込み用のレコードからの除外は toWritePayload で行う
+   */
+  onReadOnlyField?: 'ignore' | 'error'
+  /**
+   * レコードにない required のフィールドの扱い（formProperties を指定した場合のみ）
+   * デフォルトは 'ignore'（kintoneのレコード更新は指定したフィールドのみを変更するため、一部のフィールドのみのレコードを受け付ける）。
+   * レコード追加では 'error' を指定すると、初期値が空のフィールドを required の問題にする
+   */
+  onMissingRequired?: 'ignore' | 'error'
+  /**
+   * 問題のメッセージのロケール
+   * 省略した場合は setMessageLocale で設定したロケール（デフォルトは ja）
+   */
+  locale?: MessageLocale
+}
+
+/**
+ * 書き込みバリデーションのエラー（すべての問題を保持する）
+ */
+export class RecordValidationError extends Data.TaggedError('RecordValidationError')<{
+  readonly issues: ReadonlyArray<WriteValidationIssue>
+}> {
+  override get message(): string {
+    return this.issues.map((issue) => issue.message).join('\n')
   }
 }
 
+/**
+ * 書き込みできない（読み取り専用・システム）フィールドタイプかどうかを判定
+ */
+export const isReadOnlyField = (type: KintoneFieldType): boolean => {
+  return getFieldTypeDefinition(type)?.readOnly ?? false
+}
+
+/**
+ * 空値を設定できないフィールドが空かどうかを判定
+ * （ラジオボタンは null・空文字列、カテゴリーと作業者は空配列を許可しない）
+ */
+const isEmptyValueViolation = (field: { type: KintoneFieldType; value: unknown }): boolean => {
+  return isNonEmptyField(field.type) && isEmptyFieldValue(field.value)
+}
+
 /**
  * 書き込み時のフィールドバリデーション
- * 空の値を設定できないフィールドタイプをチェック
+ * 空の値を設定できないフィールドタイプをチェックし、空の場合は EmptyValueNotAllowed をスローする
  */
 export const validateFieldForWrite = (field: { type: KintoneFieldType; value: unknown }): void => {
-  const { type, value } = field
-  
-  // 空値を設定できないフィールドタイプ
-  const nonEmptyFields: KintoneFieldType[] = ['RADIO_BUTTON', 'CATEGORY', 'STATUS_ASSIGNEE']
-  
-  if (nonEmptyFields.includes(type)) {
-    let isEmpty = false
-    
-    switch (type) {
-      case 'RADIO_BUTTON':
-        // ラジオボタンは null または空文字列を許可しない
-        isEmpty = value === null || value === ''
-        break
-        
-      case 'CATEGORY':
-      case 'STATUS_ASSIGNEE':
-        // カテゴリーと作業者は空配列を許可しない
-        isEmpty = Array.isArray(value) && value.length === 0
-        break
+  if (isEmptyValueViolation(field)) {
+    throw new EmptyValueNotAllowed({ fieldType: field.type, path: [], actual: field.value })
+  }
+}
+
+/**
+ * 書き込みバリデーションの問題を対応するエラーに変換する
+ */
+export const toValidationError = (issue: WriteValidationIssue): KintoneValidationError => {
+  const { fieldCode, fieldType, path } = issue
+
+  switch (issue.rule) {
+    case 'nonEmpty':
+      return new EmptyValueNotAllowed({ fieldCode, fieldType, path, actual: issue.actual })
+    case 'readOnly':
+      return new ReadOnlyField({ fieldCode, fieldType, path })
+    case 'unknownField':
+      return new UnknownFieldCode({ fieldCode, path })
+    case 'option':
+      return new OptionNotFound({
+        fieldCode,
+        fieldType,
+        path,
+        expected: issue.expected as ReadonlyArray<string>,
+        actual: issue.actual,
+      })
+    default:
+      return new ConstraintViolation({
+        fieldCode,
+        fieldType,
+        path,
+        constraint: issue.rule,
+        expected: issue.expected,
+        actual: issue.actual,
+      })
+  }
+}
+
+/**
+ * レコード全体の書き込みバリデーション
+ * 最初に見つかった問題を EmptyValueNotAllowed, ReadOnlyField, OptionNotFound, ConstraintViolation 等のエラーとしてスローする
+ *
+ * formProperties（フォームフィールド取得APIの properties）を指定した場合は、
+ * required・選択肢・文字数・数値の範囲・LINKの形式もチェックし、フォームに存在しないフィールドは無視する
+ */
+export const validateRecordForWrite = (
+  record: Record<string, { type: KintoneFieldType; value: unknown }>,
+  formProperties?: GetFormFieldsResponse['properties'],
+  options?: WriteValidationOptions
+): void => {
+  const [issue] = collectRecordWriteIssues(record, formProperties, options)
+  if (issue) {
+    throw toValidationError(issue)
+  }
+}
+
+type WritableField = { type: KintoneFieldType; value: unknown }
+
+// サブテーブルの行（{ id, value: { フィールドコード: { type, value } } }）を取り出す
+const getSubtableRows = (value: unknown): Record<string, WritableField>[] => {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.map((row: unknown) => {
+    const cells = row && typeof row === 'object' ? (row as { value?: unknown }).value : undefined
+    return cells && typeof cells === 'object'
+      ? (cells as Record<string, WritableField>)
+      : {}
+  })
+}
+
+/**
+ * 1つのフィールドの問題を集める
+ * reportReadOnly の場合、読み取り専用フィールドは readOnly のみを返す。
+ * 空値を設定できないフィールドの問題がある場合、required の問題は重複するため含めない
+ */
+const collectFieldIssues = (
+  fieldCode: string,
+  path: FieldPath,
+  field: WritableField,
+  properties: ConstrainedFieldProperties | undefined,
+  locale: MessageLocale | undefined,
+  reportReadOnly: boolean
+): WriteValidationIssue[] => {
+  const issue = (
+    rule: WriteValidationRule,
+    expected: unknown,
+    actual: unknown
+  ): WriteValidationIssue => {
+    const error = toValidationError({ fieldCode, path, fieldType: field.type, rule, expected, actual, message: '' })
+    return {
+      fieldCode,
+      path,
+      fieldType: field.type,
+      rule,
+      expected,
+      actual,
+      message: formatValidationErrorMessage(error, locale),
+    }
+  }
+
+  if (reportReadOnly && isReadOnlyField(field.type)) {
+    return [issue('readOnly', undefined, field.value)]
+  }
+
+  const issues = isEmptyValueViolation(field) ? [issue('nonEmpty', undefined, field.value)] : []
+
+  if (properties) {
+    for (const violation of checkFieldConstraints(properties, field.value)) {
+      if (violation.constraint === 'required' && issues.length > 0) {
+        continue
+      }
+      issues.push(issue(violation.constraint, violation.expected, violation.actual))
+    }
+  }
+
+  return issues
+}
+
+// レコードにない required のフィールドのうち、初期値が空のもの（レコード追加時に kintone が CB_VA01 を返す）
+const collectMissingRequiredIssues = (
+  record: Record<string, WritableField>,
+  formProperties: GetFormFieldsResponse['properties'],
+  locale: MessageLocale | undefined
+): WriteValidationIssue[] => {
+  const issues: WriteValidationIssue[] = []
+  for (const [fieldCode, properties] of Object.entries(formProperties)) {
+    if (Object.hasOwn(record, fieldCode) || !('required' in properties) || properties.required !== true) {
+      continue
     }
-    
-    if (isEmpty) {
-      throw new KintoneValidationError(
-        type,
-        `${type}フィールドには空の値を設定できません`
-      )
+    const defaultValue = 'defaultValue' in properties ? properties.defaultValue : undefined
+    if (!isEmptyFieldValue(defaultValue)) {
+      continue
     }
+    const path = [fieldCode]
+    const fieldType = properties.type as KintoneFieldType
+    const error = new ConstraintViolation({ fieldCode, fieldType, path, constraint: 'required', expected: undefined, actual: undefined })
+    issues.push({
+      fieldCode,
+      path,
+      fieldType,
+      rule: 'required',
+      expected: undefined,
+      actual: undefined,
+      message: formatValidationErrorMessage(error, locale),
+    })
   }
+  return issues
 }
 
 /**
- * レコード全体の書き込みバリデーション
+ * レコード全体の書き込みバリデーションを行い、すべての問題を返す
+ * 最初の問題で中断せず、サブテーブルの各行のフィールドもチェックする
+ *
+ * formProperties を指定した場合はフォームの設定（required、選択肢、文字数、数値の範囲、LINKの形式）もチェックし、
+ * フォームに存在しないフィールドは無視する。レコードにない required のフィールドは、
+ * onMissingRequired: 'error' の場合のみ初期値が空のときに問題とする（レコード追加向け）。重複禁止の設定は他のレコードを参照するため、collectUniqueFieldHints で確認する
  */
-export const validateRecordForWrite = (record: Record<string, { type: KintoneFieldType; value: unknown }>): void => {
+export const collectRecordWriteIssues = (
+  record: Record<string, WritableField>,
+  formProperties?: GetFormFieldsResponse['properties'],
+  options?: WriteValidationOptions
+): WriteValidationIssue[] => {
+  const issues: WriteValidationIssue[] = []
+  const reportUnknown = options?.onUnknownField === 'error'
+  const reportReadOnly = options?.onReadOnlyField === 'error'
+  const locale = options?.locale
+
+  const unknownField = (fieldCode: string, path: FieldPath, field: WritableField): WriteValidationIssue => ({
+    fieldCode,
+    path,
+    fieldType: field.type,
+    rule: 'unknownField',
+    message: formatValidationErrorMessage(new UnknownFieldCode({ fieldCode, path }), locale),
+  })
+
   for (const [fieldCode, field] of Object.entries(record)) {
-    try {
-      validateFieldForWrite(field)
-    } catch (error) {
-      if (error instanceof KintoneValidationError) {
-        // フィールドコードを含めてエラーを再スロー
-        throw new KintoneValidationError(
-          error.fieldType,
-          `フィールド "${fieldCode}": ${error.message}`
-        )
+    const properties = formProperties?.[fieldCode]
+    if (formProperties && !properties) {
+      if (reportUnknown) {
+        issues.push(unknownField(fieldCode, [fieldCode], field))
       }
-      throw error
+      continue
     }
+
+    if (field.type === 'SUBTABLE') {
+      const columns = properties?.type === 'SUBTABLE' ? properties.fields : undefined
+      getSubtableRows(field.value).forEach((cells, rowIndex) => {
+        for (const [cellCode, cell] of Object.entries(cells)) {
+          const path = [fieldCode, rowIndex, cellCode]
+          const columnProperties = columns?.[cellCode]
+          if (formProperties && !columnProperties) {
+            if (reportUnknown) {
+              issues.push({ ...unknownField(cellCode, path, cell), subtableCode: fieldCode, rowIndex })
+            }
+            continue
+          }
+          for (const issue of collectFieldIssues(cellCode, path, cell, columnProperties, locale, reportReadOnly)) {
+            issues.push({ ...issue, subtableCode: fieldCode, rowIndex })
+          }
+        }
+      })
+      continue
+    }
+
+    issues.push(...collectFieldIssues(fieldCode, [fieldCode], field, properties, locale, reportReadOnly))
   }
+
+  if (formProperties && options?.onMissingRequired === 'error') {
+    issues.push(...collectMissingRequiredIssues(record, formProperties, locale))
+  }
+
+  return issues
+}
+
+/**
+ * 重複禁止（unique）のフィールドに書き込む値
+ * 他のレコードとの重複はローカルではチェックできないため、書き込み前に検索して確認するためのヒント
+ */
+export interface UniqueFieldHint {
+  fieldCode: string
+  fieldType: KintoneFieldType
+  value: unknown
+}
+
+/**
+ * レコードのうち、フォームで重複禁止（unique: true）に設定されたフィールドの値を返す
+ * 空値は重複の対象にならないため含めない（重複禁止はテーブル内のフィールドには設定できない）
+ *
+ * @example
+ * ```typescript
+ * collectUniqueFieldHints(record, fieldsResponse.properties)
+ * // [{ fieldCode: '顧客コード', fieldType: 'SINGLE_LINE_TEXT', value: 'C-001' }]
+ * ```
+ */
+export const collectUniqueFieldHints = (
+  record: Record<string, WritableField>,
+  formProperties: GetFormFieldsResponse['properties']
+): UniqueFieldHint[] => {
+  return Object.entries(record).flatMap(([fieldCode, field]) => {
+    const properties = formProperties[fieldCode]
+    const unique = properties !== undefined && 'unique' in properties && properties.unique === true
+    return unique && !isEmptyFieldValue(field.value)
+      ? [{ fieldCode, fieldType: field.type, value: field.value }]
+      : []
+  })
+}
+
+/**
+ * レコード全体の書き込みバリデーション（Effect版）
+ * 問題がある場合はすべての問題を持つ RecordValidationError で失敗する
+ */
+export const validateRecordForWriteEffect = (
+  record: Record<string, WritableField>,
+  formProperties?: GetFormFieldsResponse['properties'],
+  options?: WriteValidationOptions
+): Effect.Effect<void, RecordValidationError> => {
+  return Effect.suspend(() => {
+    const issues = collectRecordWriteIssues(record, formProperties, options)
+    return issues.length === 0 ? Effect.void : Effect.fail(new RecordValidationError({ issues }))
+  })
 }
 
 /**
  * 空値を設定できないフィールドかどうかを判定
  */
 export const isNonEmptyField = (type: KintoneFieldType): boolean => {
-  return ['RADIO_BUTTON', 'CATEGORY', 'STATUS_ASSIGNEE'].includes(type)
+  return getFieldTypeDefinition(type)?.nonEmpty ?? false
 }
 
 /**
  * フィールドタイプに応じた適切な空値を返す
  * （書き込み用）
+ * 空値を設定できないフィールドタイプ（RADIO_BUTTON, CATEGORY, STATUS_ASSIGNEE）は EmptyValueNotAllowed をスローする
  */
 export const getEmptyValueForWrite = (type: KintoneFieldType): string | null | never[] => {
-  switch (type) {
-    // 文字列系
-    case 'SINGLE_LINE_TEXT':
-    case 'MULTI_LINE_TEXT':
-    case 'RICH_TEXT':
-    case 'LINK':
-    case 'LOOKUP':
-      return ''
-    
-    // null を使用する系
-    case 'NUMBER':
-    case 'DATE':
-    case 'TIME':
-    case 'DATETIME':
-    case 'DROP_DOWN':
-      return null
-    
-    // 配列系
-    case 'CHECK_BOX':
-    case 'MULTI_SELECT':
-    case 'USER_SELECT':
-    case 'ORGANIZATION_SELECT':
-    case 'GROUP_SELECT':
-    case 'FILE':
-      return []
-    
-    // 空値を設定できない
-    case 'RADIO_BUTTON':
-    case 'CATEGORY':
-    case 'STATUS_ASSIGNEE':
-      throw new KintoneValidationError(
-        type,
-        `${type}フィールドには空の値を設定できません`
-      )
-    
-    // その他（通常は読み取り専用）
-    default:
-      return ''
+  if (isNonEmptyField(type)) {
+    throw new EmptyValueNotAllowed({ fieldType: type, path: [], actual: undefined })
   }
-}
\ No newline at end of file
+  return getFieldTypeDefinition(type) ? getFieldEmptyValue(type) : ''
+}
@@ -0,0 +1,119 @@
+import type { GetFormFieldsResponse } from './schemas/form/fields.js'
+import type { View } from './schemas/app/views.js'
+import { collectQueryIssues, type QueryValidationIssue } from './query/validator.js'
+import { formatMessage, type MessageLocale } from './messages.js'
+
+// 一覧の設定の検証
+// 表示するフィールド・カレンダーの日付とタイトルのフィールドコード、filterCond と sort のクエリをフォームのフィールドと照合する
+
+/**
+ * 一覧とフォームのフィールドの不一致
+ * - unknownField: fields・date・title がフォームにないフィールドコードを参照している
+ * - calendarDate: カレンダー形式の一覧の date が日付（DATE）のフィールドではない
+ * - filterCond / sort: 絞り込みの条件・ソートのクエリの問題（queryIssue の位置は filterCond・sort の文字列中）
+ */
+export interface ViewIssue {
+  view: string
+  kind: 'unknownField' | 'calendarDate' | 'filterCond' | 'sort'
+  fieldCode?: string
+  queryIssue?: QueryValidationIssue
+  message: string
+}
+
+// sort を検証するためにクエリの先頭に付ける文字列
+const SORT_PREFIX = 'order by '
+
+// order by を付けて検証した sort の問題の位置を sort の文字列中の位置にする
+const toSortIssue = (issue: QueryValidationIssue): QueryValidationIssue => {
+  const shift = (offset: number): number => Math.max(0, offset - SORT_PREFIX.length)
+  return {
+    ...issue,
+    start: shift(issue.start),
+    end: shift(issue.end),
+    column: issue.line === 1 ? Math.max(1, issue.column - SORT_PREFIX.length) : issue.column,
+  }
+}
+
+/**
+ * 一覧の設定をフォームのフィールド（フォームのフィールド一覧取得APIの properties）と照合し、問題をすべて返す
+ * 表示するフィールド・カレンダーの日付とタイトルのフィールドコード、filterCond と sort のクエリを検証する
+ * locale を省略した場合は setMessageLocale で設定したロケールのメッセージになる（クエリの問題の内容は英語）
+ *
+ * @example
+ * ```typescript
+ * const issues = collectViewIssues(viewsResponse.views, fieldsResponse.properties)
+ * // [{ view: '一覧', kind: 'unknownField', fieldCode: '旧項目', message: '一覧 "一覧" がフォームにないフィールドコード "旧項目" を参照しています' }]
+ * ```
+ */
+export const collectViewIssues = (
+  views: Readonly<Record<string, View>>,
+  properties: GetFormFieldsResponse['properties'],
+  locale?: MessageLocale
+): ViewIssue[] => {
+  const issues: ViewIssue[] = []
+  // フォームのフィールドのタイプ（テーブル内のフィールドを含む）
+  const fieldTypes = new Map<string, string>()
+  for (const [code, field] of Object.entries(properties)) {
+    fieldTypes.set(code, field.type)
+    if (field.type === 'SUBTABLE') {
+      for (const [columnCode, column] of Object.entries(field.fields)) {
+        fieldTypes.set(columnCode, column.type)
+      }
+    }
+  }
+
+  for (const [name, view] of Object.entries(views)) {
+    const checkField = (code: string): void => {
+      if (!fieldTypes.has(code)) {
+        issues.push({
+          view: name,
+          kind: 'unknownField',
+          fieldCode: code,
+          message: formatMessage('viewUnknownField', { view: name, fieldCode: code }, locale),
+        })
+      }
+    }
+
+    switch (view.type) {
+      case 'LIST':
+        view.fields.forEach(checkField)
+        break
+      case 'CALENDAR': {
+        checkField(view.date)
+        const dateType = fieldTypes.get(view.date)
+        if (dateType !== undefined && dateType !== 'DATE') {
+          issues.push({
+            view: name,
+            kind: 'calendarDate',
+            fieldCode: view.date,
+            message: formatMessage('viewCalendarDate', { view: name, fieldCode: view.date, fieldType: dateType }, locale),
+          })
+        }
+        checkField(view.title)
+        break
+      }
+      case 'CUSTOM':
+        break
+    }
+
+    const queryIssues = [
+      ...(view.filterCond.trim() === '' ? [] : collectQueryIssues(view.filterCond, properties)).map(
+        (queryIssue) => ['filterCond', queryIssue] as const
+      ),
+      ...(view.sort.trim() === '' ? [] : collectQueryIssues(SORT_PREFIX + view.sort, properties)).map(
+        (queryIssue) => ['sort', toSortIssue(queryIssue)] as const
+      ),
+    ]
+    for (const [kind, queryIssue] of queryIssues) {
+      issues.push({
+        view: name,
+        kind,
+        ...(queryIssue.fieldCode !== undefined ? { fieldCode: queryIssue.fieldCode } : {}),
+        queryIssue,
+        message: formatMessage('viewQuery', { view: name, kind, detail: queryIssue.message }, locale),
+      })
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,151 @@
+import { Either, Schema } from 'effect'
+import type { KintoneFieldSchema } from './schemas/fields.js'
+import type { KintoneRecordSchema, SubtableFieldSchema } from './schemas/record.js'
+import type { KintoneFieldProperties } from './schemas/form/fields.js'
+import { getFieldTypeDefinition } from './schemas/field-registry.js'
+import { isReadOnlyField, validateRecordForWrite } from './validators.js'
+
+type KintoneField = Schema.Schema.Type<typeof KintoneFieldSchema>
+type SubtableField = Schema.Schema.Type<typeof SubtableFieldSchema>
+type KintoneRecord = Schema.Schema.Type<typeof KintoneRecordSchema>
+
+/**
+ * 書き込み用のフィールド値（{ value } 形式）
+ */
+export interface WriteFieldValue {
+  value: unknown
+}
+
+/**
+ * 書き込み用のレコード（レコード追加/更新APIの record パラメータ）
+ */
+export type WritePayload = Record<string, WriteFieldValue>
+
+// レコードに含まれるが書き込めないシステムフィールドのフィールドコード
+const SYSTEM_FIELD_CODES: ReadonlySet<string> = new Set(['$id', '$revision'])
+
+/**
+ * フィールドの値を書き込み用の形に変換する
+ * フィールドタイプのレジストリの書き込み用スキーマでデコードし、書き込めないプロパティを取り除く
+ * - ユーザー・組織・グループ選択: { code } のみ
+ * - 添付ファイル: { fileKey } のみ
+ * - 書き込み用スキーマがない・デコードできない場合: 値をそのまま使用
+ */
+export const toWriteValue = (field: KintoneField): unknown => {
+  const writeSchema = getFieldTypeDefinition(field.type)?.writeSchema
+  if (!writeSchema) {
+    return field.value
+  }
+  const result = Schema.decodeUnknownEither(writeSchema)({ value: field.value })
+  return Either.isRight(result) ? (result.right as WriteFieldValue).value : field.value
+}
+
+// ルックアップを設定できるフィールド（文字列1行・数値・日付・日時）のルックアップ設定を取得
+const getLookupSetting = (properties: KintoneFieldProperties) => {
+  return 'lookup' in properties ? properties.lookup : undefined
+}
+
+/**
+ * ルックアップのコピー先フィールド（値はルックアップで上書きされるため書き込まない）
+ */
+const getLookupTargetCodes = (formProperties: Record<string, KintoneFieldProperties>): Set<string> => {
+  const targets = new Set<string>()
+  for (const properties of Object.values(formProperties)) {
+    const lookup = getLookupSetting(properties)
+    // fieldMappingsは未設定の場合に空文字列で返される
+    if (lookup?.fieldMappings !== undefined && lookup.fieldMappings !== '') {
+      for (const mapping of lookup.fieldMappings) {
+        targets.add(mapping.field)
+      }
+    }
+  }
+  return targets
+}
+
+/**
+ * サブテーブルの各行から書き込めないセル（読み取り専用・フォームに存在しない・ルックアップのコピー先）を除外する
+ */
+const toWritableSubtable = (
+  field: SubtableField,
+  columnCodes: ReadonlySet<string> | undefined,
+  lookupTargets: ReadonlySet<string>
+): SubtableField => {
+  const rows = field.value.map((row) => {
+    const cells: Record<string, KintoneField> = {}
+    for (const [fieldCode, cell] of Object.entries(row.value)) {
+      if (isReadOnlyField(cell.type) || lookupTargets.has(fieldCode)) {
+        continue
+      }
+      if (columnCodes && !columnCodes.has(fieldCode)) {
+        continue
+      }
+      cells[fieldCode] = cell
+    }
+    return { ...row, value: cells }
+  })
+  return { ...field, value: rows }
+}
+
+/**
+ * サブテーブルを書き込み用の形に変換する
+ * 行のidは維持し（既存行の更新に必要）、各セルは type を除いた { value } 形式にする
+ */
+const toSubtableWriteValue = (field: SubtableField): unknown => {
+  return field.value.map((row) => {
+    const cells: WritePayload = {}
+    for (const [fieldCode, cell] of Object.entries(row.value)) {
+      cells[fieldCode] = { value: toWriteValue(cell) }
+    }
+    // idを持たない行（追加する行）はidを省略する
+    return row.id ? { id: row.id, value: cells } : { value: cells }
+  })
+}
+
+/**
+ * デコード済みのレコードから書き込み用のレコード（{ value } 形式）を生成する
+ *
+ * - 読み取り専用・システムフィールド（CALC, CREATOR, STATUS, $id 等）を除外
+ * - ユーザー・組織・グループ選択は { code }、添付ファイルは { fileKey } に変換
+ * - サブテーブルは行のidを維持し、セルから type を除外
+ * - formProperties を指定した場合は、フォームに存在しないフィールドとルックアップのコピー先を除外
+ *
+ * 変換前に validateRecordForWrite（formProperties を指定した場合はフォームの設定を含む）を実行し、
+ * 問題がある場合は EmptyValueNotAllowed, ConstraintViolation 等のエラーをスローする
+ */
+export const toWritePayload = (
+  record: KintoneRecord,
+  formProperties?: Record<string, KintoneFieldProperties>
+): WritePayload => {
+  const lookupTargets = formProperties ? getLookupTargetCodes(formProperties) : new Set<string>()
+  const writableFields: Record<string, KintoneField | SubtableField> = {}
+
+  for (const [fieldCode, field] of Object.entries(record)) {
+    if (SYSTEM_FIELD_CODES.has(fieldCode) || isReadOnlyField(field.type) || lookupTargets.has(fieldCode)) {
+      continue
+    }
+    if (formProperties && !(fieldCode in formProperties)) {
+      continue
+    }
+    if (field.type === 'SUBTABLE') {
+      const subtableProperties = formProperties?.[fieldCode]
+      const columnCodes = subtableProperties?.type === 'SUBTABLE'
+        ? new Set(Object.keys(subtableProperties.fields))
+        : undefined
+      writableFields[fieldCode] = toWritableSubtable(field, columnCodes, lookupTargets)
+    } else {
+      writableFields[fieldCode] = field
+    }
+  }
+
+  // ルックアップのコピー先は除外しているため、レコードにない required のフィールドはチェックしない
+  validateRecordForWrite(writableFields, formProperties, { onMissingRequired: 'ignore' })
+
+  const payload: WritePayload = {}
+  for (const [fieldCode, field] of Object.entries(writableFields)) {
+    payload[fieldCode] = {
+      value: field.type === 'SUBTABLE' ? toSubtableWriteValue(field) : toWriteValue(field),
+    }
+  }
+
+  return payload
+}
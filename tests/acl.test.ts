@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import { evaluateAcl, evaluateAclEffect, UnknownAclFieldCode, type AclSettings } from '../src/acl.js'
+import type { GetFormFieldsResponse } from '../src/schemas/form/fields.js'
+import { QueryEvaluationError } from '../src/query/errors.js'
+import { formatMessage } from '../src/messages.js'
+
+const formProperties = {
+  $id: { type: '__ID__', code: '$id', label: '$id', noLabel: false },
+  作成者: { type: 'CREATOR', code: '作成者', label: '作成者', noLabel: false },
+  顧客名: { type: 'SINGLE_LINE_TEXT', code: '顧客名', label: '顧客名', noLabel: false, required: false },
+  amount: { type: 'NUMBER', code: 'amount', label: '金額', noLabel: false, required: false },
+  原価: { type: 'NUMBER', code: '原価', label: '原価', noLabel: false, required: false },
+  担当者: { type: 'USER_SELECT', code: '担当者', label: '担当者', noLabel: false, required: false },
+} as unknown as GetFormFieldsResponse['properties']
+
+const allRecordRights = {
+  appEditable: false,
+  recordViewable: true,
+  recordAddable: true,
+  recordEditable: true,
+  recordDeletable: true,
+  recordImportable: false,
+  recordExportable: false,
+}
+
+const settings: AclSettings = {
+  app: [
+    { entity: { type: 'USER', code: 'admin' }, includeSubs: false, ...allRecordRights, appEditable: true, recordImportable: true, recordExportable: true },
+    { entity: { type: 'ORGANIZATION', code: '営業部' }, includeSubs: true, ...allRecordRights },
+    { entity: { type: 'CREATOR', code: null }, includeSubs: false, ...allRecordRights, recordDeletable: false },
+  ],
+  record: [
+    {
+      filterCond: 'amount >= 1000000',
+      entities: [
+        { entity: { type: 'FIELD_ENTITY', code: '担当者' }, viewable: true, editable: true, deletable: false, includeSubs: false },
+        { entity: { type: 'ORGANIZATION', code: '営業部' }, viewable: true, editable: false, deletable: false, includeSubs: true },
+      ],
+    },
+  ],
+  field: [
+    {
+      code: '原価',
+      entities: [{ accessibility: 'READ', entity: { type: 'GROUP', code: 'Administrators' }, includeSubs: false }],
+    },
+  ],
+}
+
+const record = (amount: string, owner = 'suzuki') => ({
+  $id: { type: '__ID__', value: '1' },
+  作成者: { type: 'CREATOR', value: { code: 'tanaka', name: 'Tanaka' } },
+  顧客名: { type: 'SINGLE_LINE_TEXT', value: 'サイボウズ' },
+  amount: { type: 'NUMBER', value: amount },
+  原価: { type: 'NUMBER', value: '100' },
+  担当者: { type: 'USER_SELECT', value: [{ code: owner, name: owner }] },
+})
+
+const sato = { code: 'sato', organizations: ['営業1課'], parentOrganizations: ['営業部'] }
+
+describe('evaluateAcl', () => {
+  it('should use the first app right matching the user', () => {
+    const { record: rights } = evaluateAcl(settings, formProperties, { code: 'admin' }, record('100'))
+    expect(rights).toEqual({
+      viewable: true,
+      addable: true,
+      editable: true,
+      deletable: true,
+      importable: true,
+      exportable: true,
+      appEditable: true,
+    })
+
+    expect(evaluateAcl(settings, formProperties, { code: 'tanaka' }, record('100')).record).toMatchObject({
+      viewable: true,
+      deletable: false,
+    })
+    expect(evaluateAcl(settings, formProperties, { code: 'guest' }, record('100')).record).toMatchObject({
+      viewable: false,
+      addable: false,
+      editable: false,
+    })
+  })
+
+  it('should restrict the app rights with the first record right whose filterCond matches', () => {
+    expect(evaluateAcl(settings, formProperties, sato, record('100')).record).toMatchObject({
+      viewable: true,
+      editable: true,
+      deletable: true,
+    })
+    expect(evaluateAcl(settings, formProperties, sato, record('2000000')).record).toMatchObject({
+      viewable: true,
+      editable: false,
+      deletable: false,
+    })
+    expect(evaluateAcl(settings, formProperties, sato, record('2000000', 'sato')).record).toMatchObject({
+      viewable: true,
+      editable: true,
+      deletable: false,
+    })
+    // 条件に一致するレコードで、どのエンティティにも該当しないユーザーは閲覧できない
+    expect(evaluateAcl(settings, formProperties, { code: 'tanaka' }, record('2000000')).record.viewable).toBe(false)
+  })
+
+  it('should compute the accessibility of every field capped by the record rights', () => {
+    expect(evaluateAcl(settings, formProperties, sato, record('100')).fields).toEqual({
+      $id: 'WRITE',
+      作成者: 'WRITE',
+      顧客名: 'WRITE',
+      amount: 'WRITE',
+      原価: 'NONE',
+      担当者: 'WRITE',
+    })
+    expect(
+      evaluateAcl(settings, formProperties, { ...sato, groups: ['Administrators'] }, record('2000000')).fields
+    ).toMatchObject({ 顧客名: 'READ', 原価: 'READ' })
+    expect(Object.values(evaluateAcl(settings, formProperties, { code: 'guest' }, record('100')).fields)).toEqual(
+      Array(6).fill('NONE')
+    )
+  })
+
+  it('should reject field codes that are not in the form', () => {
+    const stale: AclSettings = {
+      ...settings,
+      record: [{ filterCond: '', entities: [{ entity: { type: 'FIELD_ENTITY', code: '旧担当者' }, viewable: true, editable: true, deletable: true, includeSubs: false }] }],
+      field: [{ code: '旧原価', entities: [] }],
+    }
+
+    expect(() => evaluateAcl(stale, formProperties, sato, record('100'))).toThrow(
+      'アクセス権の設定がフォームにないフィールドコードを参照しています: "旧担当者", "旧原価"'
+    )
+
+    const exit = Effect.runSyncExit(evaluateAclEffect(stale, formProperties, sato, record('100')))
+    expect(Exit.isFailure(exit)).toBe(true)
+    if (Exit.isFailure(exit) && exit.cause._tag === 'Fail') {
+      expect(exit.cause.error).toBeInstanceOf(UnknownAclFieldCode)
+      expect(exit.cause.error.fieldCodes).toEqual(['旧担当者', '旧原価'])
+      expect(formatMessage('aclUnknownFieldCodes', exit.cause.error, 'en')).toBe(
+        'ACL references unknown field codes: "旧担当者", "旧原価"'
+      )
+    }
+  })
+
+  it('should fail the Effect with the query error when a record right filterCond cannot be evaluated', () => {
+    const byOrganization: AclSettings = {
+      ...settings,
+      record: [{ filterCond: '部署 in (PRIMARY_ORGANIZATION())', entities: [] }],
+    }
+    const properties = {
+      ...formProperties,
+      部署: { type: 'ORGANIZATION_SELECT', code: '部署', label: '部署', noLabel: false, required: false },
+    } as unknown as GetFormFieldsResponse['properties']
+    const target = { ...record('100'), 部署: { type: 'ORGANIZATION_SELECT', value: [] } }
+
+    expect(() => evaluateAcl(byOrganization, properties, sato, target)).toThrow(QueryEvaluationError)
+    expect(Effect.runSync(Effect.flip(evaluateAclEffect(byOrganization, properties, sato, target)))).toBeInstanceOf(
+      QueryEvaluationError
+    )
+  })
+
+  it('should succeed in the Effect variant', () => {
+    const exit = Effect.runSyncExit(evaluateAclEffect(settings, formProperties, { code: 'admin' }, record('100')))
+    expect(Exit.isSuccess(exit)).toBe(true)
+  })
+})
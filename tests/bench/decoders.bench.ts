@@ -0,0 +1,61 @@
+import { bench, describe } from 'vitest'
+import { Schema } from 'effect'
+import { GetRecordsResponseSchema, KintoneRecordSchema } from '../../src/schemas/record.js'
+import { decodeGetRecordsResponse, decodeKintoneRecord } from '../../src/decoders.js'
+
+// レコード一覧取得APIのレスポンスを模したデータ（各種フィールドと5行のサブテーブルを持つレコード）
+const createRecord = (index: number) => ({
+  $id: { type: 'RECORD_ID', value: String(index) },
+  $revision: { type: 'REVISION', value: '1' },
+  record_number: { type: 'RECORD_NUMBER', value: String(index) },
+  title: { type: 'SINGLE_LINE_TEXT', value: `Record ${String(index)}` },
+  description: { type: 'MULTI_LINE_TEXT', value: 'line1\nline2' },
+  price: { type: 'NUMBER', value: String(index * 100) },
+  total: { type: 'CALC', value: String(index * 110) },
+  status: { type: 'RADIO_BUTTON', value: 'Open' },
+  tags: { type: 'CHECK_BOX', value: ['A', 'B'] },
+  due: { type: 'DATE', value: '2024-01-01' },
+  owner: { type: 'USER_SELECT', value: [{ code: 'user1', name: 'User 1' }] },
+  attachments: { type: 'FILE', value: [] },
+  creator: { type: 'CREATOR', value: { code: 'user1', name: 'User 1' } },
+  created: { type: 'CREATED_TIME', value: '2024-01-01T00:00:00Z' },
+  modifier: { type: 'MODIFIER', value: { code: 'user1', name: 'User 1' } },
+  updated: { type: 'UPDATED_TIME', value: '2024-01-01T00:00:00Z' },
+  items: {
+    type: 'SUBTABLE',
+    value: Array.from({ length: 5 }, (_, row) => ({
+      id: String(row),
+      value: {
+        name: { type: 'SINGLE_LINE_TEXT', value: `Item ${String(row)}` },
+        quantity: { type: 'NUMBER', value: String(row + 1) },
+        unit: { type: 'DROP_DOWN', value: 'pcs' },
+      },
+    })),
+  },
+})
+
+const response = {
+  records: Array.from({ length: 500 }, (_, index) => createRecord(index)),
+  totalCount: '500',
+}
+const record = createRecord(0)
+
+describe('GetRecordsResponse (500 records)', () => {
+  bench('Schema.decodeUnknownSync(GetRecordsResponseSchema)', () => {
+    Schema.decodeUnknownSync(GetRecordsResponseSchema)(response)
+  })
+
+  bench('decodeGetRecordsResponse', () => {
+    decodeGetRecordsResponse(response)
+  })
+})
+
+describe('single record', () => {
+  bench('Schema.decodeUnknownSync(KintoneRecordSchema)', () => {
+    Schema.decodeUnknownSync(KintoneRecordSchema)(record)
+  })
+
+  bench('decodeKintoneRecord', () => {
+    decodeKintoneRecord(record)
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { checkFieldConstraints, isEmptyFieldValue } from '../src/constraints.js'
+
+describe('Field Constraints', () => {
+  describe('isEmptyFieldValue', () => {
+    it('should treat empty string, null, undefined and empty array as empty', () => {
+      expect(isEmptyFieldValue('')).toBe(true)
+      expect(isEmptyFieldValue(null)).toBe(true)
+      expect(isEmptyFieldValue(undefined)).toBe(true)
+      expect(isEmptyFieldValue([])).toBe(true)
+      expect(isEmptyFieldValue('0')).toBe(false)
+      expect(isEmptyFieldValue(['A'])).toBe(false)
+    })
+  })
+
+  describe('checkFieldConstraints', () => {
+    const text = {
+      type: 'SINGLE_LINE_TEXT' as const,
+      code: 'title',
+      label: 'タイトル',
+      required: true,
+      defaultValue: '',
+      minLength: '2',
+      maxLength: '5',
+    }
+
+    it('should report required fields with empty values', () => {
+      expect(checkFieldConstraints(text, '')).toEqual([
+        {
+          fieldCode: 'title',
+          constraint: 'required',
+          expected: undefined,
+          actual: '',
+          message: 'フィールド "title": 必須項目です (required)',
+        },
+      ])
+    })
+
+    it('should check minLength and maxLength on text fields', () => {
+      expect(checkFieldConstraints(text, 'a').map((v) => v.constraint)).toEqual(['minLength'])
+      expect(checkFieldConstraints(text, 'abcdef').map((v) => v.constraint)).toEqual(['maxLength'])
+      expect(checkFieldConstraints(text, 'abc')).toEqual([])
+    })
+
+    it('should count surrogate pairs as one character', () => {
+      expect(checkFieldConstraints(text, '𩸽𩸽')).toEqual([])
+    })
+
+    it('should ignore limits that are not set', () => {
+      expect(checkFieldConstraints({ ...text, required: false, minLength: '', maxLength: '' }, '')).toEqual([])
+      expect(checkFieldConstraints({ ...text, minLength: '', maxLength: '' }, 'a'.repeat(100))).toEqual([])
+    })
+
+    it('should check minValue and maxValue on number fields', () => {
+      const number = {
+        type: 'NUMBER' as const,
+        code: 'price',
+        label: '価格',
+        defaultValue: '',
+        minValue: '0',
+        maxValue: '1000',
+        displayScale: '2',
+        unit: '',
+      }
+
+      expect(checkFieldConstraints(number, '-1').map((v) => v.constraint)).toEqual(['minValue'])
+      expect(checkFieldConstraints(number, '1000.01').map((v) => v.constraint)).toEqual(['maxValue'])
+      // displayScale は表示時に丸めるだけで、kintone は桁数の多い値も保存する
+      expect(checkFieldConstraints(number, '1.234')).toEqual([])
+      expect(checkFieldConstraints(number, 'abc').map((v) => v.constraint)).toEqual(['number'])
+      expect(checkFieldConstraints(number, '999.99')).toEqual([])
+      expect(checkFieldConstraints(number, null)).toEqual([])
+    })
+
+    it('should check the LINK protocol format', () => {
+      const link = (protocol: 'WEB' | 'CALL' | 'MAIL') => ({
+        type: 'LINK' as const,
+        code: 'link',
+        label: 'リンク',
+        protocol,
+        defaultValue: '',
+        minLength: '',
+        maxLength: '',
+      })
+
+      expect(checkFieldConstraints(link('WEB'), 'https://example.com')).toEqual([])
+      expect(checkFieldConstraints(link('WEB'), 'example.com').map((v) => v.constraint)).toEqual(['protocol'])
+      expect(checkFieldConstraints(link('MAIL'), 'user@example.com')).toEqual([])
+      expect(checkFieldConstraints(link('MAIL'), 'user').map((v) => v.constraint)).toEqual(['protocol'])
+      expect(checkFieldConstraints(link('CALL'), '03-1234-5678')).toEqual([])
+      expect(checkFieldConstraints(link('CALL'), 'phone').map((v) => v.constraint)).toEqual(['protocol'])
+    })
+
+    it('should report required on array fields', () => {
+      expect(
+        checkFieldConstraints(
+          {
+            type: 'CHECK_BOX',
+            code: 'tags',
+            label: 'タグ',
+            required: true,
+            options: {},
+            defaultValue: [],
+          },
+          []
+        ).map((v) => v.constraint)
+      ).toEqual(['required'])
+    })
+
+    it('should check option membership on selection fields', () => {
+      const options = {
+        A: { label: 'A', index: '0' },
+        B: { label: 'B', index: '1' },
+      }
+      const dropDown = {
+        type: 'DROP_DOWN' as const,
+        code: 'size',
+        label: 'サイズ',
+        options,
+        defaultValue: '',
+      }
+      const checkBox = {
+        type: 'CHECK_BOX' as const,
+        code: 'tags',
+        label: 'タグ',
+        options,
+        defaultValue: [],
+      }
+
+      expect(checkFieldConstraints(dropDown, 'A')).toEqual([])
+      expect(checkFieldConstraints(dropDown, 'Z')).toEqual([
+        {
+          fieldCode: 'size',
+          constraint: 'option',
+          expected: ['A', 'B'],
+          actual: 'Z',
+          message: 'フィールド "size": "Z"は選択肢にありません (option)',
+        },
+      ])
+      expect(checkFieldConstraints(checkBox, ['A', 'X', 'B', 'Y']).map((v) => v.message)).toEqual([
+        'フィールド "tags": "X"は選択肢にありません (option)',
+        'フィールド "tags": "Y"は選択肢にありません (option)',
+      ])
+    })
+  })
+})
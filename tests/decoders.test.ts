@@ -1,8 +1,15 @@
 import { describe, it, expect } from 'vitest'
+import { Effect, Either, ParseResult } from 'effect'
 import { 
   normalizeFieldValue, 
   decodeKintoneField,
-  decodeKintoneRecord 
+  decodeKintoneFieldEffect,
+  decodeKintoneFieldEither,
+  decodeKintoneRecord,
+  decodeKintoneRecordEffect,
+  decodeKintoneRecordEither,
+  decodeGetRecordsResponse,
+  decodeGetRecordsResponseEither,
 } from '../src/decoders.js'
 
 describe('Field Value Normalization', () => {
@@ -191,5 +198,217 @@ describe('Field Value Normalization', () => {
         },
       })
     })
+
+    it('should normalize every cell in subtable rows', () => {
+      const input = {
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            {
+              id: '1',
+              value: {
+                item_name: { type: 'SINGLE_LINE_TEXT', value: undefined },
+                quantity: { type: 'NUMBER', value: '' },
+                tags: { type: 'CHECK_BOX', value: null },
+              },
+            },
+            {
+              id: '2',
+              value: {
+                item_name: { type: 'SINGLE_LINE_TEXT', value: 'Item 2' },
+                quantity: { type: 'NUMBER', value: '3' },
+                tags: { type: 'CHECK_BOX', value: ['A'] },
+              },
+            },
+          ],
+        },
+      }
+
+      const result = decodeKintoneRecord(input)
+      expect(result).toEqual({
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            {
+              id: '1',
+              value: {
+                item_name: { type: 'SINGLE_LINE_TEXT', value: '' },
+                quantity: { type: 'NUMBER', value: null },
+                tags: { type: 'CHECK_BOX', value: [] },
+              },
+            },
+            {
+              id: '2',
+              value: {
+                item_name: { type: 'SINGLE_LINE_TEXT', value: 'Item 2' },
+                quantity: { type: 'NUMBER', value: '3' },
+                tags: { type: 'CHECK_BOX', value: ['A'] },
+              },
+            },
+          ],
+        },
+      })
+    })
+
+    it('should normalize an undefined subtable value to an empty array', () => {
+      const result = decodeKintoneRecord({
+        items: { type: 'SUBTABLE', value: undefined },
+      })
+      expect(result).toEqual({
+        items: { type: 'SUBTABLE', value: [] },
+      })
+    })
+
+    it('should throw when a normalized record does not match the schema', () => {
+      const input = {
+        number_field: {
+          type: 'NUMBER',
+          value: 100,
+        },
+      }
+
+      expect(() => decodeKintoneRecord(input)).toThrow()
+    })
+  })
+
+  describe('decodeKintoneFieldEffect / decodeKintoneFieldEither', () => {
+    it('should succeed with the normalized field', () => {
+      const input = { type: 'DROP_DOWN', value: '' }
+
+      expect(Effect.runSync(decodeKintoneFieldEffect(input))).toEqual({
+        type: 'DROP_DOWN',
+        value: null,
+      })
+      expect(decodeKintoneFieldEither(input)).toEqual(
+        Either.right({ type: 'DROP_DOWN', value: null })
+      )
+    })
+
+    it('should fail with a ParseError instead of throwing', () => {
+      const input = { type: 'NUMBER', value: 100 }
+
+      const result = decodeKintoneFieldEither(input)
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        expect(ParseResult.isParseError(result.left)).toBe(true)
+      }
+
+      const error = Effect.runSync(Effect.flip(decodeKintoneFieldEffect(input)))
+      expect(error._tag).toBe('ParseError')
+    })
+  })
+
+  describe('decodeKintoneRecordEffect / decodeKintoneRecordEither', () => {
+    it('should succeed with the normalized record', () => {
+      const input = {
+        title: { type: 'SINGLE_LINE_TEXT', value: undefined },
+        price: { type: 'NUMBER', value: '' },
+      }
+
+      expect(Effect.runSync(decodeKintoneRecordEffect(input))).toEqual({
+        title: { type: 'SINGLE_LINE_TEXT', value: '' },
+        price: { type: 'NUMBER', value: null },
+      })
+    })
+
+    it('should report the field code in the ParseError path', () => {
+      const input = {
+        title: { type: 'SINGLE_LINE_TEXT', value: 'ok' },
+        price: { type: 'NUMBER', value: 100 },
+      }
+
+      const result = decodeKintoneRecordEither(input)
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        const issues = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+        expect(issues.length).toBeGreaterThan(0)
+        expect(issues.every((issue) => issue.path[0] === 'price')).toBe(true)
+      }
+    })
+
+    it('should report the row index and cell code for subtable errors', () => {
+      const input = {
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            { id: '1', value: { quantity: { type: 'NUMBER', value: '1' } } },
+            { id: '2', value: { quantity: { type: 'NUMBER', value: 2 } } },
+          ],
+        },
+      }
+
+      const result = decodeKintoneRecordEither(input)
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        const issues = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+        expect(
+          issues.some((issue) =>
+            issue.path.join('.') === 'items.value.1.value.quantity.value'
+          )
+        ).toBe(true)
+      }
+    })
+  })
+
+  describe('decoding dispatched on the field type', () => {
+    it('should strip properties that are not in the field schema', () => {
+      const input = {
+        title: { type: 'SINGLE_LINE_TEXT', value: 'Hello', label: 'Title' },
+        items: {
+          type: 'SUBTABLE',
+          value: [{ id: '1', extra: true, value: { qty: { type: 'NUMBER', value: '1', extra: 1 } } }],
+        },
+      }
+
+      expect(decodeKintoneRecord(input)).toEqual({
+        title: { type: 'SINGLE_LINE_TEXT', value: 'Hello' },
+        items: { type: 'SUBTABLE', value: [{ id: '1', value: { qty: { type: 'NUMBER', value: '1' } } }] },
+      })
+    })
+
+    it('should fall back to the union schema for the ParseError', () => {
+      const result = decodeKintoneFieldEither({ type: 'SUBTABLE', value: [] })
+
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe('ParseError')
+      }
+    })
+  })
+
+  describe('decodeGetRecordsResponse', () => {
+    it('should decode and normalize every record', () => {
+      const input = {
+        records: [
+          { $id: { type: 'RECORD_ID', value: '1' }, price: { type: 'NUMBER', value: '' } },
+          { $id: { type: 'RECORD_ID', value: '2' }, price: { type: 'NUMBER', value: '100' } },
+        ],
+        totalCount: '2',
+      }
+
+      expect(decodeGetRecordsResponse(input)).toEqual({
+        records: [
+          { $id: { type: 'RECORD_ID', value: '1' }, price: { type: 'NUMBER', value: null } },
+          { $id: { type: 'RECORD_ID', value: '2' }, price: { type: 'NUMBER', value: '100' } },
+        ],
+        totalCount: '2',
+      })
+    })
+
+    it('should report the record index in the ParseError path', () => {
+      const result = decodeGetRecordsResponseEither({
+        records: [
+          { price: { type: 'NUMBER', value: '1' } },
+          { price: { type: 'NUMBER', value: 2 } },
+        ],
+        totalCount: null,
+      })
+
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        const issues = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+        expect(issues.some((issue) => issue.path.join('.') === 'records.1.price.value')).toBe(true)
+      }
+    })
   })
-})
\ No newline at end of file
+})
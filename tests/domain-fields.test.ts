@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { BigDecimal, DateTime, Schema } from 'effect'
+import {
+  DomainNumberFieldSchema,
+  DomainDateFieldSchema,
+  DomainTimeFieldSchema,
+  DomainDateTimeFieldSchema,
+  DomainFileFieldSchema,
+  DomainRecordIdFieldSchema,
+  DomainKintoneRecordSchema,
+} from '../src/schemas/domain-fields.js'
+
+describe('Domain Field Schemas', () => {
+  describe('DomainNumberFieldSchema', () => {
+    it('should decode the numeric string to BigDecimal', () => {
+      const result = Schema.decodeUnknownSync(DomainNumberFieldSchema)({
+        type: 'NUMBER',
+        value: '123.45',
+      })
+      expect(result.value).not.toBeNull()
+      expect(BigDecimal.equals(result.value!, BigDecimal.unsafeFromString('123.45'))).toBe(true)
+    })
+
+    it('should keep trailing zeros when encoding back to the wire format', () => {
+      const roundTrip = (value: string | null) =>
+        Schema.encodeSync(DomainNumberFieldSchema)(
+          Schema.decodeUnknownSync(DomainNumberFieldSchema)({ type: 'NUMBER', value })
+        )
+
+      expect(roundTrip('1.50')).toEqual({ type: 'NUMBER', value: '1.50' })
+      expect(roundTrip('-0.05')).toEqual({ type: 'NUMBER', value: '-0.05' })
+      expect(roundTrip('1000')).toEqual({ type: 'NUMBER', value: '1000' })
+      expect(roundTrip(null)).toEqual({ type: 'NUMBER', value: null })
+    })
+
+    it('should fail for non-numeric strings', () => {
+      expect(() =>
+        Schema.decodeUnknownSync(DomainNumberFieldSchema)({ type: 'NUMBER', value: 'abc' })
+      ).toThrow()
+    })
+
+    it('should only accept the kintone number format so encoding stays lossless', () => {
+      for (const value of ['1e3', ' 5', '0x10', '1.', '.5', '+1']) {
+        expect(() =>
+          Schema.decodeUnknownSync(DomainNumberFieldSchema)({ type: 'NUMBER', value })
+        ).toThrow()
+      }
+    })
+
+    it('should decode an empty number to null instead of 0', () => {
+      const decoded = Schema.decodeUnknownSync(DomainNumberFieldSchema)({ type: 'NUMBER', value: '' })
+      expect(decoded).toEqual({ type: 'NUMBER', value: null })
+      expect(Schema.encodeSync(DomainNumberFieldSchema)(decoded)).toEqual({ type: 'NUMBER', value: null })
+    })
+  })
+
+  describe('DomainDateFieldSchema / DomainTimeFieldSchema', () => {
+    it('should decode to calendar date and local time', () => {
+      expect(
+        Schema.decodeUnknownSync(DomainDateFieldSchema)({ type: 'DATE', value: '2024-02-29' })
+      ).toEqual({ type: 'DATE', value: { year: 2024, month: 2, day: 29 } })
+      expect(
+        Schema.decodeUnknownSync(DomainTimeFieldSchema)({ type: 'TIME', value: '09:05' })
+      ).toEqual({ type: 'TIME', value: { hour: 9, minute: 5 } })
+    })
+
+    it('should encode back to the wire strings', () => {
+      expect(
+        Schema.encodeSync(DomainDateFieldSchema)({ type: 'DATE', value: { year: 2024, month: 1, day: 5 } })
+      ).toEqual({ type: 'DATE', value: '2024-01-05' })
+      expect(
+        Schema.encodeSync(DomainTimeFieldSchema)({ type: 'TIME', value: { hour: 7, minute: 0 } })
+      ).toEqual({ type: 'TIME', value: '07:00' })
+    })
+
+    it('should reject dates that do not exist', () => {
+      expect(() =>
+        Schema.decodeUnknownSync(DomainDateFieldSchema)({ type: 'DATE', value: '2023-02-29' })
+      ).toThrow()
+      expect(() =>
+        Schema.decodeUnknownSync(DomainTimeFieldSchema)({ type: 'TIME', value: '24:00' })
+      ).toThrow()
+    })
+  })
+
+  describe('DomainDateTimeFieldSchema', () => {
+    it('should decode to DateTime.Utc and encode without milliseconds', () => {
+      const decoded = Schema.decodeUnknownSync(DomainDateTimeFieldSchema)({
+        type: 'DATETIME',
+        value: '2012-01-11T11:30:00Z',
+      })
+      expect(decoded.value).not.toBeNull()
+      expect(DateTime.isUtc(decoded.value!)).toBe(true)
+      expect(DateTime.toEpochMillis(decoded.value!)).toBe(Date.UTC(2012, 0, 11, 11, 30))
+
+      expect(Schema.encodeSync(DomainDateTimeFieldSchema)(decoded)).toEqual({
+        type: 'DATETIME',
+        value: '2012-01-11T11:30:00Z',
+      })
+    })
+
+    it('should only accept the kintone ISO format', () => {
+      const decode = Schema.decodeUnknownSync(DomainDateTimeFieldSchema)
+
+      expect(DateTime.toEpochMillis(decode({ type: 'DATETIME', value: '2024-01-01T09:00:00+09:00' }).value!)).toBe(
+        Date.UTC(2024, 0, 1)
+      )
+      for (const value of ['Jan 1 2024', '2024-01-01', '2024-01-01 00:00:00Z', '1704067200000']) {
+        expect(() => decode({ type: 'DATETIME', value })).toThrow()
+      }
+    })
+  })
+
+  describe('DomainFileFieldSchema / DomainRecordIdFieldSchema', () => {
+    it('should decode file size and record id to numbers', () => {
+      const file = {
+        contentType: 'text/plain',
+        fileKey: 'abc',
+        name: 'a.txt',
+        size: '1024',
+      }
+      expect(
+        Schema.decodeUnknownSync(DomainFileFieldSchema)({ type: 'FILE', value: [file] })
+      ).toEqual({ type: 'FILE', value: [{ ...file, size: 1024 }] })
+      expect(
+        Schema.decodeUnknownSync(DomainRecordIdFieldSchema)({ type: 'RECORD_ID', value: '42' })
+      ).toEqual({ type: 'RECORD_ID', value: 42 })
+    })
+
+    it('should reject non-integer record ids', () => {
+      expect(() =>
+        Schema.decodeUnknownSync(DomainRecordIdFieldSchema)({ type: 'RECORD_ID', value: '1.5' })
+      ).toThrow()
+      for (const value of ['0x10', ' 5', '1e3', '-1', '']) {
+        expect(() =>
+          Schema.decodeUnknownSync(DomainRecordIdFieldSchema)({ type: 'RECORD_ID', value })
+        ).toThrow()
+      }
+    })
+  })
+
+  describe('DomainKintoneRecordSchema', () => {
+    it('should round-trip a whole record losslessly', () => {
+      const input = {
+        title: { type: 'SINGLE_LINE_TEXT', value: 'Order' },
+        price: { type: 'NUMBER', value: '1980.00' },
+        ordered_at: { type: 'DATETIME', value: '2024-04-01T00:00:00Z' },
+        created: { type: 'CREATED_TIME', value: '2024-03-31T23:59:00Z' },
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            {
+              id: '10',
+              value: {
+                delivery: { type: 'DATE', value: '2024-04-10' },
+                amount: { type: 'NUMBER', value: null },
+              },
+            },
+          ],
+        },
+      }
+
+      const decoded = Schema.decodeUnknownSync(DomainKintoneRecordSchema)(input)
+      expect(Schema.encodeSync(DomainKintoneRecordSchema)(decoded)).toEqual(input)
+    })
+  })
+})
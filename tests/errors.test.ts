@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EmptyValueNotAllowed,
+  UnknownFieldCode,
+  ReadOnlyField,
+  OptionNotFound,
+  ConstraintViolation,
+  isKintoneValidationError,
+} from '../src/errors.js'
+
+describe('Validation Errors', () => {
+  it('should render messages with the field code', () => {
+    expect(new EmptyValueNotAllowed({ fieldCode: 'status', fieldType: 'RADIO_BUTTON', path: ['status'], actual: null }).message)
+      .toBe('フィールド "status": RADIO_BUTTONフィールドには空の値を設定できません')
+    expect(new UnknownFieldCode({ fieldCode: 'old', path: ['old'] }).message)
+      .toBe('フィールド "old": フォームに存在しないフィールドです')
+    expect(new ReadOnlyField({ fieldCode: 'total', fieldType: 'CALC', path: ['total'] }).message)
+      .toBe('フィールド "total": CALCフィールドには値を書き込めません')
+    expect(new OptionNotFound({ fieldCode: 'size', fieldType: 'DROP_DOWN', path: ['size'], expected: ['S'], actual: 'L' }).message)
+      .toBe('フィールド "size": "L"は選択肢にありません (option)')
+    expect(
+      new ConstraintViolation({
+        fieldCode: 'title',
+        fieldType: 'SINGLE_LINE_TEXT',
+        path: ['title'],
+        constraint: 'maxLength',
+        expected: 10,
+        actual: 12,
+      }).message
+    ).toBe('フィールド "title": 10文字以下で入力してください (maxLength)')
+  })
+
+  it('should render the subtable row for subtable paths', () => {
+    const error = new ConstraintViolation({
+      fieldCode: 'qty',
+      fieldType: 'NUMBER',
+      path: ['items', 2, 'qty'],
+      constraint: 'required',
+      expected: undefined,
+      actual: '',
+    })
+
+    expect(error.message).toBe('サブテーブル "items" 3行目のフィールド "qty": 必須項目です (required)')
+  })
+
+  it('should omit the field code when it is unknown', () => {
+    expect(new EmptyValueNotAllowed({ fieldType: 'CATEGORY', path: [], actual: [] }).message)
+      .toBe('CATEGORYフィールドには空の値を設定できません')
+  })
+
+  it('should identify validation errors', () => {
+    expect(isKintoneValidationError(new UnknownFieldCode({ fieldCode: 'x', path: ['x'] }))).toBe(true)
+    expect(isKintoneValidationError(new Error('x'))).toBe(false)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import {
+  KintoneFieldTypeRegistry,
+  getFieldTypeDefinition,
+  getFieldEmptyValue,
+} from '../src/schemas/field-registry.js'
+import { KintoneFieldSchema } from '../src/schemas/fields.js'
+import { decodeKintoneRecord, normalizeFieldValue } from '../src/decoders.js'
+import { getEmptyValueForWrite, isReadOnlyField } from '../src/validators.js'
+import {
+  convertFormFieldToRecordSchema,
+  getRecordFieldType,
+} from '../src/utils/form-to-record-converter.js'
+import type { KintoneFieldProperties } from '../src/schemas/form/fields.js'
+import type { KintoneFieldType } from '../src/types/kintone.js'
+
+const fieldTypes = Object.keys(KintoneFieldTypeRegistry) as KintoneFieldType[]
+
+describe('KintoneFieldTypeRegistry', () => {
+  it('should define the form-only and system field types', () => {
+    expect(fieldTypes).toEqual(
+      expect.arrayContaining(['REFERENCE_TABLE', 'GROUP', 'SPACER', 'LABEL', '__ID__', '__REVISION__'])
+    )
+  })
+
+  it('should use the members of KintoneFieldSchema as record schemas', () => {
+    const recordSchemas = fieldTypes
+      .filter((type) => type !== 'SUBTABLE')
+      .flatMap((type) => KintoneFieldTypeRegistry[type].recordSchema ?? [])
+    expect(recordSchemas).toHaveLength(KintoneFieldSchema.members.length)
+    for (const member of KintoneFieldSchema.members) {
+      expect(recordSchemas).toContain(member)
+    }
+  })
+
+  it('should have no record schema for layout fields', () => {
+    for (const type of ['REFERENCE_TABLE', 'GROUP', 'SPACER', 'LABEL'] as const) {
+      expect(KintoneFieldTypeRegistry[type].recordSchema).toBeUndefined()
+      expect(KintoneFieldTypeRegistry[type].readOnly).toBe(true)
+    }
+  })
+
+  it('should have no write schema for read-only fields', () => {
+    for (const type of fieldTypes) {
+      const definition = KintoneFieldTypeRegistry[type]
+      if (definition.readOnly) {
+        expect(definition.writeSchema, type).toBeUndefined()
+      }
+    }
+  })
+
+  it('should accept the form properties of system fields', () => {
+    const properties = KintoneFieldTypeRegistry.__ID__.propertiesSchema
+    expect(properties && Schema.is(properties)({ type: '__ID__', code: '$id', label: 'レコードID' })).toBe(true)
+  })
+})
+
+describe('getFieldTypeDefinition', () => {
+  it('should return undefined for unknown types', () => {
+    expect(getFieldTypeDefinition('UNKNOWN')).toBeUndefined()
+    expect(getFieldTypeDefinition('toString')).toBeUndefined()
+  })
+})
+
+describe('getFieldEmptyValue', () => {
+  it('should return a new array for array fields', () => {
+    const first = getFieldEmptyValue('CHECK_BOX')
+    const second = getFieldEmptyValue('CHECK_BOX')
+    expect(first).toEqual([])
+    expect(first).not.toBe(second)
+  })
+
+  it('should match the empty value for write', () => {
+    for (const type of fieldTypes) {
+      if (!KintoneFieldTypeRegistry[type].nonEmpty) {
+        expect(getEmptyValueForWrite(type), type).toEqual(getFieldEmptyValue(type))
+      }
+    }
+  })
+})
+
+describe('system record fields', () => {
+  it('should decode $id and $revision of the record APIs', () => {
+    const record = decodeKintoneRecord({
+      $id: { type: '__ID__', value: '1' },
+      $revision: { type: '__REVISION__', value: '5' },
+    })
+
+    expect(record['$id']).toEqual({ type: '__ID__', value: '1' })
+    expect(record['$revision']).toEqual({ type: '__REVISION__', value: '5' })
+  })
+
+  it('should treat $id and $revision as read-only', () => {
+    expect(isReadOnlyField('__ID__')).toBe(true)
+    expect(isReadOnlyField('__REVISION__')).toBe(true)
+  })
+
+  it('should leave system fields as they are on normalization', () => {
+    const field = { type: '__ID__', value: '1' }
+    expect(normalizeFieldValue(field)).toBe(field)
+  })
+})
+
+describe('getRecordFieldType', () => {
+  it('should agree with convertFormFieldToRecordSchema for every form field type', () => {
+    for (const type of fieldTypes) {
+      if (!KintoneFieldTypeRegistry[type].propertiesSchema || type === 'SUBTABLE') {
+        continue
+      }
+      const formField = { type, code: 'field', label: 'Field', options: {} } as unknown as KintoneFieldProperties
+      const hasRecordSchema = convertFormFieldToRecordSchema(formField) !== undefined
+      expect(getRecordFieldType(type) !== undefined, type).toBe(hasRecordSchema)
+    }
+  })
+
+  it('should map the system id fields to themselves', () => {
+    expect(getRecordFieldType('__ID__')).toBe('__ID__')
+    expect(getRecordFieldType('__REVISION__')).toBe('__REVISION__')
+    expect(getRecordFieldType('REFERENCE_TABLE')).toBeUndefined()
+    expect(getRecordFieldType('GROUP')).toBeUndefined()
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { collectFormLayoutIssues } from '../src/form-layout-validation.js'
+import { GetFormLayoutResponseSchema, FormLayoutSchema } from '../src/schemas/form/layout.js'
+import type { GetFormFieldsResponse } from '../src/schemas/form/fields.js'
+
+const layoutResponse = {
+  layout: [
+    {
+      type: 'ROW',
+      fields: [
+        { type: 'SINGLE_LINE_TEXT', code: 'title', size: { width: '193' } },
+        { type: 'LABEL', label: '<b>注意</b>', size: { width: '200' } },
+        { type: 'SPACER', elementId: 'space', size: { width: '100', height: '50' } },
+        { type: 'HR', size: { width: '600' } },
+      ],
+    },
+    {
+      type: 'SUBTABLE',
+      code: 'items',
+      fields: [{ type: 'NUMBER', code: 'quantity', size: { width: '81' } }],
+    },
+    {
+      type: 'GROUP',
+      code: 'details',
+      layout: [
+        {
+          type: 'ROW',
+          fields: [{ type: 'MULTI_LINE_TEXT', code: 'memo', size: { width: '400', innerHeight: '125' } }],
+        },
+      ],
+    },
+  ],
+  revision: '2',
+}
+
+const properties = {
+  title: { type: 'SINGLE_LINE_TEXT', code: 'title', label: 'Title' },
+  memo: { type: 'MULTI_LINE_TEXT', code: 'memo', label: 'Memo' },
+  details: { type: 'GROUP', code: 'details', label: 'Details' },
+  items: {
+    type: 'SUBTABLE',
+    code: 'items',
+    label: 'Items',
+    fields: { quantity: { type: 'NUMBER', code: 'quantity', label: 'Quantity' } },
+  },
+  レコード番号: { type: 'RECORD_NUMBER', code: 'レコード番号', label: 'レコード番号' },
+  ステータス: { type: 'STATUS', code: 'ステータス', label: 'ステータス', enabled: true },
+} as unknown as GetFormFieldsResponse['properties']
+
+describe('collectFormLayoutIssues', () => {
+  it('should accept a layout that places every user field', () => {
+    const { layout } = Schema.decodeUnknownSync(GetFormLayoutResponseSchema)(layoutResponse)
+
+    expect(collectFormLayoutIssues(layout, properties)).toEqual([])
+  })
+
+  it('should report unknown codes, type mismatches and fields missing from the layout', () => {
+    const layout = Schema.decodeUnknownSync(Schema.Array(FormLayoutSchema))([
+      {
+        type: 'ROW',
+        fields: [
+          { type: 'NUMBER', code: 'title' },
+          { type: 'DATE', code: 'deleted' },
+        ],
+      },
+      { type: 'SUBTABLE', code: 'items', fields: [{ type: 'NUMBER', code: 'price' }] },
+    ])
+
+    expect(collectFormLayoutIssues(layout, properties, 'en')).toEqual([
+      {
+        kind: 'typeMismatch',
+        code: 'title',
+        path: [0, 'fields', 0],
+        message: 'Layout places "title" as NUMBER but the field is SINGLE_LINE_TEXT',
+      },
+      {
+        kind: 'unknownCode',
+        code: 'deleted',
+        path: [0, 'fields', 1],
+        message: 'Layout references unknown field code "deleted"',
+      },
+      {
+        kind: 'unknownCode',
+        code: 'price',
+        subtableCode: 'items',
+        path: [1, 'fields', 0],
+        message: 'Layout references unknown field code "price" in table "items"',
+      },
+      { kind: 'missingFromLayout', code: 'memo', path: ['memo'], message: 'Field "memo" is not placed in the layout' },
+      {
+        kind: 'missingFromLayout',
+        code: 'details',
+        path: ['details'],
+        message: 'Field "details" is not placed in the layout',
+      },
+      {
+        kind: 'missingFromLayout',
+        code: 'quantity',
+        subtableCode: 'items',
+        path: ['items', 'quantity'],
+        message: 'Field "quantity" is not placed in table "items"',
+      },
+    ])
+  })
+
+  it('should use the message locale by default', () => {
+    const layout = Schema.decodeUnknownSync(Schema.Array(FormLayoutSchema))([
+      { type: 'ROW', fields: [{ type: 'NUMBER', code: 'title' }] },
+      { type: 'SUBTABLE', code: 'items', fields: [{ type: 'NUMBER', code: 'price' }] },
+    ])
+
+    expect(collectFormLayoutIssues(layout, properties).map(({ message }) => message)).toEqual([
+      'レイアウトが "title" を NUMBER として配置していますが、フィールドは SINGLE_LINE_TEXT です',
+      'レイアウトがテーブル "items" にないフィールドコード "price" を参照しています',
+      'フィールド "memo" がレイアウトに配置されていません',
+      'フィールド "details" がレイアウトに配置されていません',
+      'フィールド "quantity" がテーブル "items" に配置されていません',
+    ])
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import {
+  LenientSingleLineTextFieldSchema,
+  LenientNumberFieldSchema,
+  LenientDateFieldSchema,
+  LenientCheckBoxFieldSchema,
+  LenientRadioButtonFieldSchema,
+  LenientUserSelectFieldSchema,
+  LenientKintoneFieldSchema,
+  LenientKintoneRecordSchema,
+} from '../src/schemas/lenient-fields.js'
+import { KintoneRecordSchema } from '../src/schemas/record.js'
+import { getEmptyValueForWrite } from '../src/validators.js'
+import { normalizeFieldValue } from '../src/decoders.js'
+
+describe('Lenient Field Schemas', () => {
+  describe('decode', () => {
+    it('should normalize undefined to empty string for text fields', () => {
+      const decode = Schema.decodeUnknownSync(LenientSingleLineTextFieldSchema)
+
+      expect(decode({ type: 'SINGLE_LINE_TEXT', value: undefined })).toEqual({
+        type: 'SINGLE_LINE_TEXT',
+        value: '',
+      })
+      expect(decode({ type: 'SINGLE_LINE_TEXT' })).toEqual({
+        type: 'SINGLE_LINE_TEXT',
+        value: '',
+      })
+      // null は normalizeFieldValue と同じく空値として扱わない
+      expect(() => decode({ type: 'SINGLE_LINE_TEXT', value: null })).toThrow()
+    })
+
+    it('should normalize the empty values of number and date fields to null', () => {
+      expect(
+        Schema.decodeUnknownSync(LenientNumberFieldSchema)({ type: 'NUMBER', value: '' })
+      ).toEqual({ type: 'NUMBER', value: null })
+      expect(
+        Schema.decodeUnknownSync(LenientDateFieldSchema)({ type: 'DATE', value: undefined })
+      ).toEqual({ type: 'DATE', value: null })
+    })
+
+    it('should normalize undefined and null to empty array for array fields', () => {
+      expect(
+        Schema.decodeUnknownSync(LenientCheckBoxFieldSchema)({ type: 'CHECK_BOX', value: null })
+      ).toEqual({ type: 'CHECK_BOX', value: [] })
+      expect(
+        Schema.decodeUnknownSync(LenientUserSelectFieldSchema)({ type: 'USER_SELECT' })
+      ).toEqual({ type: 'USER_SELECT', value: [] })
+    })
+
+    it('should normalize exactly like normalizeFieldValue', () => {
+      const inputs = [
+        { type: 'SINGLE_LINE_TEXT', value: undefined },
+        { type: 'NUMBER', value: '' },
+        { type: 'DATE', value: undefined },
+        { type: 'DATE', value: '' },
+        { type: 'TIME', value: '' },
+        { type: 'DATETIME', value: '' },
+        { type: 'RADIO_BUTTON', value: '' },
+        { type: 'DROP_DOWN', value: undefined },
+        { type: 'CHECK_BOX', value: null },
+        { type: 'CATEGORY', value: undefined },
+      ]
+
+      for (const input of inputs) {
+        expect(Schema.decodeUnknownSync(LenientKintoneFieldSchema)(input)).toEqual(normalizeFieldValue(input))
+      }
+    })
+
+    it('should still reject values of the wrong shape', () => {
+      expect(() =>
+        Schema.decodeUnknownSync(LenientNumberFieldSchema)({ type: 'NUMBER', value: 100 })
+      ).toThrow()
+      expect(() =>
+        Schema.decodeUnknownSync(LenientCheckBoxFieldSchema)({ type: 'CHECK_BOX', value: 'A' })
+      ).toThrow()
+    })
+
+    it('should dispatch on the field type in the union', () => {
+      expect(
+        Schema.decodeUnknownSync(LenientKintoneFieldSchema)({ type: 'DROP_DOWN', value: '' })
+      ).toEqual({ type: 'DROP_DOWN', value: null })
+      expect(
+        Schema.decodeUnknownSync(LenientKintoneFieldSchema)({ type: 'CALC', value: '10' })
+      ).toEqual({ type: 'CALC', value: '10' })
+    })
+  })
+
+  describe('encode', () => {
+    it('should produce the empty values expected by the REST API for writes', () => {
+      const encode = Schema.encodeSync(LenientKintoneFieldSchema)
+
+      expect(encode({ type: 'SINGLE_LINE_TEXT', value: '' }).value).toEqual(
+        getEmptyValueForWrite('SINGLE_LINE_TEXT')
+      )
+      expect(encode({ type: 'NUMBER', value: null }).value).toEqual(
+        getEmptyValueForWrite('NUMBER')
+      )
+      expect(encode({ type: 'FILE', value: [] }).value).toEqual(
+        getEmptyValueForWrite('FILE')
+      )
+    })
+
+    it('should reject empty values of fields that cannot be empty on write', () => {
+      const encode = Schema.encodeSync(LenientRadioButtonFieldSchema)
+
+      expect(() => encode({ type: 'RADIO_BUTTON', value: null })).toThrow('RADIO_BUTTON cannot be empty when writing')
+      expect(encode({ type: 'RADIO_BUTTON', value: 'A' })).toEqual({ type: 'RADIO_BUTTON', value: 'A' })
+    })
+  })
+
+  describe('LenientKintoneRecordSchema', () => {
+    it('should normalize a whole record including subtable rows', () => {
+      const input = {
+        title: { type: 'SINGLE_LINE_TEXT', value: undefined },
+        price: { type: 'NUMBER', value: '' },
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            {
+              id: '1',
+              value: {
+                name: { type: 'SINGLE_LINE_TEXT', value: undefined },
+                tags: { type: 'MULTI_SELECT', value: null },
+              },
+            },
+          ],
+        },
+      }
+
+      const decoded = Schema.decodeUnknownSync(LenientKintoneRecordSchema)(input)
+      expect(decoded).toEqual({
+        title: { type: 'SINGLE_LINE_TEXT', value: '' },
+        price: { type: 'NUMBER', value: null },
+        items: {
+          type: 'SUBTABLE',
+          value: [
+            {
+              id: '1',
+              value: {
+                name: { type: 'SINGLE_LINE_TEXT', value: '' },
+                tags: { type: 'MULTI_SELECT', value: [] },
+              },
+            },
+          ],
+        },
+      })
+
+      // 正規化後の値は厳密なレコードスキーマにも一致する
+      expect(Schema.is(KintoneRecordSchema)(decoded)).toBe(true)
+      // encodeは正規化された値をそのまま書き込み用に返す
+      expect(Schema.encodeSync(LenientKintoneRecordSchema)(decoded)).toEqual(decoded)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { Schema } from 'effect'
+import {
+  formatMessage,
+  registerMessages,
+  setMessageLocale,
+  getMessageLocale,
+} from '../src/messages.js'
+import { NumberFieldSchema } from '../src/schemas/fields.js'
+import { ConstraintViolation, formatValidationErrorMessage } from '../src/errors.js'
+import { checkFieldConstraints } from '../src/constraints.js'
+import { collectRecordWriteIssues } from '../src/validators.js'
+
+describe('Messages', () => {
+  afterEach(() => {
+    setMessageLocale('ja')
+  })
+
+  it('should use Japanese by default', () => {
+    expect(getMessageLocale()).toBe('ja')
+    expect(formatMessage('required', { expected: undefined, actual: '' })).toBe('必須項目です')
+  })
+
+  it('should format messages in the given locale', () => {
+    expect(formatMessage('maxLength', { expected: 10, actual: 12 }, 'en')).toBe('Enter at most 10 characters')
+    expect(formatMessage('field', { fieldCode: 'price', label: 'Price' }, 'en')).toBe('Field "Price" (price)')
+  })
+
+  it('should switch the locale of validation errors', () => {
+    const error = new ConstraintViolation({
+      fieldCode: 'title',
+      fieldType: 'SINGLE_LINE_TEXT',
+      path: ['items', 0, 'title'],
+      constraint: 'required',
+      expected: undefined,
+      actual: '',
+    })
+
+    setMessageLocale('en')
+
+    expect(error.message).toBe('Subtable "items" row 1, field "title": Required (required)')
+    expect(formatValidationErrorMessage(error, 'ja')).toBe('サブテーブル "items" 1行目のフィールド "title": 必須項目です (required)')
+    expect(
+      checkFieldConstraints(
+        { type: 'NUMBER', code: 'price', label: 'Price', maxValue: '100' },
+        '120'
+      ).map((violation) => violation.message)
+    ).toEqual(['Field "price": Enter a value of 100 or less (maxValue)'])
+  })
+
+  it('should localize write validation issues with the locale option', () => {
+    const issues = collectRecordWriteIssues(
+      { choice: { type: 'RADIO_BUTTON', value: null } },
+      undefined,
+      { locale: 'en' }
+    )
+
+    expect(issues.map((issue) => issue.message)).toEqual(['Field "choice": RADIO_BUTTON field cannot be empty'])
+  })
+
+  it('should localize decode errors of the field schemas', () => {
+    setMessageLocale('en')
+
+    expect(() => Schema.decodeUnknownSync(NumberFieldSchema)({ type: 'NUMBER', value: 100 }))
+      .toThrow('Invalid value for NUMBER field: 100')
+  })
+
+  it('should register a new locale falling back to English', () => {
+    registerMessages('fr', { required: () => 'Obligatoire' })
+    setMessageLocale('fr')
+
+    expect(formatMessage('required', { expected: undefined, actual: '' })).toBe('Obligatoire')
+    expect(formatMessage('number', { expected: undefined, actual: 'x' })).toBe('Enter a number')
+  })
+
+  it('should reject an unknown locale', () => {
+    expect(() => setMessageLocale('xx')).toThrow('Unknown message locale: xx')
+  })
+})
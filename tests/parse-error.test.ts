@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import { GetRecordsResponseSchema, KintoneRecordSchema } from '../src/schemas/record.js'
+import { createRecordStructFromForm } from '../src/utils/form-to-record-converter.js'
+import {
+  formatRecordParseError,
+  formatRecordParseErrorMessage,
+  summarizeRecordParseError,
+  formatFieldPath,
+} from '../src/parse-error.js'
+import type { KintoneFieldProperties } from '../src/schemas/form/fields.js'
+
+const decodeError = (input: unknown) => {
+  const result = Schema.decodeUnknownEither(KintoneRecordSchema)(input, { errors: 'all' })
+  if (Either.isRight(result)) {
+    throw new Error('expected a ParseError')
+  }
+  return result.left
+}
+
+describe('formatRecordParseError', () => {
+  it('should report one message per field based on its type', () => {
+    const error = decodeError({
+      title: { type: 'SINGLE_LINE_TEXT', value: 'ok' },
+      price: { type: 'NUMBER', value: 100 },
+      other: { type: 'UNKNOWN', value: 'x' },
+    })
+
+    expect(formatRecordParseError(error)).toEqual([
+      { fieldCode: 'price', path: ['price'], message: 'フィールド "price": NUMBERフィールドの値として不正です: 100' },
+      { fieldCode: 'other', path: ['other'], message: 'フィールド "other": フィールドタイプ "UNKNOWN" は不正です' },
+    ])
+  })
+
+  it('should use field labels from the form and the given locale', () => {
+    const formProperties: Record<string, KintoneFieldProperties> = {
+      items: {
+        type: 'SUBTABLE',
+        code: 'items',
+        label: 'Items',
+        fields: {
+          quantity: { type: 'NUMBER', code: 'quantity', label: 'Quantity' },
+        },
+      },
+    }
+    const error = decodeError({
+      items: {
+        type: 'SUBTABLE',
+        value: [
+          { id: '1', value: { quantity: { type: 'NUMBER', value: '1' } } },
+          { id: '2', value: { quantity: { type: 'NUMBER', value: 2 } } },
+        ],
+      },
+    })
+
+    expect(formatRecordParseError(error, { formProperties, locale: 'en' })).toEqual([
+      {
+        fieldCode: 'quantity',
+        subtableCode: 'items',
+        rowIndex: 1,
+        path: ['items', 1, 'quantity'],
+        message: 'Subtable "Items" (items) row 2, field "Quantity" (quantity): Invalid value for NUMBER field: 2',
+      },
+    ])
+  })
+
+  it('should report fields that are not objects and invalid records', () => {
+    expect(formatRecordParseError(decodeError({ title: 'Hello' })).map((issue) => issue.message)).toEqual([
+      'フィールド "title": { type, value } 形式のオブジェクトで指定してください: "Hello"',
+    ])
+    expect(formatRecordParseError(decodeError(null))).toEqual([
+      { path: [], message: 'レコードはオブジェクトで指定してください: null' },
+    ])
+  })
+
+  it('should report the records of a get records response with their paths', () => {
+    const result = Schema.decodeUnknownEither(GetRecordsResponseSchema)({
+      records: [
+        { title: { type: 'SINGLE_LINE_TEXT', value: 'ok' } },
+        { title: { type: 'SINGLE_LINE_TEXT', value: 'ok' }, tags: { type: 'CHECK_BOX', value: ['A', 1] } },
+        null,
+      ],
+      totalCount: null,
+    }, { errors: 'all' })
+
+    expect(Either.isLeft(result) && formatRecordParseError(result.left, { locale: 'en' })).toEqual([
+      { path: ['records', 2], message: 'records[2]: Record must be an object: null' },
+      {
+        fieldCode: 'tags',
+        path: ['records', 1, 'tags'],
+        message: 'Field "tags": Invalid value for CHECK_BOX field: 1',
+      },
+    ])
+  })
+
+  it('should report the constraints of schemas created from the form', () => {
+    const schema = createRecordStructFromForm({
+      title: {
+        type: 'SINGLE_LINE_TEXT',
+        code: 'title',
+        label: 'Title',
+        required: true,
+        defaultValue: '',
+        minLength: '',
+        maxLength: '',
+      },
+      price: { type: 'NUMBER', code: 'price', label: 'Price', defaultValue: '', minValue: '', maxValue: '', unit: '' },
+      items: {
+        type: 'SUBTABLE',
+        code: 'items',
+        label: 'Items',
+        fields: {
+          qty: { type: 'NUMBER', code: 'qty', label: 'Qty', defaultValue: '', minValue: '1', maxValue: '', unit: '' },
+        },
+      },
+    } as const, { strict: true })
+    const result = Schema.decodeUnknownEither(schema)({
+      title: { type: 'SINGLE_LINE_TEXT', value: '' },
+      items: { type: 'SUBTABLE', value: [{ id: '1', value: { qty: { type: 'NUMBER', value: '0' } } }] },
+    }, { errors: 'all' })
+
+    expect(Either.isLeft(result) && formatRecordParseError(result.left)).toEqual([
+      { fieldCode: 'title', path: ['title'], message: 'フィールド "title": 必須項目です (required)' },
+      {
+        fieldCode: 'qty',
+        subtableCode: 'items',
+        rowIndex: 0,
+        path: ['items', 0, 'qty'],
+        message: 'サブテーブル "items" 1行目のフィールド "qty": 1以上の値を入力してください (minValue)',
+      },
+      { fieldCode: 'price', path: ['price'], message: 'フィールド "price": "price" がありません' },
+    ])
+  })
+})
+
+describe('summarizeRecordParseError', () => {
+  const input = {
+    title: { type: 'SINGLE_LINE_TEXT', value: 'ok' },
+    users: { type: 'USER_SELECT', value: [{ name: 'User 1' }] },
+    items: {
+      type: 'SUBTABLE',
+      value: [
+        { id: '1', value: { unit_price: { type: 'NUMBER', value: '100' } } },
+        { id: '2', value: { unit_price: { type: 'NUMBER', value: '200' } } },
+        { value: { unit_price: { type: 'NUMBER', value: 300 }, note: { type: 'SINGLE_LINE_TEXT' } } },
+      ],
+    },
+  }
+
+  it('should report only the mismatch for the schema matching the type', () => {
+    const error = Schema.decodeUnknownEither(KintoneRecordSchema)(input)
+
+    expect(Either.isLeft(error) && summarizeRecordParseError(error.left, { locale: 'en' })).toEqual([
+      {
+        path: 'users.value[0].code',
+        fieldCode: 'users',
+        fieldType: 'USER_SELECT',
+        message: '"code" is missing',
+      },
+      { path: 'items[2].id', fieldCode: 'items', fieldType: 'SUBTABLE', message: '"id" is missing' },
+      {
+        path: 'items[2].unit_price.value',
+        fieldCode: 'unit_price',
+        subtableCode: 'items',
+        rowIndex: 2,
+        fieldType: 'NUMBER',
+        message: 'Invalid value for NUMBER field: 300',
+      },
+      {
+        path: 'items[2].note.value',
+        fieldCode: 'note',
+        subtableCode: 'items',
+        rowIndex: 2,
+        fieldType: 'SINGLE_LINE_TEXT',
+        message: '"value" is missing',
+      },
+    ])
+  })
+
+  it('should format one line per mismatch', () => {
+    const error = decodeError({
+      price: { type: 'NUMBER', value: 100 },
+      other: { value: 'x' },
+    })
+
+    expect(formatRecordParseErrorMessage(error)).toBe(
+      [
+        'price.value: NUMBERフィールドの値として不正です: 100',
+        'other.type: フィールドタイプ undefined は不正です',
+      ].join('\n')
+    )
+  })
+})
+
+describe('formatFieldPath', () => {
+  it('should render indexes in brackets', () => {
+    expect(formatFieldPath(['items', 2, 'unit_price', 'value'])).toBe('items[2].unit_price.value')
+    expect(formatFieldPath([])).toBe('')
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import {
+  getAvailableProcessActions,
+  validateProcessAction,
+  validateProcessActionEffect,
+  ProcessActionNotAllowed,
+  UnknownProcessAction,
+  type ProcessManagementSettings,
+} from '../src/process-management.js'
+import { QueryEvaluationError } from '../src/query/errors.js'
+import { QueryValidationError } from '../src/query/validator.js'
+import { formatMessage } from '../src/messages.js'
+
+const entities = (...items: Array<{ type: 'USER' | 'ORGANIZATION' | 'FIELD_ENTITY' | 'CREATOR'; code: string | null; includeSubs?: boolean }>) => ({
+  entities: items.map(({ includeSubs = false, ...entity }) => ({ entity, includeSubs })),
+})
+
+const settings: ProcessManagementSettings = {
+  enable: true,
+  states: {
+    未処理: { name: '未処理', index: '0', assignee: { type: 'ONE', ...entities({ type: 'CREATOR', code: null }) } },
+    承認待ち: { name: '承認待ち', index: '1', assignee: { type: 'ANY', ...entities({ type: 'FIELD_ENTITY', code: '承認者' }) } },
+    完了: { name: '完了', index: '2', assignee: { type: 'ONE', entities: [] } },
+  },
+  actions: [
+    { name: '申請する', from: '未処理', to: '承認待ち', filterCond: 'amount > 0', type: 'PRIMARY' },
+    { name: '承認する', from: '承認待ち', to: '完了', filterCond: 'amount < 100000', type: 'PRIMARY' },
+    {
+      name: '部長承認へ',
+      from: '承認待ち',
+      to: '部長承認待ち',
+      filterCond: 'amount >= 100000',
+      type: 'PRIMARY',
+      executableUser: entities({ type: 'ORGANIZATION', code: '営業部', includeSubs: true }),
+    },
+    { name: '差し戻す', from: '承認待ち', to: '未処理', filterCond: '', type: 'SECONDARY' },
+  ],
+}
+
+const record = (status: string, amount: string, assignees: string[] = []) => ({
+  $id: { type: '__ID__', value: '1' },
+  ステータス: { type: 'STATUS', value: status },
+  作業者: { type: 'STATUS_ASSIGNEE', value: assignees.map((code) => ({ code, name: code })) },
+  amount: { type: 'NUMBER', value: amount },
+  承認者: { type: 'USER_SELECT', value: [{ code: 'suzuki', name: 'Suzuki' }] },
+})
+
+describe('getAvailableProcessActions', () => {
+  it('should list the actions from the current status whose filterCond matches', () => {
+    expect(getAvailableProcessActions(settings, record('承認待ち', '5000'))).toEqual([
+      { action: '承認する', from: '承認待ち', to: '完了', next: '完了', assigneeType: 'ANY', type: 'PRIMARY' },
+      { action: '差し戻す', from: '承認待ち', to: '未処理', next: '未処理', assigneeType: 'ANY', type: 'SECONDARY' },
+    ])
+    expect(getAvailableProcessActions(settings, record('未処理', '0'))).toEqual([])
+  })
+
+  it('should only list actions the user can execute', () => {
+    const pending = record('承認待ち', '200000', ['suzuki'])
+
+    expect(getAvailableProcessActions(settings, pending, { user: { code: 'sato' } })).toEqual([])
+    expect(
+      getAvailableProcessActions(settings, pending, { user: { code: 'suzuki', parentOrganizations: ['営業部'] } }).map(
+        ({ action }) => action
+      )
+    ).toEqual(['部長承認へ', '差し戻す'])
+    expect(getAvailableProcessActions(settings, pending, { user: { code: 'suzuki' } }).map(({ action }) => action)).toEqual([
+      '差し戻す',
+    ])
+  })
+
+  it('should skip actions whose filterCond uses LOGINUSER() when no user is given', () => {
+    const approverOnly: ProcessManagementSettings = {
+      ...settings,
+      actions: [{ name: '承認する', from: '承認待ち', to: '完了', filterCond: '承認者 in (LOGINUSER())', type: 'PRIMARY' }],
+    }
+
+    expect(getAvailableProcessActions(approverOnly, record('承認待ち', '5000'))).toEqual([])
+    expect(getAvailableProcessActions(approverOnly, record('承認待ち', '5000'), { user: { code: 'suzuki' } })).toEqual([
+      { action: '承認する', from: '承認待ち', to: '完了', next: '完了', assigneeType: 'ANY', type: 'PRIMARY' },
+    ])
+  })
+
+  it('should return nothing when process management is disabled', () => {
+    expect(getAvailableProcessActions({ ...settings, enable: false }, record('承認待ち', '5000'))).toEqual([])
+  })
+})
+
+describe('validateProcessAction', () => {
+  it('should return the transition of an executable action', () => {
+    expect(validateProcessAction(settings, record('未処理', '100'), '申請する')).toEqual({
+      action: '申請する',
+      from: '未処理',
+      to: '承認待ち',
+      next: '承認待ち',
+      assigneeType: 'ONE',
+      type: 'PRIMARY',
+    })
+  })
+
+  it('should throw UnknownProcessAction with the available actions', () => {
+    expect(() => validateProcessAction(settings, record('未処理', '100'), '却下する')).toThrow(
+      new UnknownProcessAction({ action: '却下する', status: '未処理', availableActions: ['申請する'] })
+    )
+  })
+
+  it.each([
+    ['status', record('完了', '100'), {}],
+    ['filterCond', record('承認待ち', '200000'), {}],
+    ['assignee', record('承認待ち', '100', ['suzuki']), { user: { code: 'sato' } }],
+  ] as const)('should throw ProcessActionNotAllowed (%s)', (reason, target, options) => {
+    expect(() => validateProcessAction(settings, target, '承認する', options)).toThrow(
+      new ProcessActionNotAllowed({ action: '承認する', status: target.ステータス.value, reason })
+    )
+  })
+
+  it('should format the errors in the message locale', () => {
+    const unknown = new UnknownProcessAction({ action: '却下する', status: '未処理', availableActions: ['申請する'] })
+    const notAllowed = new ProcessActionNotAllowed({ action: '承認する', status: '完了', reason: 'status' })
+
+    expect(unknown.message).toBe('アクション "却下する" は存在しません（実行できるアクション: "申請する"）')
+    expect(notAllowed.message).toBe('アクション "承認する" はステータス "完了" から実行できません (status)')
+    expect(formatMessage('unknownProcessAction', { ...unknown, availableActions: [] }, 'en')).toBe(
+      'Unknown action "却下する" (available: none)'
+    )
+    expect(formatMessage('processActionNotAllowed', notAllowed, 'en')).toBe(
+      'Action "承認する" cannot be executed from status "完了" (status)'
+    )
+  })
+
+  it('should fail the Effect with a typed error', () => {
+    const exit = Effect.runSyncExit(
+      validateProcessActionEffect(settings, record('承認待ち', '200000'), '部長承認へ', { user: { code: 'sato' } })
+    )
+
+    expect(exit).toEqual(
+      Exit.fail(new ProcessActionNotAllowed({ action: '部長承認へ', status: '承認待ち', reason: 'executableUser' }))
+    )
+  })
+
+  it('should fail the Effect with the query error when filterCond cannot be evaluated', () => {
+    const { amount: _amount, ...partial } = record('承認待ち', '5000')
+
+    expect(Effect.runSync(Effect.flip(validateProcessActionEffect(settings, partial, '承認する')))).toBeInstanceOf(
+      QueryValidationError
+    )
+
+    const byOrganization: ProcessManagementSettings = {
+      ...settings,
+      actions: [
+        { name: '承認する', from: '承認待ち', to: '完了', filterCond: '部署 in (PRIMARY_ORGANIZATION())', type: 'PRIMARY' },
+      ],
+    }
+    const target = { ...record('承認待ち', '5000'), 部署: { type: 'ORGANIZATION_SELECT', value: [] } }
+
+    expect(Effect.runSync(Effect.flip(validateProcessActionEffect(byOrganization, target, '承認する')))).toBeInstanceOf(
+      QueryEvaluationError
+    )
+  })
+})
+
+describe('assignee types', () => {
+  const withAssignee = (type: 'ONE' | 'ALL' | 'ANY'): ProcessManagementSettings => ({
+    enable: true,
+    states: {
+      承認待ち: { name: '承認待ち', index: '0', assignee: { type, ...entities({ type: 'FIELD_ENTITY', code: '承認者' }) } },
+      完了: { name: '完了', index: '1', assignee: { type: 'ONE', entities: [] } },
+    },
+    actions: [{ name: '承認する', from: '承認待ち', to: '完了', filterCond: '', type: 'PRIMARY' }],
+  })
+
+  it('should move to the next status when the single assignee (ONE) acts', () => {
+    expect(
+      validateProcessAction(withAssignee('ONE'), record('承認待ち', '100', ['suzuki']), '承認する', { user: { code: 'suzuki' } })
+    ).toMatchObject({ to: '完了', next: '完了', assigneeType: 'ONE' })
+  })
+
+  it('should move to the next status when any one of the assignees (ANY) acts', () => {
+    expect(
+      validateProcessAction(withAssignee('ANY'), record('承認待ち', '100', ['suzuki', 'sato']), '承認する', { user: { code: 'sato' } })
+    ).toMatchObject({ to: '完了', next: '完了', assigneeType: 'ANY' })
+  })
+
+  it('should stay in the status until the last assignee (ALL) acts', () => {
+    const settingsAll = withAssignee('ALL')
+
+    expect(
+      validateProcessAction(settingsAll, record('承認待ち', '100', ['suzuki', 'sato']), '承認する', { user: { code: 'sato' } })
+    ).toMatchObject({ to: '完了', next: '承認待ち', assigneeType: 'ALL' })
+    expect(getAvailableProcessActions(settingsAll, record('承認待ち', '100', ['suzuki', 'sato']))).toMatchObject([
+      { next: '承認待ち' },
+    ])
+    expect(
+      validateProcessAction(settingsAll, record('承認待ち', '100', ['sato']), '承認する', { user: { code: 'sato' } })
+    ).toMatchObject({ to: '完了', next: '完了', assigneeType: 'ALL' })
+  })
+})
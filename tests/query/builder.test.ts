@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { createRecordStructFromForm } from '../../src/utils/form-to-record-converter.js'
+import { createQueryBuilder, quoteQueryString } from '../../src/query/builder.js'
+import { QueryFunctions } from '../../src/query/functions.js'
+import { QueryBuildError } from '../../src/query/errors.js'
+
+const OrderRecord = createRecordStructFromForm({
+  顧客名: { type: 'SINGLE_LINE_TEXT', code: '顧客名', label: '顧客名' },
+  price: { type: 'NUMBER', code: 'price', label: 'Price' },
+  memo: { type: 'MULTI_LINE_TEXT', code: 'memo', label: 'Memo' },
+  rank: {
+    type: 'DROP_DOWN',
+    code: 'rank',
+    label: 'Rank',
+    options: { A: { label: 'A', index: '0' }, B: { label: 'B', index: '1' } },
+  },
+  due: { type: 'DATE', code: 'due', label: 'Due' },
+  owner: { type: 'USER_SELECT', code: 'owner', label: 'Owner' },
+  tags: {
+    type: 'CHECK_BOX',
+    code: 'tags',
+    label: 'Tags',
+    options: { x: { label: 'x', index: '0' } },
+  },
+  items: {
+    type: 'SUBTABLE',
+    code: 'items',
+    label: 'Items',
+    fields: {
+      item_name: { type: 'SINGLE_LINE_TEXT', code: 'item_name', label: 'Item' },
+      quantity: { type: 'NUMBER', code: 'quantity', label: 'Quantity' },
+    },
+  },
+} as const)
+
+describe('createQueryBuilder', () => {
+  it('should join conditions with and', () => {
+    const query = createQueryBuilder(OrderRecord)
+      .where('顧客名', 'like', '株式会社')
+      .where('price', '>=', 100)
+      .where('rank', 'in', ['A', 'B'])
+      .build()
+
+    expect(query).toBe('顧客名 like "株式会社" and price >= 100 and rank in ("A", "B")')
+  })
+
+  it('should escape quotes and backslashes in values', () => {
+    const query = createQueryBuilder(OrderRecord).where('顧客名', '=', 'say "hi" \\o/').build()
+
+    expect(query).toBe('顧客名 = "say \\"hi\\" \\\\o/"')
+    expect(quoteQueryString('a"b')).toBe('"a\\"b"')
+  })
+
+  it('should emit date and user functions', () => {
+    const query = createQueryBuilder(OrderRecord)
+      .where('due', '>=', QueryFunctions.FROM_TODAY(-7, 'DAYS'))
+      .where('due', '<', QueryFunctions.TODAY())
+      .where('owner', 'in', [QueryFunctions.LOGINUSER(), 'user1'])
+      .build()
+
+    expect(query).toBe('due >= FROM_TODAY(-7, DAYS) and due < TODAY() and owner in (LOGINUSER(), "user1")')
+  })
+
+  it('should emit empty checks without a value', () => {
+    expect(createQueryBuilder(OrderRecord).where('memo', 'is empty').build()).toBe('memo is empty')
+  })
+
+  it('should parenthesize or groups inside and', () => {
+    const builder = createQueryBuilder(OrderRecord)
+    const query = builder
+      .where(builder.or(builder.condition('price', '>', 1000), builder.condition('rank', 'in', ['A'])))
+      .where('tags', 'not in', ['x'])
+      .build()
+
+    expect(query).toBe('(price > 1000 or rank in ("A")) and tags not in ("x")')
+  })
+
+  it('should emit order by, limit and offset clauses', () => {
+    const query = createQueryBuilder(OrderRecord)
+      .where('price', '>', '0')
+      .orderBy('due', 'desc')
+      .orderBy('price')
+      .limit(100)
+      .offset(200)
+      .build()
+
+    expect(query).toBe('price > "0" order by due desc, price asc limit 100 offset 200')
+  })
+
+  it('should allow subtable fields with in / not in', () => {
+    const query = createQueryBuilder(OrderRecord).where('item_name', 'in', ['Pen']).build()
+
+    expect(query).toBe('item_name in ("Pen")')
+  })
+
+  it('should not change the original builder', () => {
+    const base = createQueryBuilder(OrderRecord).where('price', '>', 0)
+    base.limit(10)
+
+    expect(base.build()).toBe('price > 0')
+  })
+
+  describe('runtime checks', () => {
+    // 型で防げない入力（型を外した呼び出し）
+    const untyped = createQueryBuilder(OrderRecord) as unknown as {
+      where: (field: string, operator: string, value?: unknown) => { build: () => string }
+      orderBy: (field: string) => unknown
+      limit: (limit: number) => unknown
+    }
+
+    it('should reject operators that the field type does not support', () => {
+      expect(() => untyped.where('price', 'like', '1')).toThrow(QueryBuildError)
+      expect(() => untyped.where('price', 'like', '1')).toThrow('Operator "like" cannot be used for NUMBER field "price"')
+    })
+
+    it('should reject = on subtable fields', () => {
+      expect(() => untyped.where('quantity', '=', 1)).toThrow('Use "in" / "not in" instead of "=" for subtable field "quantity"')
+    })
+
+    it('should reject unknown field codes and functions for other field types', () => {
+      expect(() => untyped.where('unknown', '=', 'x')).toThrow('Unknown field code: unknown')
+      expect(() => untyped.where('顧客名', '=', QueryFunctions.TODAY())).toThrow('TODAY() cannot be used')
+    })
+
+    it('should reject empty in lists', () => {
+      expect(() => untyped.where('rank', 'in', [])).toThrow('"in" requires a non-empty list')
+    })
+
+    it('should reject unsortable fields and out of range limits', () => {
+      expect(() => untyped.orderBy('tags')).toThrow('Field "tags" cannot be used in order by')
+      expect(() => untyped.orderBy('item_name')).toThrow(QueryBuildError)
+      expect(() => untyped.limit(501)).toThrow('limit must be an integer between 1 and 500: 501')
+    })
+  })
+})
+
+describe('QueryFunctions', () => {
+  it('should validate function arguments', () => {
+    expect(QueryFunctions.THIS_MONTH('LAST').args).toEqual(['LAST'])
+    expect(() => QueryFunctions.THIS_MONTH(32)).toThrow(QueryBuildError)
+    expect(() => QueryFunctions.FROM_TODAY(1.5, 'DAYS')).toThrow('FROM_TODAY() requires an integer: 1.5')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import { evaluateQuery, evaluateQueryEffect } from '../../src/query/evaluator.js'
+import { QueryEvaluationError, QuerySyntaxError } from '../../src/query/errors.js'
+import { QueryValidationError } from '../../src/query/validator.js'
+
+const record = (id: number, fields: { due: string | null; price: string; tags: string[]; owner: string[]; memo?: string; quantities?: string[] }) => ({
+  $id: { type: '__ID__' as const, value: String(id) },
+  due: { type: 'DATE' as const, value: fields.due },
+  price: { type: 'NUMBER' as const, value: fields.price },
+  tags: { type: 'CHECK_BOX' as const, value: fields.tags },
+  owner: { type: 'USER_SELECT' as const, value: fields.owner.map((code) => ({ code, name: code })) },
+  memo: { type: 'MULTI_LINE_TEXT' as const, value: fields.memo ?? '' },
+  created: { type: 'CREATED_TIME' as const, value: `2024-04-0${String(id)}T00:30:00Z` },
+  items: {
+    type: 'SUBTABLE' as const,
+    value: (fields.quantities ?? []).map((quantity, index) => ({
+      id: String(index),
+      value: { quantity: { type: 'NUMBER' as const, value: quantity } },
+    })),
+  },
+})
+
+const records = [
+  record(1, { due: '2024-04-01', price: '100', tags: ['a', 'b'], owner: ['sato'], memo: '至急 対応', quantities: ['1', '5'] }),
+  record(2, { due: '2024-04-03', price: '250', tags: [], owner: ['suzuki'], quantities: ['2'] }),
+  record(3, { due: null, price: '', tags: ['b'], owner: [] }),
+  record(4, { due: '2024-04-10', price: '80', tags: ['c'], owner: ['sato', 'suzuki'], memo: '対応済み' }),
+]
+
+// 2024-04-03（水）10:00 JST
+const options = { now: () => new Date('2024-04-03T10:00:00+09:00'), utcOffsetMinutes: 540, loginUser: 'sato' }
+
+const ids = (query: string, opts = options) => evaluateQuery(query, records, opts).map((r) => r.$id.value)
+
+describe('evaluateQuery', () => {
+  it('should order by $id desc and limit to 100 by default', () => {
+    expect(ids('')).toEqual(['4', '3', '2', '1'])
+  })
+
+  it('should match any selected value with in / not in and empty values with ""', () => {
+    expect(ids('tags in ("b")')).toEqual(['3', '1'])
+    expect(ids('tags not in ("b")')).toEqual(['4', '2'])
+    expect(ids('tags in ("")')).toEqual(['2'])
+    expect(ids('price = ""')).toEqual(['3'])
+    expect(ids('owner in (LOGINUSER())')).toEqual(['4', '1'])
+  })
+
+  it('should compare numbers and use partial matches for like', () => {
+    expect(ids('price >= 100 and price < 250')).toEqual(['1'])
+    expect(ids('memo like "対応"')).toEqual(['4', '1'])
+    expect(ids('memo not like "至急" and memo is not empty')).toEqual(['4'])
+  })
+
+  it('should evaluate date functions against the injected clock', () => {
+    expect(ids('due = TODAY()')).toEqual(['2'])
+    expect(ids('due < TODAY()')).toEqual(['1'])
+    expect(ids('due = THIS_WEEK()')).toEqual(['2', '1'])
+    expect(ids('due = NEXT_WEEK(WEDNESDAY)')).toEqual(['4'])
+    expect(ids('due >= FROM_TODAY(-2, DAYS) and due <= FROM_TODAY(1, WEEKS)')).toEqual(['4', '2', '1'])
+    expect(ids('due = THIS_MONTH(LAST) or due = LAST_MONTH()')).toEqual([])
+    expect(ids('due = THIS_YEAR()')).toEqual(['4', '2', '1'])
+  })
+
+  it('should compare datetimes by the day in the configured time zone', () => {
+    // 2024-04-02T00:30:00Z は JST では 4/2、UTC-10 では 4/1（UTC-10 の現在日時は 4/2 15:00）
+    expect(ids('created = "2024-04-02"')).toEqual(['2'])
+    expect(ids('created = YESTERDAY()', { ...options, utcOffsetMinutes: -600 })).toEqual(['2'])
+    expect(ids('created = TODAY()', { ...options, utcOffsetMinutes: -600 })).toEqual(['3'])
+  })
+
+  it('should match subtable fields when any row matches', () => {
+    expect(ids('quantity in ("5")')).toEqual(['1'])
+    expect(ids('quantity >= 2')).toEqual(['2', '1'])
+    expect(ids('quantity not in ("1")')).toEqual(['2', '1'])
+  })
+
+  it('should apply order by, limit and offset', () => {
+    expect(ids('order by price desc')).toEqual(['2', '1', '4', '3'])
+    expect(ids('order by due asc, $id desc limit 2 offset 1')).toEqual(['1', '2'])
+  })
+
+  it('should throw for invalid queries and missing options', () => {
+    expect(() => ids('price >')).toThrow(QuerySyntaxError)
+    expect(() => ids('price like "1"')).toThrow(QueryValidationError)
+    expect(() => ids('unknown = "1"')).toThrow(QueryValidationError)
+    expect(() => evaluateQuery('owner in (LOGINUSER())', records, { now: options.now })).toThrow(QueryEvaluationError)
+  })
+
+  it('should fail the Effect with the query errors', () => {
+    const exit = Effect.runSyncExit(evaluateQueryEffect('price like "1"', records))
+
+    expect(Exit.isFailure(exit) && exit.cause._tag === 'Fail' && exit.cause.error._tag).toBe('QueryValidationError')
+    expect(Effect.runSync(evaluateQueryEffect('price > 200', records))).toHaveLength(1)
+  })
+})
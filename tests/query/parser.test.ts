@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { Either } from 'effect'
+import { parseQuery, parseQueryEither, getQueryPosition } from '../../src/query/parser.js'
+import { QuerySyntaxError } from '../../src/query/errors.js'
+
+describe('parseQuery', () => {
+  it('should parse comparisons with positions', () => {
+    const ast = parseQuery('price >= 100')
+
+    expect(ast).toEqual({
+      condition: {
+        _tag: 'QueryComparison',
+        field: { code: 'price', span: { start: 0, end: 5 } },
+        operator: '>=',
+        operatorSpan: { start: 6, end: 8 },
+        values: [{ _tag: 'QueryNumber', value: 100, raw: '100', span: { start: 9, end: 12 } }],
+        span: { start: 0, end: 12 },
+      },
+      orderBy: [],
+    })
+  })
+
+  it('should read field codes starting with digits as identifiers', () => {
+    const ast = parseQuery('1st_date >= "2024-01-01" and 2nd_price > 10.5 order by 1st_date desc')
+
+    expect(ast).toMatchObject({
+      condition: {
+        operands: [
+          { field: { code: '1st_date', span: { start: 0, end: 8 } }, values: [{ _tag: 'QueryString', value: '2024-01-01' }] },
+          { field: { code: '2nd_price' }, values: [{ _tag: 'QueryNumber', value: 10.5, raw: '10.5' }] },
+        ],
+      },
+      orderBy: [{ field: { code: '1st_date' }, direction: 'desc' }],
+    })
+  })
+
+  it('should give and precedence over or and keep parenthesized groups', () => {
+    const ast = parseQuery('a = "1" or b = "2" and (c = "3" or d = "4")')
+
+    expect(ast.condition).toMatchObject({
+      _tag: 'QueryLogical',
+      connective: 'or',
+      operands: [
+        { _tag: 'QueryComparison', field: { code: 'a' } },
+        {
+          _tag: 'QueryLogical',
+          connective: 'and',
+          operands: [
+            { field: { code: 'b' } },
+            { _tag: 'QueryLogical', connective: 'or', operands: [{ field: { code: 'c' } }, { field: { code: 'd' } }] },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('should parse multi-word operators, lists, escapes and functions', () => {
+    const ast = parseQuery(
+      '顧客名 not like "say \\"hi\\"" and rank not in ("A", "B") and memo is not empty and due >= FROM_TODAY(-7, DAYS)'
+    )
+
+    expect(ast.condition).toMatchObject({
+      operands: [
+        { operator: 'not like', operatorSpan: { start: 4, end: 12 }, values: [{ _tag: 'QueryString', value: 'say "hi"' }] },
+        { operator: 'not in', values: [{ value: 'A' }, { value: 'B' }] },
+        { operator: 'is not empty', values: [] },
+        {
+          operator: '>=',
+          values: [{ _tag: 'QueryFunction', name: 'FROM_TODAY', args: [{ value: -7 }, { value: 'DAYS' }] }],
+        },
+      ],
+    })
+  })
+
+  it('should parse order by, limit and offset case-insensitively', () => {
+    const ast = parseQuery('ORDER BY $id DESC, price LIMIT 10 OFFSET 20')
+
+    expect(ast.condition).toBeUndefined()
+    expect(ast.orderBy.map(({ field, direction }) => [field.code, direction])).toEqual([
+      ['$id', 'desc'],
+      ['price', 'asc'],
+    ])
+    expect(ast.limit?.value).toBe(10)
+    expect(ast.offset?.value).toBe(20)
+  })
+
+  it('should parse an empty query', () => {
+    expect(parseQuery('  ')).toEqual({ orderBy: [] })
+  })
+
+  it('should report syntax errors with line and column', () => {
+    const error = (() => {
+      try {
+        parseQuery('price >= 100 and\n  memo = unquoted')
+      } catch (e) {
+        return e
+      }
+    })()
+
+    expect(error).toBeInstanceOf(QuerySyntaxError)
+    expect(error).toMatchObject({ start: 26, end: 34, line: 2, column: 10 })
+  })
+
+  it.each([
+    ['price >=', 'Expected a value but found end of query'],
+    ['memo = "abc', 'Unterminated string'],
+    ['price 100', 'Expected an operator but found "100"'],
+    ['price > 1 limit 10 order by price', 'Expected "and", "or", "order by", "limit", "offset" or end of query but found "order"'],
+    ['(price > 1', 'Expected ")" but found end of query'],
+  ])('should reject %s', (query, message) => {
+    const result = parseQueryEither(query)
+
+    expect(Either.isLeft(result)).toBe(true)
+    expect(Either.isLeft(result) && result.left.message).toBe(message)
+  })
+})
+
+describe('getQueryPosition', () => {
+  it('should convert offsets to 1-based line and column', () => {
+    expect(getQueryPosition('a\nbc', 0)).toEqual({ line: 1, column: 1 })
+    expect(getQueryPosition('a\nbc', 3)).toEqual({ line: 2, column: 2 })
+  })
+})
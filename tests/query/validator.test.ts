@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import { collectQueryIssues, validateQuery, validateQueryEffect, QueryValidationError } from '../../src/query/validator.js'
+import type { GetFormFieldsResponse } from '../../src/schemas/form/fields.js'
+
+const formProperties = {
+  レコード番号: { type: 'RECORD_NUMBER', code: 'レコード番号', label: 'レコード番号', noLabel: false },
+  顧客名: { type: 'SINGLE_LINE_TEXT', code: '顧客名', label: '顧客名' },
+  price: { type: 'NUMBER', code: 'price', label: 'Price' },
+  memo: { type: 'MULTI_LINE_TEXT', code: 'memo', label: 'Memo' },
+  due: { type: 'DATE', code: 'due', label: 'Due' },
+  owner: { type: 'USER_SELECT', code: 'owner', label: 'Owner' },
+  items: {
+    type: 'SUBTABLE',
+    code: 'items',
+    label: 'Items',
+    fields: {
+      quantity: { type: 'NUMBER', code: 'quantity', label: 'Quantity' },
+    },
+  },
+} as unknown as GetFormFieldsResponse['properties']
+
+describe('collectQueryIssues', () => {
+  it('should accept a valid query', () => {
+    const query =
+      '顧客名 like "株式会社" and price >= 100 and due >= FROM_TODAY(-7, DAYS) and owner in (LOGINUSER()) ' +
+      'and quantity in ("1") order by $id desc, price limit 100 offset 0'
+
+    expect(collectQueryIssues(query, formProperties)).toEqual([])
+  })
+
+  it('should accept field codes starting with digits', () => {
+    const properties = {
+      ...formProperties,
+      '1st_date': { type: 'DATE', code: '1st_date', label: '初回日' },
+    } as unknown as GetFormFieldsResponse['properties']
+
+    expect(collectQueryIssues('1st_date >= TODAY() order by 1st_date asc', properties)).toEqual([])
+  })
+
+  it('should report unknown fields and unsupported operators with positions', () => {
+    expect(collectQueryIssues('price like "1" or unknown = "x"', formProperties)).toEqual([
+      {
+        rule: 'operator',
+        message: 'Operator "like" cannot be used for NUMBER field "price"',
+        fieldCode: 'price',
+        start: 6,
+        end: 10,
+        line: 1,
+        column: 7,
+      },
+      {
+        rule: 'unknownField',
+        message: 'Unknown field code: unknown',
+        fieldCode: 'unknown',
+        start: 18,
+        end: 25,
+        line: 1,
+        column: 19,
+      },
+    ])
+  })
+
+  it('should report malformed and misplaced functions', () => {
+    const issues = collectQueryIssues(
+      'due = FROM_TODAY(7) and due = THIS_MONTH(32) and due = LOGINUSER() and due = SOMEDAY()',
+      formProperties
+    )
+
+    expect(issues.map(({ rule, message }) => [rule, message])).toEqual([
+      ['function', 'FROM_TODAY() requires (integer, DAYS | WEEKS | MONTHS | YEARS)'],
+      ['function', 'THIS_MONTH() accepts no argument or a day of month (1-31 or LAST)'],
+      ['function', 'Function LOGINUSER() cannot be used for DATE field "due"'],
+      ['function', 'Unknown function: SOMEDAY()'],
+    ])
+  })
+
+  it('should report subtable field restrictions', () => {
+    const issues = collectQueryIssues('quantity = 1 order by quantity', formProperties)
+
+    expect(issues.map(({ rule, message }) => [rule, message])).toEqual([
+      ['subtableField', 'Use "in" instead of "=" for subtable field "quantity"'],
+      ['subtableField', 'Subtable field "quantity" cannot be used in order by'],
+    ])
+  })
+
+  it('should report unsortable fields, fields unusable in queries and out-of-range limit and offset', () => {
+    const issues = collectQueryIssues('items in ("1") order by memo limit 1000 offset 20000', formProperties)
+
+    expect(issues.map(({ rule }) => rule)).toEqual(['unknownField', 'orderBy', 'limit', 'offset'])
+    expect(issues[0]?.message).toBe('Field "items" (SUBTABLE) cannot be used in a query')
+  })
+
+  it('should report syntax errors as a single issue', () => {
+    expect(collectQueryIssues('price >=\n', formProperties)).toEqual([
+      { rule: 'syntax', message: 'Expected a value but found end of query', start: 9, end: 9, line: 2, column: 1 },
+    ])
+  })
+})
+
+describe('validateQuery', () => {
+  it('should throw QueryValidationError with all issues', () => {
+    expect(() => validateQuery('price like "1" and memo > "a"', formProperties)).toThrow(QueryValidationError)
+    expect(() => validateQuery('price > 1', formProperties)).not.toThrow()
+  })
+
+  it('should fail the Effect with QueryValidationError', () => {
+    const exit = Effect.runSyncExit(validateQueryEffect('price like "1" and memo > "a"', formProperties))
+
+    expect(Exit.isFailure(exit)).toBe(true)
+    if (Exit.isFailure(exit) && exit.cause._tag === 'Fail') {
+      expect(exit.cause.error.issues).toHaveLength(2)
+      expect(exit.cause.error.message).toBe(
+        '1:7 Operator "like" cannot be used for NUMBER field "price"\n' +
+          '1:25 Operator ">" cannot be used for MULTI_LINE_TEXT field "memo"'
+      )
+    }
+  })
+})
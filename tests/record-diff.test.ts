@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest'
+import { diffRecords } from '../src/record-diff.js'
+import { EmptyValueNotAllowed } from '../src/errors.js'
+
+describe('diffRecords', () => {
+  it('should return only changed fields as a write payload', () => {
+    const before = {
+      $id: { type: 'RECORD_ID' as const, value: '1' },
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: 'Old' },
+      memo: { type: 'MULTI_LINE_TEXT' as const, value: 'same' },
+      total: { type: 'CALC' as const, value: '100' },
+    }
+    const after = {
+      $id: { type: 'RECORD_ID' as const, value: '1' },
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: 'New' },
+      memo: { type: 'MULTI_LINE_TEXT' as const, value: 'same' },
+      total: { type: 'CALC' as const, value: '200' },
+    }
+
+    const diff = diffRecords(before, after)
+
+    expect(diff.payload).toEqual({ title: { value: 'New' } })
+    expect(diff.changes).toEqual([
+      {
+        kind: 'field',
+        fieldCode: 'title',
+        before: 'Old',
+        after: 'New',
+        message: 'フィールド "title" を変更: "Old" → "New"',
+      },
+    ])
+  })
+
+  it('should treat normalized empty values as equal', () => {
+    const before = {
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: '' },
+      price: { type: 'NUMBER' as const, value: null },
+      tags: { type: 'CHECK_BOX' as const, value: [] },
+    }
+    const after = {
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: undefined as unknown as string },
+      price: { type: 'NUMBER' as const, value: '' },
+      tags: { type: 'CHECK_BOX' as const, value: undefined as unknown as string[] },
+    }
+
+    expect(diffRecords(before, after)).toEqual({ payload: {}, changes: [] })
+  })
+
+  it('should compare user selections by code only', () => {
+    const before = {
+      owner: { type: 'USER_SELECT' as const, value: [{ code: 'user1', name: 'Old Name' }] },
+    }
+    const after = {
+      owner: { type: 'USER_SELECT' as const, value: [{ code: 'user1', name: 'New Name' }] },
+    }
+
+    expect(diffRecords(before, after).changes).toEqual([])
+
+    const changed = diffRecords(before, {
+      owner: { type: 'USER_SELECT' as const, value: [{ code: 'user2', name: 'User 2' }] },
+    })
+    expect(changed.payload).toEqual({ owner: { value: [{ code: 'user2' }] } })
+  })
+
+  it('should ignore the optional name and key order of entity values', () => {
+    const before = {
+      owner: { type: 'USER_SELECT' as const, value: [{ code: 'user1' }, { name: 'User 2', code: 'user2' }] },
+    }
+    const after = {
+      owner: {
+        type: 'USER_SELECT' as const,
+        value: [{ code: 'user1', name: 'User 1' }, { code: 'user2', name: 'User 2' }],
+      },
+    }
+
+    expect(diffRecords(before, after)).toEqual({ payload: {}, changes: [] })
+
+    const reordered = diffRecords(before, {
+      owner: { type: 'USER_SELECT' as const, value: [{ code: 'user2' }, { code: 'user1' }] },
+    })
+    expect(reordered.changes).toHaveLength(1)
+  })
+
+  it('should detect added, removed and changed subtable rows by id', () => {
+    const before = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '1',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Apple' },
+              qty: { type: 'NUMBER' as const, value: '1' },
+            },
+          },
+          {
+            id: '2',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Banana' },
+              qty: { type: 'NUMBER' as const, value: '2' },
+            },
+          },
+        ],
+      },
+    }
+    const after = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '1',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Apple' },
+              qty: { type: 'NUMBER' as const, value: '5' },
+            },
+          },
+          {
+            id: '',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Cherry' },
+              qty: { type: 'NUMBER' as const, value: '3' },
+            },
+          },
+        ],
+      },
+    }
+
+    const diff = diffRecords(before, after)
+
+    expect(diff.changes.map((change) => change.message)).toEqual([
+      'サブテーブル "items" 行 (id: 1) のフィールド "qty" を変更: "1" → "5"',
+      'サブテーブル "items": 行を追加',
+      'サブテーブル "items": 行 (id: 2) を削除',
+    ])
+    expect(diff.payload).toEqual({
+      items: {
+        value: [
+          { id: '1', value: { name: { value: 'Apple' }, qty: { value: '5' } } },
+          { value: { name: { value: 'Cherry' }, qty: { value: '3' } } },
+        ],
+      },
+    })
+  })
+
+  it('should leave unchanged subtables out of the payload', () => {
+    const record = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '1',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Apple' },
+              subtotal: { type: 'CALC' as const, value: '100' },
+            },
+          },
+        ],
+      },
+    }
+    const recalculated = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '1',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Apple' },
+              subtotal: { type: 'CALC' as const, value: '200' },
+            },
+          },
+        ],
+      },
+    }
+
+    expect(diffRecords(record, recalculated)).toEqual({ payload: {}, changes: [] })
+  })
+
+  it('should treat fields missing from before as changed from empty', () => {
+    const diff = diffRecords({}, { title: { type: 'SINGLE_LINE_TEXT' as const, value: 'New' } })
+
+    expect(diff.payload).toEqual({ title: { value: 'New' } })
+    expect(diff.changes[0]?.message).toBe('フィールド "title" を変更: undefined → "New"')
+  })
+
+  it('should format the change messages in the given locale', () => {
+    const before = {
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: 'Old' },
+    }
+    const after = {
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: 'New' },
+    }
+
+    expect(diffRecords(before, after, 'en').changes[0]?.message).toBe('Field "title" changed: "Old" → "New"')
+  })
+
+  it('should validate the changed fields', () => {
+    const before = { choice: { type: 'RADIO_BUTTON' as const, value: 'A' } }
+    const after = { choice: { type: 'RADIO_BUTTON' as const, value: null } }
+
+    expect(() => diffRecords(before, after)).toThrow(EmptyValueNotAllowed)
+  })
+})
@@ -5,6 +5,8 @@ import {
   GetRecordResponseSchema,
   SubtableFieldSchema,
 } from '../src/schemas/record.js'
+import { LenientKintoneRecordSchema } from '../src/schemas/lenient-fields.js'
+import { DomainKintoneRecordSchema } from '../src/schemas/domain-fields.js'
 
 describe('Kintone Record Schemas', () => {
   describe('KintoneRecordSchema', () => {
@@ -33,6 +35,20 @@ describe('Kintone Record Schemas', () => {
       const result = Schema.decodeUnknownSync(KintoneRecordSchema)(input)
       expect(result).toEqual(input)
     })
+
+    it('should parse the $id and $revision fields with the plain, lenient and domain schemas', () => {
+      const input = {
+        $id: { type: '__ID__', value: '1' },
+        $revision: { type: '__REVISION__', value: '2' },
+      }
+
+      expect(Schema.decodeUnknownSync(KintoneRecordSchema)(input)).toEqual(input)
+      expect(Schema.decodeUnknownSync(LenientKintoneRecordSchema)(input)).toEqual(input)
+      expect(Schema.decodeUnknownSync(DomainKintoneRecordSchema)(input)).toEqual({
+        $id: { type: '__ID__', value: 1 },
+        $revision: { type: '__REVISION__', value: 2 },
+      })
+    })
   })
 
   describe('SubtableFieldSchema', () => {
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import {
+  collectReportIssues,
+  validateReports,
+  validateReportsEffect,
+  ReportValidationError,
+} from '../src/report-validation.js'
+import type { GetFormFieldsResponse } from '../src/schemas/form/fields.js'
+import type { ReportForUpdate } from '../src/schemas/app/reports.js'
+
+const formProperties = {
+  顧客名: { type: 'SINGLE_LINE_TEXT', code: '顧客名', label: '顧客名' },
+  amount: { type: 'NUMBER', code: 'amount', label: '金額' },
+  受注日: { type: 'DATE', code: '受注日', label: '受注日' },
+  作成日時: { type: 'CREATED_TIME', code: '作成日時', label: '作成日時' },
+  利益: { type: 'CALC', code: '利益', label: '利益', format: 'NUMBER_DIGIT' },
+  納期: { type: 'CALC', code: '納期', label: '納期', format: 'DATE' },
+  メモ: { type: 'MULTI_LINE_TEXT', code: 'メモ', label: 'メモ' },
+  明細: {
+    type: 'SUBTABLE',
+    code: '明細',
+    label: '明細',
+    fields: { 品目: { type: 'DROP_DOWN', code: '品目', label: '品目' }, 数量: { type: 'NUMBER', code: '数量', label: '数量' } },
+  },
+} as unknown as GetFormFieldsResponse['properties']
+
+const report = (groups: ReportForUpdate['groups'], aggregations: ReportForUpdate['aggregations']) => ({
+  chartType: 'COLUMN' as const,
+  name: '月別売上',
+  index: 0,
+  groups,
+  aggregations,
+})
+
+describe('collectReportIssues', () => {
+  it('should accept groups and aggregations kintone allows', () => {
+    expect(
+      collectReportIssues(
+        {
+          月別売上: report(
+            [{ code: '受注日', per: 'MONTH' }, { code: '顧客名' }, { code: '品目' }],
+            [{ type: 'SUM', code: 'amount' }, { type: 'AVERAGE', code: '利益' }, { type: 'MAX', code: '納期' }, { type: 'COUNT' }]
+          ),
+          時間帯別: report([{ code: '作成日時', per: 'HOUR' }], [{ type: 'SUM', code: '数量' }]),
+        },
+        formProperties
+      )
+    ).toEqual([])
+  })
+
+  it('should report group fields with unsupported types or per', () => {
+    const issues = collectReportIssues(
+      {
+        月別売上: report(
+          [{ code: 'メモ' }, { code: '受注日' }, { code: '顧客名', per: 'MONTH' }, { code: '受注日', per: 'HOUR' }, { code: '削除済み' }],
+          [{ type: 'COUNT' }]
+        ),
+      },
+      formProperties
+    )
+    expect(issues.map(({ kind, fieldCode, path }) => ({ kind, fieldCode, path }))).toEqual([
+      { kind: 'groupFieldType', fieldCode: 'メモ', path: ['groups', 0] },
+      { kind: 'groupPer', fieldCode: '受注日', path: ['groups', 1] },
+      { kind: 'groupPer', fieldCode: '顧客名', path: ['groups', 2] },
+      { kind: 'groupPer', fieldCode: '受注日', path: ['groups', 3] },
+      { kind: 'unknownField', fieldCode: '削除済み', path: ['groups', 4] },
+    ])
+    expect(issues[1]?.message).toBe(
+      'グラフ "月別売上": DATE フィールド "受注日" の per には YEAR / QUARTER / MONTH / WEEK / DAY のいずれかを指定してください'
+    )
+  })
+
+  it('should report aggregated fields with unsupported types', () => {
+    const issues = collectReportIssues(
+      {
+        月別売上: report(
+          [{ code: '顧客名' }],
+          [{ type: 'SUM', code: '顧客名' }, { type: 'AVERAGE', code: '納期' }, { type: 'MIN', code: '受注日' }, { type: 'MAX' }]
+        ),
+      },
+      formProperties,
+      'en'
+    )
+    expect(issues).toEqual([
+      {
+        report: '月別売上',
+        kind: 'aggregationFieldType',
+        fieldCode: '顧客名',
+        path: ['aggregations', 0],
+        message: 'Report "月別売上": SUM cannot aggregate SINGLE_LINE_TEXT field "顧客名"',
+      },
+      {
+        report: '月別売上',
+        kind: 'aggregationFieldType',
+        fieldCode: '納期',
+        path: ['aggregations', 1],
+        message: 'Report "月別売上": AVERAGE cannot aggregate CALC field "納期"',
+      },
+      {
+        report: '月別売上',
+        kind: 'aggregationField',
+        path: ['aggregations', 3],
+        message: 'Report "月別売上": MAX requires a field code',
+      },
+    ])
+  })
+})
+
+describe('validateReports', () => {
+  const invalid = { 月別売上: report([{ code: 'メモ' }], [{ type: 'COUNT' as const }]) }
+
+  it('should throw ReportValidationError with every issue', () => {
+    expect(() => validateReports(invalid, formProperties, 'en')).toThrow(
+      'Report "月別売上": MULTI_LINE_TEXT field "メモ" cannot be used as a group'
+    )
+    expect(() => validateReports({}, formProperties)).not.toThrow()
+  })
+
+  it('should fail with ReportValidationError in the Effect variant', () => {
+    const exit = Effect.runSyncExit(validateReportsEffect(invalid, formProperties))
+    expect(Exit.isFailure(exit)).toBe(true)
+    if (Exit.isFailure(exit) && exit.cause._tag === 'Fail') {
+      expect(exit.cause.error).toBeInstanceOf(ReportValidationError)
+      expect(exit.cause.error.issues).toHaveLength(1)
+    }
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import {
+  GetAppAclResponseSchema,
+  GetFieldAclResponseSchema,
+  GetRecordAclResponseSchema,
+  UpdateAppAclRequestSchema,
+} from '../../../src/schemas/app/acl.js'
+
+describe('GetAppAclResponseSchema', () => {
+  const right = {
+    entity: { type: 'ORGANIZATION', code: '営業部' },
+    includeSubs: true,
+    appEditable: false,
+    recordViewable: true,
+    recordAddable: true,
+    recordEditable: true,
+    recordDeletable: false,
+    recordImportable: false,
+    recordExportable: true,
+  }
+
+  it('should decode app rights for users, organizations, groups and the creator', () => {
+    const result = Schema.decodeUnknownEither(GetAppAclResponseSchema)({
+      rights: [right, { ...right, entity: { type: 'CREATOR', code: null } }, { ...right, entity: { type: 'GROUP', code: 'everyone' } }],
+      revision: '2',
+    })
+    expect(Either.isRight(result)).toBe(true)
+  })
+
+  it('should reject field entities and creators with a code', () => {
+    const decode = Schema.decodeUnknownEither(GetAppAclResponseSchema)
+    expect(Either.isLeft(decode({ rights: [{ ...right, entity: { type: 'FIELD_ENTITY', code: '担当者' } }], revision: '2' }))).toBe(true)
+    expect(Either.isLeft(decode({ rights: [{ ...right, entity: { type: 'CREATOR', code: 'sato' } }], revision: '2' }))).toBe(true)
+  })
+
+  it('should accept partial rights in the update request', () => {
+    const result = Schema.decodeUnknownEither(UpdateAppAclRequestSchema)({
+      app: 1,
+      rights: [{ entity: { type: 'USER', code: 'sato' }, recordViewable: true }],
+    })
+    expect(Either.isRight(result)).toBe(true)
+  })
+})
+
+describe('GetRecordAclResponseSchema / GetFieldAclResponseSchema', () => {
+  it('should decode record and field rights with field entities', () => {
+    const entity = { type: 'FIELD_ENTITY', code: '担当者' }
+    expect(
+      Either.isRight(
+        Schema.decodeUnknownEither(GetRecordAclResponseSchema)({
+          rights: [{ filterCond: 'amount > 0', entities: [{ entity, viewable: true, editable: false, deletable: false, includeSubs: false }] }],
+          revision: '3',
+        })
+      )
+    ).toBe(true)
+    expect(
+      Either.isRight(
+        Schema.decodeUnknownEither(GetFieldAclResponseSchema)({
+          rights: [{ code: '原価', entities: [{ accessibility: 'READ', entity, includeSubs: false }] }],
+          revision: '4',
+        })
+      )
+    ).toBe(true)
+    expect(
+      Either.isLeft(
+        Schema.decodeUnknownEither(GetFieldAclResponseSchema)({
+          rights: [{ code: '原価', entities: [{ accessibility: 'HIDDEN', entity, includeSubs: false }] }],
+          revision: '4',
+        })
+      )
+    ).toBe(true)
+  })
+})
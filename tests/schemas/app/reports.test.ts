@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import { GetReportsResponseSchema, UpdateReportsRequestSchema } from '../../../src/schemas/app/reports.js'
+
+const report = {
+  chartType: 'COLUMN',
+  chartMode: 'STACKED',
+  id: '10',
+  name: '月別売上',
+  index: '0',
+  groups: [{ code: '受注日', per: 'MONTH' }, { code: '担当者' }],
+  aggregations: [{ type: 'SUM', code: 'amount' }],
+  filterCond: 'amount > 0',
+  sorts: [{ by: 'GROUP1', order: 'ASC' }],
+  periodicReport: {
+    active: true,
+    period: { every: 'QUARTER', pattern: 'JAN_APR_JUL_OCT', dayOfMonth: 'END_OF_MONTH', time: '09:30' },
+  },
+}
+
+describe('GetReportsResponseSchema', () => {
+  it('should decode and encode reports', () => {
+    const { chartMode: _chartMode, ...base } = report
+    const input = {
+      reports: {
+        月別売上: report,
+        件数: { ...base, chartType: 'PIE', groups: [{ code: '担当者' }], aggregations: [{ type: 'COUNT' }], periodicReport: null },
+      },
+      revision: '7',
+    }
+
+    const decoded = Schema.decodeUnknownSync(GetReportsResponseSchema)(input)
+    expect(Schema.encodeSync(GetReportsResponseSchema)(decoded)).toEqual(input)
+  })
+
+  it('should reject more than three groups and unknown periods', () => {
+    const decode = Schema.decodeUnknownEither(GetReportsResponseSchema)
+    const groups = [{ code: 'a' }, { code: 'b' }, { code: 'c' }, { code: 'd' }]
+    expect(Either.isLeft(decode({ reports: { r: { ...report, groups } }, revision: '1' }))).toBe(true)
+    expect(
+      Either.isLeft(
+        decode({ reports: { r: { ...report, periodicReport: { active: true, period: { every: 'QUARTER', time: '09:00' } } } }, revision: '1' })
+      )
+    ).toBe(true)
+  })
+})
+
+describe('UpdateReportsRequestSchema', () => {
+  it('should accept reports without id and with a numeric index', () => {
+    const { id: _id, ...rest } = report
+    const result = Schema.decodeUnknownEither(UpdateReportsRequestSchema)({
+      app: '5',
+      reports: { 月別売上: { ...rest, index: 1, filterCond: undefined } },
+    })
+    expect(Either.isRight(result)).toBe(true)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import {
+  GetProcessManagementResponseSchema,
+  UpdateProcessManagementRequestSchema,
+} from '../../../src/schemas/app/status.js'
+
+const response = {
+  enable: true,
+  states: {
+    未処理: {
+      name: '未処理',
+      index: '0',
+      assignee: {
+        type: 'ONE',
+        entities: [{ entity: { type: 'CREATOR', code: null }, includeSubs: false }],
+      },
+    },
+    承認待ち: {
+      name: '承認待ち',
+      index: '1',
+      assignee: {
+        type: 'ANY',
+        entities: [{ entity: { type: 'ORGANIZATION', code: '営業部' }, includeSubs: true }],
+      },
+    },
+  },
+  actions: [
+    {
+      name: '申請する',
+      from: '未処理',
+      to: '承認待ち',
+      filterCond: 'amount > 0',
+      type: 'PRIMARY',
+      executableUser: { entities: [{ entity: { type: 'FIELD_ENTITY', code: '申請者' }, includeSubs: false }] },
+    },
+  ],
+  revision: '3',
+}
+
+describe('Process Management Schemas', () => {
+  it('should decode and encode the status settings response', () => {
+    const decoded = Schema.decodeUnknownSync(GetProcessManagementResponseSchema)(response)
+
+    expect(decoded.states?.['承認待ち']?.assignee.type).toBe('ANY')
+    expect(Schema.encodeSync(GetProcessManagementResponseSchema)(decoded)).toEqual(response)
+  })
+
+  it('should accept apps that never configured process management', () => {
+    const decoded = Schema.decodeUnknownSync(GetProcessManagementResponseSchema)({
+      enable: false,
+      states: null,
+      actions: null,
+      revision: '1',
+    })
+
+    expect(decoded.states).toBeNull()
+  })
+
+  it('should reject unknown assignee types', () => {
+    const invalid = {
+      ...response,
+      states: { 未処理: { name: '未処理', index: '0', assignee: { type: 'SOME', entities: [] } } },
+    }
+
+    expect(Either.isLeft(Schema.decodeUnknownEither(GetProcessManagementResponseSchema)(invalid))).toBe(true)
+  })
+
+  it('should accept update requests with numeric indexes and omitted filterCond', () => {
+    const request = {
+      app: 1,
+      enable: true,
+      states: { 未処理: { name: '未処理', index: 0 } },
+      actions: [{ name: '申請する', from: '未処理', to: '承認待ち' }],
+    }
+
+    expect(Schema.decodeUnknownSync(UpdateProcessManagementRequestSchema)(request)).toEqual(request)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import {
+  GetViewsResponseSchema,
+  UpdateViewsRequestSchema,
+  type View,
+} from '../../../src/schemas/app/views.js'
+
+const views = {
+  一覧: {
+    type: 'LIST',
+    name: '一覧',
+    id: '1',
+    filterCond: 'title like "会議"',
+    sort: 'レコード番号 desc',
+    index: '0',
+    fields: ['レコード番号', 'title', 'item'],
+  },
+  カレンダー: {
+    type: 'CALENDAR',
+    name: 'カレンダー',
+    id: '2',
+    filterCond: '',
+    sort: '',
+    index: '1',
+    date: 'due',
+    title: 'title',
+  },
+  カスタム: {
+    type: 'CUSTOM',
+    name: 'カスタム',
+    id: '3',
+    filterCond: '',
+    sort: '',
+    index: '2',
+    html: '<div id="root"></div>',
+    pager: true,
+    device: 'ANY',
+  },
+} satisfies Record<string, View>
+
+describe('GetViewsResponseSchema', () => {
+  it('一覧・カレンダー・カスタマイズ形式の一覧をデコードできる', () => {
+    const result = Schema.decodeUnknownEither(GetViewsResponseSchema)({ views, revision: '5' })
+    expect(Either.isRight(result)).toBe(true)
+  })
+
+  it('形式ごとの必須の項目がない一覧は拒否される', () => {
+    const { date: _date, ...calendar } = views.カレンダー
+    const result = Schema.decodeUnknownEither(GetViewsResponseSchema)({ views: { カレンダー: calendar }, revision: '5' })
+    expect(Either.isLeft(result)).toBe(true)
+  })
+})
+
+describe('UpdateViewsRequestSchema', () => {
+  it('id を指定せず、index に数値を指定できる', () => {
+    const result = Schema.decodeUnknownEither(UpdateViewsRequestSchema)({
+      app: 1,
+      views: { 一覧: { type: 'LIST', name: '一覧', index: 0, fields: ['title'] } },
+    })
+    expect(Either.isRight(result)).toBe(true)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import {
+  GetFormLayoutResponseSchema,
+  FormLayoutSchema,
+  UpdateFormLayoutRequestSchema,
+} from '../../../src/schemas/form/layout.js'
+
+const layoutResponse = {
+  layout: [
+    {
+      type: 'ROW',
+      fields: [
+        { type: 'SINGLE_LINE_TEXT', code: 'title', size: { width: '193' } },
+        { type: 'LABEL', label: '<b>注意</b>', size: { width: '200' } },
+        { type: 'SPACER', elementId: 'space', size: { width: '100', height: '50' } },
+        { type: 'HR', size: { width: '600' } },
+      ],
+    },
+    {
+      type: 'SUBTABLE',
+      code: 'items',
+      fields: [{ type: 'NUMBER', code: 'quantity', size: { width: '81' } }],
+    },
+    {
+      type: 'GROUP',
+      code: 'details',
+      layout: [
+        {
+          type: 'ROW',
+          fields: [{ type: 'MULTI_LINE_TEXT', code: 'memo', size: { width: '400', innerHeight: '125' } }],
+        },
+      ],
+    },
+  ],
+  revision: '2',
+}
+
+describe('Form Layout Schemas', () => {
+  it('should decode and encode the layout response including nested group layouts', () => {
+    const decoded = Schema.decodeUnknownSync(GetFormLayoutResponseSchema)(layoutResponse)
+
+    expect(decoded.layout).toHaveLength(3)
+    expect(decoded.layout[2]).toMatchObject({ type: 'GROUP', layout: [{ type: 'ROW' }] })
+    expect(Schema.encodeSync(GetFormLayoutResponseSchema)(decoded)).toEqual(layoutResponse)
+  })
+
+  it('should accept numeric sizes in update requests', () => {
+    const request = {
+      app: 1,
+      layout: [{ type: 'ROW', fields: [{ type: 'NUMBER', code: 'price', size: { width: 120 } }] }],
+    }
+
+    expect(Schema.decodeUnknownSync(UpdateFormLayoutRequestSchema)(request)).toEqual(request)
+  })
+
+  it('should reject groups nested in groups and unknown element types', () => {
+    const decode = Schema.decodeUnknownEither(FormLayoutSchema)
+
+    expect(decode({ type: 'GROUP', code: 'g', layout: [{ type: 'GROUP', code: 'h', layout: [] }] })._tag).toBe('Left')
+    expect(decode({ type: 'ROW', fields: [{ type: 'SUBTABLE', code: 'items' }] })._tag).toBe('Left')
+  })
+})
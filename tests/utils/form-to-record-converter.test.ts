@@ -0,0 +1,438 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import {
+  convertFormFieldToRecordSchema,
+  convertFormFieldsToRecordSchema,
+  createRecordStructFromForm,
+  createRecordWriteStructFromForm,
+} from '../../src/utils/form-to-record-converter.js'
+
+const formFields = {
+  title: {
+    type: 'SINGLE_LINE_TEXT',
+    code: 'title',
+    label: 'タイトル',
+    defaultValue: '',
+    minLength: '',
+    maxLength: '',
+  },
+  price: {
+    type: 'NUMBER',
+    code: 'price',
+    label: '価格',
+    defaultValue: '',
+    minValue: '',
+    maxValue: '',
+    displayScale: '',
+    unit: '',
+  },
+  section: {
+    type: 'GROUP',
+    code: 'section',
+    label: 'セクション',
+  },
+  items: {
+    type: 'SUBTABLE',
+    code: 'items',
+    label: '明細',
+    fields: {
+      item_name: {
+        type: 'SINGLE_LINE_TEXT',
+        code: 'item_name',
+        label: '品名',
+        noLabel: false,
+        required: false,
+        defaultValue: '',
+        unique: false,
+        minLength: '',
+        maxLength: '',
+        expression: '',
+        hideExpression: false,
+      },
+      quantity: {
+        type: 'NUMBER',
+        code: 'quantity',
+        label: '数量',
+        noLabel: false,
+        required: false,
+        defaultValue: '',
+        unique: false,
+        minValue: '',
+        maxValue: '',
+        digit: false,
+        displayScale: '',
+        unit: '',
+        unitPosition: '',
+      },
+    },
+  },
+} as const
+
+const validRecord = {
+  title: { type: 'SINGLE_LINE_TEXT', value: 'Order' },
+  price: { type: 'NUMBER', value: '100' },
+  items: {
+    type: 'SUBTABLE',
+    value: [
+      {
+        id: '1',
+        value: {
+          item_name: { type: 'SINGLE_LINE_TEXT', value: 'Pen' },
+          quantity: { type: 'NUMBER', value: '2' },
+        },
+      },
+    ],
+  },
+}
+
+describe('createRecordStructFromForm', () => {
+  it('should build a struct keyed by field code', () => {
+    const schema = createRecordStructFromForm(formFields)
+
+    expect(Object.keys(schema.fields).sort()).toEqual(['items', 'price', 'title'])
+
+    const record = Schema.decodeUnknownSync(schema)(validRecord)
+    expect(record).toEqual(validRecord)
+    expect(record.price.value).toBe('100')
+    expect(record.items.value[0]?.value.quantity.value).toBe('2')
+  })
+
+  it('should reject a field whose type does not match its field code', () => {
+    const schema = createRecordStructFromForm(formFields)
+
+    expect(() =>
+      Schema.decodeUnknownSync(schema)({
+        ...validRecord,
+        price: { type: 'SINGLE_LINE_TEXT', value: '100' },
+      })
+    ).toThrow()
+  })
+
+  it('should reject missing fields', () => {
+    const schema = createRecordStructFromForm(formFields)
+    const { price: _price, ...withoutPrice } = validRecord
+
+    expect(() => Schema.decodeUnknownSync(schema)(withoutPrice)).toThrow(/price/)
+  })
+
+  it('should reject unknown field codes by default', () => {
+    const schema = createRecordStructFromForm(formFields)
+
+    expect(() =>
+      Schema.decodeUnknownSync(schema)({
+        ...validRecord,
+        unknown_code: { type: 'SINGLE_LINE_TEXT', value: 'x' },
+      })
+    ).toThrow(/unknown_code/)
+  })
+
+  it('should reject unknown columns in subtable rows', () => {
+    const schema = createRecordStructFromForm(formFields)
+    const row = validRecord.items.value[0]!
+
+    expect(() =>
+      Schema.decodeUnknownSync(schema)({
+        ...validRecord,
+        items: {
+          type: 'SUBTABLE',
+          value: [{ ...row, value: { ...row.value, extra: { type: 'NUMBER', value: '1' } } }],
+        },
+      })
+    ).toThrow(/extra/)
+  })
+
+  it('should drop unknown field codes when onExcessProperty is ignore', () => {
+    const schema = createRecordStructFromForm(formFields, { onExcessProperty: 'ignore' })
+
+    const record = Schema.decodeUnknownSync(schema)({
+      ...validRecord,
+      unknown_code: { type: 'SINGLE_LINE_TEXT', value: 'x' },
+    })
+    expect(record).toEqual(validRecord)
+  })
+})
+
+describe('option-aware selection fields', () => {
+  const options = {
+    A: { label: 'A', index: '0' },
+    B: { label: 'B', index: '1' },
+  }
+
+  it('should restrict RADIO_BUTTON and DROP_DOWN values to the option labels', () => {
+    const radio = convertFormFieldToRecordSchema({
+      type: 'RADIO_BUTTON',
+      code: 'rank',
+      label: 'ランク',
+      options,
+      defaultValue: 'A',
+    })!
+    const dropDown = convertFormFieldToRecordSchema({
+      type: 'DROP_DOWN',
+      code: 'size',
+      label: 'サイズ',
+      options,
+      defaultValue: '',
+    })!
+
+    expect(Schema.decodeUnknownSync(radio)({ type: 'RADIO_BUTTON', value: 'B' })).toEqual({
+      type: 'RADIO_BUTTON',
+      value: 'B',
+    })
+    expect(Schema.decodeUnknownSync(dropDown)({ type: 'DROP_DOWN', value: null })).toEqual({
+      type: 'DROP_DOWN',
+      value: null,
+    })
+    expect(() => Schema.decodeUnknownSync(radio)({ type: 'RADIO_BUTTON', value: 'C' })).toThrow()
+    expect(() => Schema.decodeUnknownSync(dropDown)({ type: 'DROP_DOWN', value: 'a' })).toThrow()
+  })
+
+  it('should restrict CHECK_BOX and MULTI_SELECT values to arrays of the option labels', () => {
+    const checkBox = convertFormFieldToRecordSchema({
+      type: 'CHECK_BOX',
+      code: 'tags',
+      label: 'タグ',
+      options,
+      defaultValue: [],
+    })!
+
+    expect(Schema.decodeUnknownSync(checkBox)({ type: 'CHECK_BOX', value: ['A', 'B'] })).toEqual({
+      type: 'CHECK_BOX',
+      value: ['A', 'B'],
+    })
+    expect(Schema.decodeUnknownSync(checkBox)({ type: 'CHECK_BOX', value: [] })).toEqual({
+      type: 'CHECK_BOX',
+      value: [],
+    })
+    expect(() =>
+      Schema.decodeUnknownSync(checkBox)({ type: 'CHECK_BOX', value: ['A', 'removed'] })
+    ).toThrow()
+  })
+
+  it('should reject every label for a selection field without options', () => {
+    const checkBox = convertFormFieldToRecordSchema({
+      type: 'CHECK_BOX',
+      code: 'tags',
+      label: 'タグ',
+      options: {},
+      defaultValue: [],
+    })!
+
+    expect(Schema.decodeUnknownSync(checkBox)({ type: 'CHECK_BOX', value: [] })).toEqual({
+      type: 'CHECK_BOX',
+      value: [],
+    })
+    expect(() => Schema.decodeUnknownSync(checkBox)({ type: 'CHECK_BOX', value: ['A'] })).toThrow(
+      'The field has no options'
+    )
+  })
+
+  it('should restrict selection columns inside subtables', () => {
+    const schema = createRecordStructFromForm({
+      items: {
+        type: 'SUBTABLE',
+        code: 'items',
+        label: '明細',
+        fields: {
+          color: {
+            type: 'MULTI_SELECT',
+            code: 'color',
+            label: '色',
+            noLabel: false,
+            required: false,
+            options: {
+              red: { label: 'red', index: '0' },
+              blue: { label: 'blue', index: '1' },
+            },
+            defaultValue: [],
+          },
+        },
+      },
+    } as const)
+
+    const row = (value: ReadonlyArray<string>) => ({
+      items: {
+        type: 'SUBTABLE',
+        value: [{ id: '1', value: { color: { type: 'MULTI_SELECT', value } } }],
+      },
+    })
+
+    expect(() => Schema.decodeUnknownSync(schema)(row(['red']))).not.toThrow()
+    expect(() => Schema.decodeUnknownSync(schema)(row(['green']))).toThrow()
+  })
+})
+
+describe('strict mode', () => {
+  const strictForm = {
+    title: {
+      type: 'SINGLE_LINE_TEXT',
+      code: 'title',
+      label: 'タイトル',
+      required: true,
+      defaultValue: '',
+      minLength: '',
+      maxLength: '10',
+    },
+    price: {
+      type: 'NUMBER',
+      code: 'price',
+      label: '価格',
+      defaultValue: '',
+      minValue: '0',
+      maxValue: '',
+      displayScale: '0',
+      unit: '',
+    },
+    items: {
+      type: 'SUBTABLE',
+      code: 'items',
+      label: '明細',
+      fields: {
+        quantity: {
+          type: 'NUMBER',
+          code: 'quantity',
+          label: '数量',
+          noLabel: false,
+          required: true,
+          defaultValue: '',
+          unique: false,
+          minValue: '1',
+          maxValue: '',
+          digit: false,
+          displayScale: '',
+          unit: '',
+          unitPosition: '',
+        },
+      },
+    },
+  } as const
+
+  const record = (title: string, price: string | null, quantity: string | null) => ({
+    title: { type: 'SINGLE_LINE_TEXT', value: title },
+    price: { type: 'NUMBER', value: price },
+    items: {
+      type: 'SUBTABLE',
+      value: [{ id: '1', value: { quantity: { type: 'NUMBER', value: quantity } } }],
+    },
+  })
+
+  it('should not enforce constraints unless strict is set', () => {
+    const schema = createRecordStructFromForm(strictForm)
+    expect(() => Schema.decodeUnknownSync(schema)(record('', '-1', null))).not.toThrow()
+  })
+
+  it('should enforce constraints with messages naming the field code and constraint', () => {
+    const schema = createRecordStructFromForm(strictForm, { strict: true })
+
+    expect(() => Schema.decodeUnknownSync(schema)(record('Order', '100', '1'))).not.toThrow()
+    expect(() => Schema.decodeUnknownSync(schema)(record('', '100', '1'))).toThrow(
+      'フィールド "title": 必須項目です (required)'
+    )
+    // displayScale は表示時の丸めのため制約にしない
+    expect(() => Schema.decodeUnknownSync(schema)(record('Order', '1.5', '1'))).not.toThrow()
+    expect(() => Schema.decodeUnknownSync(schema)(record('Order', '-1', '1'))).toThrow(
+      /フィールド "price": .*\(minValue\)/
+    )
+  })
+
+  it('should check subtable columns row by row', () => {
+    const schema = createRecordStructFromForm(strictForm, { strict: true })
+
+    expect(() => Schema.decodeUnknownSync(schema)(record('Order', '100', null))).toThrow(
+      'フィールド "quantity": 必須項目です (required)'
+    )
+    expect(() => Schema.decodeUnknownSync(schema)(record('Order', '100', '0'))).toThrow(
+      /フィールド "quantity": .*\(minValue\)/
+    )
+  })
+
+  it('should support strict mode in convertFormFieldsToRecordSchema', () => {
+    const schemas = convertFormFieldsToRecordSchema(strictForm, { strict: true })
+
+    expect(() =>
+      Schema.decodeUnknownSync(schemas['title']!)({ type: 'SINGLE_LINE_TEXT', value: 'a'.repeat(11) })
+    ).toThrow('(maxLength)')
+  })
+})
+
+
+describe('createRecordWriteStructFromForm', () => {
+  const writeFormFields = {
+    ...formFields,
+    total: {
+      type: 'CALC',
+      code: 'total',
+      label: '合計',
+      expression: 'price * 2',
+      format: 'NUMBER',
+      displayScale: '',
+      unit: '',
+    },
+    owner: {
+      type: 'USER_SELECT',
+      code: 'owner',
+      label: '担当者',
+      defaultValue: [],
+      entities: [],
+    },
+    priority: {
+      type: 'RADIO_BUTTON',
+      code: 'priority',
+      label: '優先度',
+      defaultValue: '高',
+      align: 'HORIZONTAL',
+      options: {
+        高: { label: '高', index: '0' },
+        低: { label: '低', index: '1' },
+      },
+    },
+  } as const
+
+  it('should accept write values and leave out read-only fields', () => {
+    const schema = createRecordWriteStructFromForm(writeFormFields)
+
+    expect(Object.keys(schema.fields).sort()).toEqual(['items', 'owner', 'price', 'priority', 'title'])
+
+    const record = {
+      title: { value: 'Order' },
+      owner: { value: [{ code: 'user1' }] },
+      priority: { value: '高' },
+      items: {
+        value: [
+          { id: '1', value: { quantity: { value: '3' } } },
+          { value: { item_name: { value: 'Pen' } } },
+        ],
+      },
+    }
+    expect(Schema.decodeUnknownSync(schema)(record)).toEqual(record)
+  })
+
+  it('should treat every field as optional', () => {
+    const schema = createRecordWriteStructFromForm(writeFormFields)
+
+    expect(Schema.decodeUnknownSync(schema)({})).toEqual({})
+  })
+
+  it('should reject read-only fields and record-shaped values', () => {
+    const schema = createRecordWriteStructFromForm(writeFormFields)
+
+    expect(() => Schema.decodeUnknownSync(schema)({ total: { value: '200' } })).toThrow()
+    expect(() =>
+      Schema.decodeUnknownSync(schema)({ owner: { value: [{ name: 'User 1' }] } })
+    ).toThrow()
+  })
+
+  it('should restrict selection fields to the option labels and reject empty radio buttons', () => {
+    const schema = createRecordWriteStructFromForm(writeFormFields)
+
+    expect(() => Schema.decodeUnknownSync(schema)({ priority: { value: '中' } })).toThrow()
+    expect(() => Schema.decodeUnknownSync(schema)({ priority: { value: null } })).toThrow()
+  })
+
+  it('should ignore unknown field codes when requested', () => {
+    const schema = createRecordWriteStructFromForm(writeFormFields, { onExcessProperty: 'ignore' })
+
+    expect(Schema.decodeUnknownSync(schema)({ title: { value: 'A' }, unknown: { value: 'x' } })).toEqual({
+      title: { value: 'A' },
+    })
+  })
+})
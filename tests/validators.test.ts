@@ -1,11 +1,25 @@
 import { describe, it, expect } from 'vitest'
+import { Effect, Either } from 'effect'
 import { 
   validateFieldForWrite,
   validateRecordForWrite,
+  collectRecordWriteIssues,
+  collectUniqueFieldHints,
+  validateRecordForWriteEffect,
+  RecordValidationError,
   isNonEmptyField,
+  isReadOnlyField,
   getEmptyValueForWrite,
-  KintoneValidationError
+  toValidationError,
 } from '../src/validators.js'
+import {
+  EmptyValueNotAllowed,
+  ConstraintViolation,
+  OptionNotFound,
+  ReadOnlyField,
+  UnknownFieldCode,
+  isKintoneValidationError,
+} from '../src/errors.js'
 
 describe('Field Validators', () => {
   describe('validateFieldForWrite', () => {
@@ -24,7 +38,7 @@ describe('Field Validators', () => {
         value: null,
       }
       
-      expect(() => validateFieldForWrite(field)).toThrow(KintoneValidationError)
+      expect(() => validateFieldForWrite(field)).toThrow(EmptyValueNotAllowed)
       expect(() => validateFieldForWrite(field)).toThrow('RADIO_BUTTONフィールドには空の値を設定できません')
     })
 
@@ -34,7 +48,7 @@ describe('Field Validators', () => {
         value: [],
       }
       
-      expect(() => validateFieldForWrite(field)).toThrow(KintoneValidationError)
+      expect(() => validateFieldForWrite(field)).toThrow(EmptyValueNotAllowed)
       expect(() => validateFieldForWrite(field)).toThrow('CATEGORYフィールドには空の値を設定できません')
     })
 
@@ -44,7 +58,7 @@ describe('Field Validators', () => {
         value: [],
       }
       
-      expect(() => validateFieldForWrite(field)).toThrow(KintoneValidationError)
+      expect(() => validateFieldForWrite(field)).toThrow(EmptyValueNotAllowed)
       expect(() => validateFieldForWrite(field)).toThrow('STATUS_ASSIGNEEフィールドには空の値を設定できません')
     })
 
@@ -94,6 +108,356 @@ describe('Field Validators', () => {
     })
   })
 
+  describe('collectRecordWriteIssues', () => {
+    const record = {
+      radio_field: {
+        type: 'RADIO_BUTTON' as const,
+        value: null,
+      },
+      category: {
+        type: 'CATEGORY' as const,
+        value: [],
+      },
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          { id: '1', value: { choice: { type: 'RADIO_BUTTON' as const, value: 'A' } } },
+          { id: '2', value: { choice: { type: 'RADIO_BUTTON' as const, value: '' } } },
+        ],
+      },
+    }
+
+    it('should return every issue instead of stopping at the first', () => {
+      expect(collectRecordWriteIssues(record)).toEqual([
+        {
+          fieldCode: 'radio_field',
+          path: ['radio_field'],
+          fieldType: 'RADIO_BUTTON',
+          rule: 'nonEmpty',
+          actual: null,
+          message: 'フィールド "radio_field": RADIO_BUTTONフィールドには空の値を設定できません',
+        },
+        {
+          fieldCode: 'category',
+          path: ['category'],
+          fieldType: 'CATEGORY',
+          rule: 'nonEmpty',
+          actual: [],
+          message: 'フィールド "category": CATEGORYフィールドには空の値を設定できません',
+        },
+        {
+          fieldCode: 'choice',
+          subtableCode: 'items',
+          rowIndex: 1,
+          path: ['items', 1, 'choice'],
+          fieldType: 'RADIO_BUTTON',
+          rule: 'nonEmpty',
+          actual: '',
+          message: 'サブテーブル "items" 2行目のフィールド "choice": RADIO_BUTTONフィールドには空の値を設定できません',
+        },
+      ])
+    })
+
+    it('should return an empty list for a valid record', () => {
+      expect(collectRecordWriteIssues({ text: { type: 'SINGLE_LINE_TEXT', value: '' } })).toEqual([])
+    })
+
+    it('should fail the Effect version with a tagged error holding every issue', () => {
+      const result = Effect.runSync(Effect.either(validateRecordForWriteEffect(record)))
+
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        expect(result.left).toBeInstanceOf(RecordValidationError)
+        expect(result.left._tag).toBe('RecordValidationError')
+        expect(result.left.issues).toHaveLength(3)
+        expect(result.left.message).toContain('フィールド "category"')
+      }
+    })
+
+    it('should succeed the Effect version for a valid record', () => {
+      expect(() =>
+        Effect.runSync(validateRecordForWriteEffect({ radio_field: { type: 'RADIO_BUTTON', value: 'A' } }))
+      ).not.toThrow()
+    })
+  })
+
+  describe('form-aware validation', () => {
+    const formProperties = {
+      title: {
+        type: 'SINGLE_LINE_TEXT' as const,
+        code: 'title',
+        label: 'タイトル',
+        required: true,
+        defaultValue: '',
+        minLength: '',
+        maxLength: '5',
+      },
+      status: {
+        type: 'RADIO_BUTTON' as const,
+        code: 'status',
+        label: '状態',
+        required: true,
+        defaultValue: '未着手',
+        align: 'HORIZONTAL' as const,
+        options: {
+          未着手: { label: '未着手', index: '0' },
+          完了: { label: '完了', index: '1' },
+        },
+      },
+      url: {
+        type: 'LINK' as const,
+        code: 'url',
+        label: 'URL',
+        protocol: 'WEB' as const,
+        defaultValue: '',
+        minLength: '',
+        maxLength: '',
+      },
+      items: {
+        type: 'SUBTABLE' as const,
+        code: 'items',
+        label: '明細',
+        fields: {
+          qty: {
+            type: 'NUMBER' as const,
+            code: 'qty',
+            label: '数量',
+            noLabel: false,
+            required: false,
+            defaultValue: '',
+            unique: false,
+            minValue: '1',
+            maxValue: '',
+            digit: false,
+            displayScale: '',
+            unit: '',
+            unitPosition: 'BEFORE' as const,
+          },
+        },
+      },
+    }
+
+    it('should enforce required, option, length, protocol and value settings', () => {
+      const record = {
+        title: { type: 'SINGLE_LINE_TEXT' as const, value: '長すぎるタイトル' },
+        status: { type: 'RADIO_BUTTON' as const, value: '保留' },
+        url: { type: 'LINK' as const, value: 'example.com' },
+        items: {
+          type: 'SUBTABLE' as const,
+          value: [{ id: '1', value: { qty: { type: 'NUMBER' as const, value: '0' } } }],
+        },
+      }
+
+      expect(collectRecordWriteIssues(record, formProperties)).toEqual([
+        {
+          fieldCode: 'title',
+          path: ['title'],
+          fieldType: 'SINGLE_LINE_TEXT',
+          rule: 'maxLength',
+          expected: 5,
+          actual: 8,
+          message: 'フィールド "title": 5文字以下で入力してください (maxLength)',
+        },
+        {
+          fieldCode: 'status',
+          path: ['status'],
+          fieldType: 'RADIO_BUTTON',
+          rule: 'option',
+          expected: ['未着手', '完了'],
+          actual: '保留',
+          message: 'フィールド "status": "保留"は選択肢にありません (option)',
+        },
+        {
+          fieldCode: 'url',
+          path: ['url'],
+          fieldType: 'LINK',
+          rule: 'protocol',
+          expected: 'WEB',
+          actual: 'example.com',
+          message: 'フィールド "url": WEB形式の値を入力してください (protocol)',
+        },
+        {
+          fieldCode: 'qty',
+          subtableCode: 'items',
+          rowIndex: 0,
+          path: ['items', 0, 'qty'],
+          fieldType: 'NUMBER',
+          rule: 'minValue',
+          expected: 1,
+          actual: '0',
+          message: 'サブテーブル "items" 1行目のフィールド "qty": 1以上の値を入力してください (minValue)',
+        },
+      ])
+    })
+
+    it('should not report required twice for fields that cannot be empty', () => {
+      const issues = collectRecordWriteIssues(
+        {
+          title: { type: 'SINGLE_LINE_TEXT' as const, value: '' },
+          status: { type: 'RADIO_BUTTON' as const, value: null },
+        },
+        formProperties
+      )
+
+      expect(issues.map((issue) => [issue.fieldCode, issue.rule])).toEqual([
+        ['title', 'required'],
+        ['status', 'nonEmpty'],
+      ])
+    })
+
+    it('should ignore fields missing from the form', () => {
+      const record = {
+        title: { type: 'SINGLE_LINE_TEXT' as const, value: 'OK' },
+        removed: { type: 'RADIO_BUTTON' as const, value: null },
+      }
+
+      expect(collectRecordWriteIssues(record, formProperties)).toEqual([])
+      expect(() => validateRecordForWrite(record, formProperties)).not.toThrow()
+    })
+
+    it('should throw the first issue from validateRecordForWrite', () => {
+      const record = {
+        title: { type: 'SINGLE_LINE_TEXT' as const, value: '' },
+      }
+
+      expect(() => validateRecordForWrite(record, formProperties)).toThrow(ConstraintViolation)
+      expect(() => validateRecordForWrite(record, formProperties)).toThrow('フィールド "title": 必須項目です (required)')
+    })
+
+    it('should accept an update payload that leaves out required fields', () => {
+      const record = {
+        url: { type: 'LINK' as const, value: 'https://example.com' },
+      }
+
+      expect(collectRecordWriteIssues(record, formProperties)).toEqual([])
+      expect(() => validateRecordForWrite(record, formProperties)).not.toThrow()
+    })
+
+    it('should report required fields missing from the record unless they have a default value', () => {
+      const record = {
+        url: { type: 'LINK' as const, value: 'https://example.com' },
+      }
+
+      // status は初期値があるため、レコード追加時に初期値が設定される
+      expect(collectRecordWriteIssues(record, formProperties, { onMissingRequired: 'error' })).toEqual([
+        {
+          fieldCode: 'title',
+          path: ['title'],
+          fieldType: 'SINGLE_LINE_TEXT',
+          rule: 'required',
+          expected: undefined,
+          actual: undefined,
+          message: 'フィールド "title": 必須項目です (required)',
+        },
+      ])
+      expect(() => validateRecordForWrite(record, formProperties, { onMissingRequired: 'error' })).toThrow(ConstraintViolation)
+    })
+
+    it('should list the values written to unique fields as hints', () => {
+      const uniqueProperties = {
+        code: {
+          type: 'SINGLE_LINE_TEXT' as const,
+          code: 'code',
+          label: '顧客コード',
+          required: false,
+          unique: true,
+          defaultValue: '',
+          minLength: '',
+          maxLength: '',
+        },
+        memo: {
+          type: 'SINGLE_LINE_TEXT' as const,
+          code: 'memo',
+          label: 'メモ',
+          unique: false,
+          defaultValue: '',
+          minLength: '',
+          maxLength: '',
+        },
+      }
+
+      expect(
+        collectUniqueFieldHints(
+          {
+            code: { type: 'SINGLE_LINE_TEXT' as const, value: 'C-001' },
+            memo: { type: 'SINGLE_LINE_TEXT' as const, value: 'C-001' },
+          },
+          uniqueProperties
+        )
+      ).toEqual([{ fieldCode: 'code', fieldType: 'SINGLE_LINE_TEXT', value: 'C-001' }])
+      expect(collectUniqueFieldHints({ code: { type: 'SINGLE_LINE_TEXT' as const, value: '' } }, uniqueProperties)).toEqual([])
+    })
+  })
+
+  describe('tagged errors', () => {
+    it('should throw errors that can be matched by tag', () => {
+      const error = (() => {
+        try {
+          validateRecordForWrite({ status: { type: 'RADIO_BUTTON', value: null } })
+        } catch (e) {
+          return e
+        }
+      })()
+
+      expect(error).toBeInstanceOf(EmptyValueNotAllowed)
+      expect(isKintoneValidationError(error)).toBe(true)
+      if (error instanceof EmptyValueNotAllowed) {
+        expect(error._tag).toBe('EmptyValueNotAllowed')
+        expect(error.fieldCode).toBe('status')
+        expect(error.path).toEqual(['status'])
+        expect(error.actual).toBeNull()
+      }
+    })
+
+    it('should report read-only fields when requested', () => {
+      const record = { total: { type: 'CALC' as const, value: '100' } }
+
+      expect(() => validateRecordForWrite(record)).not.toThrow()
+      expect(() =>
+        validateRecordForWrite(record, undefined, { onReadOnlyField: 'error' })
+      ).toThrow(ReadOnlyField)
+    })
+
+    it('should report unknown field codes when requested', () => {
+      const record = { removed: { type: 'SINGLE_LINE_TEXT' as const, value: 'x' } }
+
+      expect(() => validateRecordForWrite(record, {})).not.toThrow()
+      expect(() => validateRecordForWrite(record, {}, { onUnknownField: 'error' })).toThrow(UnknownFieldCode)
+      expect(() => validateRecordForWrite(record, {}, { onUnknownField: 'error' })).toThrow(
+        'フィールド "removed": フォームに存在しないフィールドです'
+      )
+    })
+
+    it('should convert issues to errors with structured fields', () => {
+      const error = toValidationError({
+        fieldCode: 'size',
+        path: ['size'],
+        fieldType: 'DROP_DOWN',
+        rule: 'option',
+        expected: ['S', 'M'],
+        actual: 'L',
+        message: '',
+      })
+
+      expect(error).toBeInstanceOf(OptionNotFound)
+      expect(error.message).toBe('フィールド "size": "L"は選択肢にありません (option)')
+      expect(Effect.runSync(
+        Effect.fail(error).pipe(
+          Effect.catchTag('OptionNotFound', (e) => Effect.succeed(e.expected))
+        )
+      )).toEqual(['S', 'M'])
+    })
+  })
+
+  describe('isReadOnlyField', () => {
+    it('should detect read-only field types', () => {
+      expect(isReadOnlyField('CALC')).toBe(true)
+      expect(isReadOnlyField('RECORD_ID')).toBe(true)
+      expect(isReadOnlyField('SINGLE_LINE_TEXT')).toBe(false)
+      expect(isReadOnlyField('SUBTABLE')).toBe(false)
+    })
+  })
+
   describe('isNonEmptyField', () => {
     it('should return true for non-empty fields', () => {
       expect(isNonEmptyField('RADIO_BUTTON')).toBe(true)
@@ -128,9 +492,9 @@ describe('Field Validators', () => {
     })
 
     it('should throw error for non-empty fields', () => {
-      expect(() => getEmptyValueForWrite('RADIO_BUTTON')).toThrow(KintoneValidationError)
-      expect(() => getEmptyValueForWrite('CATEGORY')).toThrow(KintoneValidationError)
-      expect(() => getEmptyValueForWrite('STATUS_ASSIGNEE')).toThrow(KintoneValidationError)
+      expect(() => getEmptyValueForWrite('RADIO_BUTTON')).toThrow(EmptyValueNotAllowed)
+      expect(() => getEmptyValueForWrite('CATEGORY')).toThrow(EmptyValueNotAllowed)
+      expect(() => getEmptyValueForWrite('STATUS_ASSIGNEE')).toThrow(EmptyValueNotAllowed)
     })
   })
 })
\ No newline at end of file
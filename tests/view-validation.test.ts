@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { collectViewIssues } from '../src/view-validation.js'
+import type { View } from '../src/schemas/app/views.js'
+import type { GetFormFieldsResponse } from '../src/schemas/form/fields.js'
+
+const properties = {
+  レコード番号: { type: 'RECORD_NUMBER', code: 'レコード番号', label: 'レコード番号', noLabel: false },
+  title: { type: 'SINGLE_LINE_TEXT', code: 'title', label: 'タイトル', noLabel: false, required: false },
+  due: { type: 'DATE', code: 'due', label: '期限', noLabel: false, required: false },
+  startAt: { type: 'DATETIME', code: 'startAt', label: '開始日時', noLabel: false, required: false },
+  items: {
+    type: 'SUBTABLE',
+    code: 'items',
+    label: '明細',
+    noLabel: false,
+    fields: {
+      item: { type: 'SINGLE_LINE_TEXT', code: 'item', label: '品目', noLabel: false, required: false },
+    },
+  },
+} as unknown as GetFormFieldsResponse['properties']
+
+const views = {
+  一覧: {
+    type: 'LIST',
+    name: '一覧',
+    id: '1',
+    filterCond: 'title like "会議"',
+    sort: 'レコード番号 desc',
+    index: '0',
+    fields: ['レコード番号', 'title', 'item'],
+  },
+  カレンダー: {
+    type: 'CALENDAR',
+    name: 'カレンダー',
+    id: '2',
+    filterCond: '',
+    sort: '',
+    index: '1',
+    date: 'due',
+    title: 'title',
+  },
+  カスタム: {
+    type: 'CUSTOM',
+    name: 'カスタム',
+    id: '3',
+    filterCond: '',
+    sort: '',
+    index: '2',
+    html: '<div id="root"></div>',
+    pager: true,
+    device: 'ANY',
+  },
+} satisfies Record<string, View>
+
+describe('collectViewIssues', () => {
+  it('フォームと一致する一覧は問題を返さない', () => {
+    expect(collectViewIssues(views, properties)).toEqual([])
+  })
+
+  it('削除されたフィールドコードを参照する一覧を報告する', () => {
+    const issues = collectViewIssues(
+      {
+        一覧: { ...views.一覧, fields: ['title', 'memo'] },
+        カレンダー: { ...views.カレンダー, title: 'subject' },
+      },
+      properties,
+      'en'
+    )
+    expect(issues).toEqual([
+      {
+        view: '一覧',
+        kind: 'unknownField',
+        fieldCode: 'memo',
+        message: 'View "一覧" references unknown field code "memo"',
+      },
+      {
+        view: 'カレンダー',
+        kind: 'unknownField',
+        fieldCode: 'subject',
+        message: 'View "カレンダー" references unknown field code "subject"',
+      },
+    ])
+  })
+
+  it('カレンダーの date が日付のフィールドでない場合を報告する', () => {
+    const issues = collectViewIssues({ カレンダー: { ...views.カレンダー, date: 'startAt' } }, properties, 'en')
+    expect(issues).toEqual([
+      {
+        view: 'カレンダー',
+        kind: 'calendarDate',
+        fieldCode: 'startAt',
+        message: 'Calendar view "カレンダー" uses DATETIME field "startAt" as the date (a DATE field is required)',
+      },
+    ])
+  })
+
+  it('filterCond と sort のクエリを検証し、位置はそれぞれの文字列中の位置にする', () => {
+    const issues = collectViewIssues(
+      { 一覧: { ...views.一覧, filterCond: 'memo = "a"', sort: 'title asc, deleted desc' } },
+      properties
+    )
+    expect(issues.map(({ kind, fieldCode }) => ({ kind, fieldCode }))).toEqual([
+      { kind: 'filterCond', fieldCode: 'memo' },
+      { kind: 'sort', fieldCode: 'deleted' },
+    ])
+    expect(issues[0]?.queryIssue).toMatchObject({ start: 0, end: 4, column: 1 })
+    expect(issues[1]?.queryIssue).toMatchObject({ start: 11, end: 18, column: 12 })
+  })
+
+  it('should use the message locale by default', () => {
+    const issues = collectViewIssues(
+      { カレンダー: { ...views.カレンダー, date: 'startAt', title: 'subject', filterCond: 'memo = "a"' } },
+      properties
+    )
+
+    expect(issues.map(({ message }) => message)).toEqual([
+      'カレンダー形式の一覧 "カレンダー" が DATETIME フィールド "startAt" を日付に使っています（日付（DATE）のフィールドを指定してください）',
+      '一覧 "カレンダー" がフォームにないフィールドコード "subject" を参照しています',
+      expect.stringMatching(/^一覧 "カレンダー" の filterCond: /),
+    ])
+  })
+})
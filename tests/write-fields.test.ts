@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import {
+  SingleLineTextWriteSchema,
+  NumberWriteSchema,
+  UserSelectWriteSchema,
+  FileWriteSchema,
+  SubtableWriteSchema,
+  KintoneRecordWriteSchema,
+} from '../src/schemas/write-fields.js'
+
+describe('Write Field Schemas', () => {
+  it('should validate text and number write values', () => {
+    expect(Schema.decodeUnknownSync(SingleLineTextWriteSchema)({ value: 'Hello' })).toEqual({ value: 'Hello' })
+    expect(Schema.decodeUnknownSync(NumberWriteSchema)({ value: null })).toEqual({ value: null })
+    expect(() => Schema.decodeUnknownSync(SingleLineTextWriteSchema)({ value: 1 })).toThrow()
+  })
+
+  it('should take user codes for USER_SELECT', () => {
+    expect(Schema.decodeUnknownSync(UserSelectWriteSchema)({ value: [{ code: 'user1' }] })).toEqual({
+      value: [{ code: 'user1' }],
+    })
+    expect(() => Schema.decodeUnknownSync(UserSelectWriteSchema)({ value: ['user1'] })).toThrow()
+  })
+
+  it('should take file keys for FILE', () => {
+    expect(Schema.decodeUnknownSync(FileWriteSchema)({ value: [{ fileKey: 'key1' }] })).toEqual({
+      value: [{ fileKey: 'key1' }],
+    })
+    expect(() => Schema.decodeUnknownSync(FileWriteSchema)({ value: [{ name: 'a.txt' }] })).toThrow()
+  })
+
+  it('should accept subtable rows with and without id', () => {
+    const subtable = {
+      value: [
+        { id: '10', value: { name: { value: 'Apple' } } },
+        { value: { name: { value: 'Banana' } } },
+      ],
+    }
+    expect(Schema.decodeUnknownSync(SubtableWriteSchema)(subtable)).toEqual(subtable)
+  })
+
+  it('should validate a write record', () => {
+    const record = {
+      title: { value: 'Hello' },
+      owner: { value: [{ code: 'user1' }] },
+      items: { value: [{ value: { qty: { value: '1' } } }] },
+    }
+    expect(Schema.decodeUnknownSync(KintoneRecordWriteSchema)(record)).toEqual(record)
+    expect(() => Schema.decodeUnknownSync(KintoneRecordWriteSchema)({ title: 'Hello' })).toThrow()
+  })
+})
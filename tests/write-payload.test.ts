@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import { toWritePayload, toWriteValue } from '../src/write-payload.js'
+import { EmptyValueNotAllowed } from '../src/errors.js'
+import type { KintoneFieldProperties } from '../src/schemas/form/fields.js'
+
+describe('toWritePayload', () => {
+  it('should drop read-only and system fields', () => {
+    const record = {
+      $id: { type: 'RECORD_ID' as const, value: '1' },
+      $revision: { type: 'REVISION' as const, value: '3' },
+      record_number: { type: 'RECORD_NUMBER' as const, value: '1' },
+      title: { type: 'SINGLE_LINE_TEXT' as const, value: 'Hello' },
+      total: { type: 'CALC' as const, value: '100' },
+      creator: { type: 'CREATOR' as const, value: { code: 'user1', name: 'User 1' } },
+      created: { type: 'CREATED_TIME' as const, value: '2024-01-01T00:00:00Z' },
+      status: { type: 'STATUS' as const, value: '未処理' },
+      category: { type: 'CATEGORY' as const, value: ['A'] },
+    }
+
+    expect(toWritePayload(record)).toEqual({
+      title: { value: 'Hello' },
+    })
+  })
+
+  it('should convert entity selections to code only and files to fileKey only', () => {
+    const record = {
+      users: {
+        type: 'USER_SELECT' as const,
+        value: [{ code: 'user1', name: 'User 1' }],
+      },
+      orgs: {
+        type: 'ORGANIZATION_SELECT' as const,
+        value: [{ code: 'org1', name: 'Org 1' }],
+      },
+      groups: {
+        type: 'GROUP_SELECT' as const,
+        value: [{ code: 'group1', name: 'Group 1' }],
+      },
+      attachments: {
+        type: 'FILE' as const,
+        value: [{ contentType: 'text/plain', fileKey: 'key1', name: 'a.txt', size: '10' }],
+      },
+    }
+
+    expect(toWritePayload(record)).toEqual({
+      users: { value: [{ code: 'user1' }] },
+      orgs: { value: [{ code: 'org1' }] },
+      groups: { value: [{ code: 'group1' }] },
+      attachments: { value: [{ fileKey: 'key1' }] },
+    })
+  })
+
+  it('should keep row ids and strip cell types in subtables', () => {
+    const record = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '10',
+            value: {
+              name: { type: 'SINGLE_LINE_TEXT' as const, value: 'Apple' },
+              subtotal: { type: 'CALC' as const, value: '300' },
+              owner: { type: 'USER_SELECT' as const, value: [{ code: 'user1', name: 'User 1' }] },
+            },
+          },
+        ],
+      },
+    }
+
+    expect(toWritePayload(record)).toEqual({
+      items: {
+        value: [
+          {
+            id: '10',
+            value: {
+              name: { value: 'Apple' },
+              owner: { value: [{ code: 'user1' }] },
+            },
+          },
+        ],
+      },
+    })
+  })
+
+  it('should drop fields missing from the form and lookup copy targets', () => {
+    const formProperties: Record<string, KintoneFieldProperties> = {
+      customer: {
+        type: 'SINGLE_LINE_TEXT',
+        code: 'customer',
+        label: 'Customer',
+        lookup: {
+          relatedApp: { app: '2', code: '' },
+          relatedKeyField: 'name',
+          fieldMappings: [{ field: 'customer_tel', relatedField: 'tel' }],
+          lookupPickerFields: [],
+          filterCond: '',
+          sort: '',
+        },
+      },
+      customer_tel: {
+        type: 'SINGLE_LINE_TEXT',
+        code: 'customer_tel',
+        label: 'Tel',
+      },
+    }
+    const record = {
+      customer: { type: 'SINGLE_LINE_TEXT' as const, value: 'ACME' },
+      customer_tel: { type: 'SINGLE_LINE_TEXT' as const, value: '000-0000' },
+      removed_field: { type: 'SINGLE_LINE_TEXT' as const, value: 'stale' },
+    }
+
+    expect(toWritePayload(record, formProperties)).toEqual({
+      customer: { value: 'ACME' },
+    })
+  })
+
+  it('should throw EmptyValueNotAllowed for empty values that cannot be written', () => {
+    const record = {
+      choice: { type: 'RADIO_BUTTON' as const, value: null },
+    }
+
+    expect(() => toWritePayload(record)).toThrow(EmptyValueNotAllowed)
+    expect(() => toWritePayload(record)).toThrow('フィールド "choice": RADIO_BUTTONフィールドには空の値を設定できません')
+  })
+
+  it('should validate cells in subtable rows', () => {
+    const record = {
+      items: {
+        type: 'SUBTABLE' as const,
+        value: [
+          {
+            id: '10',
+            value: {
+              choice: { type: 'RADIO_BUTTON' as const, value: '' },
+            },
+          },
+        ],
+      },
+    }
+
+    expect(() => toWritePayload(record)).toThrow('フィールド "choice"')
+  })
+
+  it('should validate against the form settings when form properties are given', () => {
+    const formProperties: Record<string, KintoneFieldProperties> = {
+      title: {
+        type: 'SINGLE_LINE_TEXT',
+        code: 'title',
+        label: 'Title',
+        required: true,
+        defaultValue: '',
+        minLength: '',
+        maxLength: '',
+      },
+    }
+
+    expect(() =>
+      toWritePayload({ title: { type: 'SINGLE_LINE_TEXT' as const, value: '' } }, formProperties)
+    ).toThrow('フィールド "title": 必須項目です (required)')
+  })
+
+  it('should not validate fields that are dropped from the payload', () => {
+    const record = {
+      category: { type: 'CATEGORY' as const, value: [] },
+      assignee: { type: 'STATUS_ASSIGNEE' as const, value: [] },
+    }
+
+    expect(toWritePayload(record)).toEqual({})
+  })
+})
+
+describe('toWriteValue', () => {
+  it('should return the value as-is for plain fields', () => {
+    expect(toWriteValue({ type: 'CHECK_BOX', value: ['A', 'B'] })).toEqual(['A', 'B'])
+    expect(toWriteValue({ type: 'NUMBER', value: null })).toBeNull()
+  })
+})